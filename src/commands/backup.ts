@@ -0,0 +1,63 @@
+import { confirm, isCancel, log, outro, select } from '@clack/prompts';
+import { BackupLib, type BackupSnapshot } from '@/lib/backup';
+import { FileLib } from '@/lib/file';
+import { PlanLib } from '@/lib/plan';
+
+export const backupCommand = {
+  async execute() {
+    const backups = this.list();
+    if (backups.length === 0) return;
+
+    const id = await select({
+      message: 'Which backup do you want to restore?',
+      options: backups.map((backup) => ({
+        value: backup.id,
+        label: backup.id,
+        hint: `${backup.reason}, ${backup.entries.length} path(s)`,
+      })),
+    });
+
+    if (isCancel(id)) return;
+
+    const proceed = await confirm({ message: 'Put these paths back? Their current version is backed up first.' });
+    if (!proceed || isCancel(proceed)) return;
+
+    const restored = this.restore(id);
+    outro(`✅ Restored ${restored} path(s)`);
+  },
+
+  /**
+   * Print every backup, newest first
+   */
+  list(): BackupSnapshot[] {
+    const backups = BackupLib.list();
+
+    if (backups.length === 0) {
+      log.info('No backups yet');
+      return backups;
+    }
+
+    for (const backup of backups) {
+      const paths = backup.entries.map((entry) => `  ${FileLib.toPortablePath(entry.originalPath)}`);
+      log.message([`${backup.id}  ${backup.reason}`, ...paths].join('\n'));
+    }
+
+    return backups;
+  },
+
+  /**
+   * Put every path of a backup back in place, without prompting
+   * @returns Number of restored paths
+   */
+  restore(id: string): number {
+    const backup = BackupLib.find(id);
+    const current = PlanLib.executeSteps(BackupLib.planRestore(backup), `restore ${id}`);
+
+    for (const entry of backup.entries) {
+      log.success(FileLib.toPortablePath(entry.originalPath));
+    }
+    if (current) log.info(`Previous version saved: ${current.id}`);
+
+    return backup.entries.length;
+  },
+};
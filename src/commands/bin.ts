@@ -2,14 +2,45 @@ import path from 'node:path';
 import { confirm, log } from '@clack/prompts';
 import type { DotsxOsPath } from '@/lib/constants';
 import { FileLib } from '@/lib/file';
+import type { PlanAction, PlanStep } from '@/lib/plan';
 import { SystemLib } from '@/lib/system';
 
+interface ScriptData {
+  scriptName: string;
+  scriptPath: string;
+  isExecutable: boolean;
+  hasAlias: boolean;
+}
+
 export const binCommand = {
   async execute(dotsxPath: DotsxOsPath) {
+    const scriptsData = this.inspect(dotsxPath);
+    if (!scriptsData || scriptsData.length === 0) return;
+
+    if (scriptsData.every((script) => script.isExecutable && script.hasAlias)) {
+      log.success('All scripts are already configured');
+      return;
+    }
+
+    const shouldSetup = await confirm({
+      message: 'Are you sure you want to setup not configured bin scripts?',
+      initialValue: true,
+    });
+
+    if (!shouldSetup) return;
+
+    this.setup(dotsxPath, scriptsData);
+  },
+
+  /**
+   * Clean stale aliases and report the state of every bin script, without prompting
+   * @returns Scripts data, or null if the bin directory had to be created first
+   */
+  inspect(dotsxPath: DotsxOsPath): ScriptData[] | null {
     if (!FileLib.isDirectory(dotsxPath.bin) || !FileLib.isFile(dotsxPath.binAliases)) {
       FileLib.File.create(dotsxPath.binAliases);
       log.info(`The bin config directory and alias file were created, relaunch the cli`);
-      return;
+      return null;
     }
 
     this.writeAliasToRcFile(dotsxPath.binAliases);
@@ -29,39 +60,31 @@ export const binCommand = {
       }
     }
 
-    const scriptFiles = this.readBinDirectory(dotsxPath.bin);
+    const scripts = this.getScripts(dotsxPath);
 
-    if (scriptFiles.length === 0) {
+    if (scripts.length === 0) {
       log.warn(`No shell scripts found, add some shell scripts to ${dotsxPath.bin}`);
-      return;
+      return [];
     }
 
-    const scriptsData = scriptFiles.map((script) => {
-      const scriptName = FileLib.File.deleteExtension(script);
-      const scriptPath = path.resolve(dotsxPath.bin, script);
-
+    return scripts.map(({ scriptName, scriptPath }) => {
       const isExecutable = FileLib.File.isExecutable(scriptPath);
-      const hasAlias = this.checkAliasInFile(dotsxPath.binAliases, scriptName);
+      const hasAlias = this.checkAliasInFile(dotsxPath.binAliases, scriptName, scriptPath);
 
       log.message(`- ${scriptPath} \t ${isExecutable ? '✅' : '❌'} Executable \t ${hasAlias ? '✅' : '❌'} Alias`);
 
       return { scriptName, scriptPath, isExecutable, hasAlias };
     });
+  },
 
-    if (scriptsData.every((script) => script.isExecutable && script.hasAlias)) {
-      log.success('All scripts are already configured');
-      return;
-    }
-
-    const shouldSetup = await confirm({
-      message: 'Are you sure you want to setup not configured bin scripts?',
-      initialValue: true,
-    });
-
-    if (!shouldSetup) return;
-
+  /**
+   * Alias and chmod every script that is not configured yet
+   */
+  setup(dotsxPath: DotsxOsPath, scriptsData: ScriptData[]) {
     scriptsData.forEach((script) => {
       if (!script.hasAlias) {
+        // Drop an alias to another layer's script of the same name first
+        this.removeAlias(dotsxPath.binAliases, script.scriptName);
         this.addAlias(dotsxPath.binAliases, script.scriptName, script.scriptPath);
         log.success(`${script.scriptName} is now aliased`);
       }
@@ -73,6 +96,40 @@ export const binCommand = {
     });
   },
 
+  /**
+   * Compute the rc source line, alias and chmod steps of `setup`, without touching the filesystem
+   */
+  planSetup(dotsxPath: DotsxOsPath): PlanAction[] {
+    const actions: PlanAction[] = [];
+
+    const rcFile = SystemLib.getRcFilePath();
+    if (rcFile && !this.isAliasFileSourced(rcFile, dotsxPath.binAliases)) {
+      actions.push({
+        category: 'bin',
+        title: `Source aliases in ${rcFile}`,
+        steps: [{ op: 'append', path: rcFile, content: `source ${dotsxPath.binAliases}` }],
+      });
+    }
+
+    for (const { scriptName, scriptPath } of this.getScripts(dotsxPath)) {
+      const steps: PlanStep[] = [];
+
+      // An alias appended last wins over an older one of the same name
+      if (!this.checkAliasInFile(dotsxPath.binAliases, scriptName, scriptPath)) {
+        steps.push({ op: 'append', path: dotsxPath.binAliases, content: this.getAliasLine(scriptName, scriptPath) });
+      }
+      if (!FileLib.File.isExecutable(scriptPath)) {
+        steps.push({ op: 'chmod', path: scriptPath, mode: 0o755 });
+      }
+
+      if (steps.length > 0) {
+        actions.push({ category: 'bin', title: `Setup ${scriptName}`, steps });
+      }
+    }
+
+    return actions;
+  },
+
   writeAliasToRcFile(binAliases: string): void {
     const rcFile = SystemLib.getRcFilePath();
     if (!rcFile) {
@@ -80,13 +137,38 @@ export const binCommand = {
       return;
     }
 
+    if (!this.isAliasFileSourced(rcFile, binAliases)) {
+      FileLib.File.writeAppend(rcFile, `source ${binAliases}`);
+      log.info(`Source added to ${rcFile}`);
+    }
+  },
+
+  isAliasFileSourced(rcFile: string, binAliases: string): boolean {
+    if (!FileLib.isFile(rcFile)) return false;
+
     const content = FileLib.File.read(rcFile);
     const sourcePattern = new RegExp(`source\\s+${binAliases}`, 'm');
+    return sourcePattern.test(content);
+  },
 
-    if (!sourcePattern.test(content)) {
-      FileLib.File.writeAppend(rcFile, `source ${binAliases}`);
-      log.info(`Source added to ${rcFile}`);
+  /**
+   * Scripts of every layer, a script of the OS layer overrides the common one with the same name
+   */
+  getScripts(dotsxPath: DotsxOsPath): Array<{ scriptName: string; scriptPath: string }> {
+    const scripts = new Map<string, string>();
+
+    for (const layer of dotsxPath.layers) {
+      for (const script of this.readBinDirectory(layer.bin)) {
+        const scriptPath = path.resolve(layer.bin, script);
+        if (scriptPath === dotsxPath.binAliases) continue;
+
+        scripts.set(FileLib.File.deleteExtension(script), scriptPath);
+      }
     }
+
+    return [...scripts]
+      .map(([scriptName, scriptPath]) => ({ scriptName, scriptPath }))
+      .sort((a, b) => a.scriptName.localeCompare(b.scriptName));
   },
 
   readBinDirectory(bin: string): string[] {
@@ -117,7 +199,17 @@ export const binCommand = {
     return scripts;
   },
 
-  checkAliasInFile(binAliases: string, scriptName: string): boolean {
+  /**
+   * @param scriptPath - If set, the alias must also point to this script
+   */
+  checkAliasInFile(binAliases: string, scriptName: string, scriptPath?: string): boolean {
+    if (scriptPath) {
+      return (
+        FileLib.isFile(binAliases) &&
+        this.getScriptInFile(binAliases).some((script) => script.name === scriptName && script.path === scriptPath)
+      );
+    }
+
     try {
       const content = FileLib.File.read(binAliases);
       const aliasPattern = new RegExp(`alias\\s+${scriptName}=`, 'm');
@@ -127,8 +219,20 @@ export const binCommand = {
     }
   },
 
+  getAliasLine(scriptName: string, scriptPath: string): string {
+    return `alias ${scriptName}="${scriptPath}"`;
+  },
+
+  removeAlias(binAliases: string, scriptName: string): void {
+    if (!FileLib.isFile(binAliases)) return;
+
+    for (const script of this.getScriptInFile(binAliases).filter((s) => s.name === scriptName)) {
+      FileLib.File.writeReplacing(binAliases, '', this.getAliasLine(script.name, script.path));
+    }
+  },
+
   addAlias(binAliases: string, scriptName: string, scriptPath: string): void {
-    const aliasLine = `alias ${scriptName}="${scriptPath}"`;
+    const aliasLine = this.getAliasLine(scriptName, scriptPath);
 
     try {
       if (!FileLib.isFile(binAliases)) {
@@ -0,0 +1,513 @@
+import path from 'node:path';
+import { log } from '@clack/prompts';
+import { type CliArgs, CliLib, EXIT_FAILURE, EXIT_SUCCESS, EXIT_USAGE } from '@/lib/cli';
+import { ConfigLib } from '@/lib/config';
+import { DOTSX_PATH, type DotsxOsPath, resolveDotsxKeyPath } from '@/lib/constants';
+import { FileLib } from '@/lib/file';
+import { GitLib } from '@/lib/git';
+import { type Plan, PlanLib } from '@/lib/plan';
+import { SecretLib } from '@/lib/secret';
+import { SuggestionLib } from '@/lib/suggestion';
+import type { OsInfo } from '@/lib/system';
+import { getPackageManagerConfig } from '@/packages';
+import { backupCommand } from './backup';
+import { binCommand } from './bin';
+import { discoverCommand } from './discover';
+import { doctorCommand } from './doctor';
+import { gitCommand } from './git';
+import { packageCommand } from './packages';
+import { planCommand } from './plan';
+import { secretCommand } from './secret';
+import { symlinkCommand } from './symlink';
+import { watchCommand } from './watch';
+
+const DEFAULT_PLAN_FILE = 'dotsx.plan.json';
+
+const usages: Record<string, Record<string, string>> = {
+  symlink: {
+    'symlink add <path...> [--common|--host] [--keep system|dotsx]': 'Move paths into dotsx and symlink them back',
+    'symlink add --copy <path...> [--common|--host]': 'Track files as real copies synced both ways',
+    'symlink add --template <path...> [--common|--host]': 'Copy files into dotsx as templates rendered per machine',
+    'symlink add <app>:<path...> [--host]': 'Track app files (e.g. vscode:User/settings.json) once for every OS',
+    'symlink sync [--keep system|dotsx]': 'Recreate broken symlinks, re-render templates and sync copies',
+    'symlink status': 'List links, exits 1 if any is broken',
+    'symlink untrack <path...> [--remove]': 'Restore real files in place of symlinks',
+    'symlink untrack -s <suggestion> [--remove]': 'Untrack every link of a suggestion (e.g. cursor)',
+    'symlink ignore <path> <pattern...>': 'Ignore files of a tracked directory (gitignore-style)',
+    'symlink share <tracked> <path...> [--keep system|dotsx]': 'Link more paths to the dotsx copy of a tracked path',
+    'symlink disable <app...>': 'Leave the links of apps (e.g. cursor) alone on this machine',
+    'symlink enable <app...> [--keep system|dotsx]': 'Manage the links of disabled apps again and relink them',
+  },
+  secret: {
+    'secret add <path...> [--common|--host]': 'Encrypt files into dotsx, decrypted back on sync',
+    'secret edit <path>': 'Edit a secret in $EDITOR, then encrypt it again',
+    'secret rotate': 'Encrypt every secret with a new keyfile, or with $DOTSX_NEW_PASSPHRASE for passphrase users',
+  },
+  backup: {
+    'backup list': 'List backups of files dotsx overwrote, newest first',
+    'backup restore <id>': 'Put every file of a backup back in place',
+  },
+  bin: {
+    'bin setup': 'Alias and chmod every bin script',
+  },
+  pkg: {
+    'pkg install <manager> [package...]': 'Install packages, defaults to every missing one of the list',
+    'pkg remove <manager> <package...>': 'Remove packages',
+  },
+  git: {
+    'git sync [-m <message>]': 'Sync copies, then add, commit and push every change',
+  },
+  discover: {
+    discover: 'Rank untracked dotfiles of ~ and ~/.config and pick the ones to track',
+  },
+  watch: {
+    'watch [--repair] [--commit]': 'Log drifted links as they change, --repair fixes them, --commit commits once idle',
+  },
+  doctor: {
+    'doctor [--fix]': 'Run diagnostics, exits 1 if errors remain',
+  },
+  plan: {
+    'plan [-f <file>]': `Compute every pending action and save it (default: ./${DEFAULT_PLAN_FILE})`,
+  },
+  apply: {
+    'apply [-f <file>]': 'Run a saved plan, refused if the system changed since',
+  },
+};
+
+export const cliCommand = {
+  /**
+   * Run a non-interactive subcommand
+   * @param argv - Arguments without the executable and script path
+   * @returns Process exit code
+   */
+  async execute(argv: string[], osInfo: OsInfo, dotsxPath: DotsxOsPath): Promise<number> {
+    let cli: CliArgs;
+    try {
+      cli = CliLib.parse(argv);
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : String(error));
+      this.printHelp();
+      return EXIT_USAGE;
+    }
+
+    if (!cli.command || cli.command === 'help') {
+      this.printHelp(cli.action);
+      return EXIT_SUCCESS;
+    }
+
+    if (cli.flags.help) {
+      this.printHelp(cli.command);
+      return EXIT_SUCCESS;
+    }
+
+    if (!usages[cli.command]) {
+      log.error(`Unknown command: ${cli.command}`);
+      this.printHelp();
+      return EXIT_USAGE;
+    }
+
+    if (!FileLib.isExists(dotsxPath.baseOs)) {
+      log.error(`${dotsxPath.baseOs} does not exist, run dotsx without arguments to initialize it`);
+      return EXIT_FAILURE;
+    }
+
+    switch (cli.command) {
+      case 'symlink':
+        return this.runSymlink(cli, osInfo, dotsxPath);
+      case 'secret':
+        return this.runSecret(cli, dotsxPath);
+      case 'backup':
+        return this.runBackup(cli);
+      case 'bin':
+        return this.runBin(cli, dotsxPath);
+      case 'pkg':
+        return this.runPackages(cli, osInfo, dotsxPath);
+      case 'git':
+        return this.runGit(cli, dotsxPath);
+      case 'discover':
+        return this.runDiscover(cli, dotsxPath);
+      case 'watch':
+        return this.runWatch(cli, dotsxPath);
+      case 'doctor':
+        return this.runDoctor(cli, dotsxPath);
+      case 'plan':
+        return this.runPlan(cli, osInfo, dotsxPath);
+      case 'apply':
+        return this.runApply(cli);
+      default:
+        return EXIT_USAGE;
+    }
+  },
+
+  printHelp(command?: string) {
+    const entries = command && usages[command] ? usages[command] : Object.assign({}, ...Object.values(usages));
+    console.log(
+      [
+        'Usage:',
+        CliLib.formatUsage({ '': 'Open the interactive menu', ...entries }),
+        '',
+        'Options:',
+        '  -h, --help               Show help',
+        '  -m, --message <m>        Commit message',
+        '  -f, --file <path>        Plan file',
+        '  -s, --suggestion <name>  Suggestion to untrack',
+        '      --remove             Also remove untracked content from dotsx',
+        '      --keep <side>        Version kept when system and dotsx copies differ',
+        '      --common             Store in the layer shared by every OS',
+        '      --host               Store in the layer of this machine only',
+        '      --template           Track files as templates instead of symlinks',
+        '      --copy               Track files as real copies instead of symlinks',
+        '      --fix                Apply doctor fixes',
+        '      --repair             Fix drifted links while watching',
+        '      --commit             Commit changes after a quiet period while watching',
+      ].join('\n'),
+    );
+  },
+
+  usageError(cli: CliArgs, message: string): number {
+    log.error(message);
+    this.printHelp(cli.command);
+    return EXIT_USAGE;
+  },
+
+  async runSymlink(cli: CliArgs, osInfo: OsInfo, dotsxPath: DotsxOsPath): Promise<number> {
+    const { keep } = cli.flags;
+    if (keep !== undefined && keep !== 'system' && keep !== 'dotsx') {
+      return this.usageError(cli, `Invalid --keep value: ${keep}, expected system or dotsx`);
+    }
+
+    if (cli.action === 'add') {
+      if (cli.args.length === 0) return this.usageError(cli, 'Missing <path> to link');
+
+      const scope = cli.flags.common ? 'common' : cli.flags.host ? 'host' : 'os';
+      const layer = dotsxPath.layers.find((l) => l.scope === scope);
+      // App paths resolve on every OS, so they default to the common layer
+      const appLayer = cli.flags.host ? layer : dotsxPath.layers.find((l) => l.scope === 'common');
+
+      let failed = 0;
+      for (const inputPath of cli.args) {
+        const target = SuggestionLib.isAppPath(inputPath) ? appLayer : layer;
+        try {
+          const linkedPath = cli.flags.template
+            ? symlinkCommand.templatePath(dotsxPath, inputPath, target)
+            : symlinkCommand.linkPath(dotsxPath, inputPath, keep, target, cli.flags.copy ? 'copy' : 'symlink');
+          log.success(FileLib.display(linkedPath));
+        } catch (error) {
+          log.error(`${inputPath}: ${error instanceof Error ? error.message : error}`);
+          failed++;
+        }
+      }
+      return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+    }
+
+    if (cli.action === 'sync' || cli.action === 'status') {
+      const links = await symlinkCommand.checkStatus(dotsxPath);
+      const uninstalledGroups = Object.keys(symlinkCommand.groupLinks(links.uninstalledSymlinks));
+      if (uninstalledGroups.length > 0) {
+        log.warn(
+          `Left as is, not installed: ${uninstalledGroups.join(', ')}. Skip them with: dotsx symlink disable ${uninstalledGroups.join(' ')}`,
+        );
+      }
+      if (cli.action === 'status') {
+        return links.incorrectSymlinks.length > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+      }
+
+      const fixed = symlinkCommand.repairLinks(links.incorrectSymlinks.map((link) => ({ ...link, keep })));
+      if (links.incorrectSymlinks.length > 0) log.info(`Fixed ${fixed}/${links.incorrectSymlinks.length} links`);
+      // Also after a clone, where every link is correct but git reset the modes
+      symlinkCommand.restoreAttributes(dotsxPath);
+      return fixed === links.incorrectSymlinks.length ? EXIT_SUCCESS : EXIT_FAILURE;
+    }
+
+    if (cli.action === 'disable' || cli.action === 'enable') {
+      if (cli.args.length === 0) return this.usageError(cli, `Missing <app> to ${cli.action}`);
+
+      try {
+        if (cli.action === 'enable') {
+          return (await symlinkCommand.enableGroups(dotsxPath, cli.args, keep)) > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+        }
+        for (const group of cli.args) {
+          const links = symlinkCommand.setGroupEnabled(dotsxPath, group, false);
+          log.success(`${group} disabled on this machine (${links.length} link(s))`);
+        }
+        return EXIT_SUCCESS;
+      } catch (error) {
+        log.error(error instanceof Error ? error.message : String(error));
+        return EXIT_FAILURE;
+      }
+    }
+
+    if (cli.action === 'untrack') {
+      const systemPaths = cli.flags.suggestion
+        ? (SuggestionLib.groupBySuggestion(
+            symlinkCommand.getSymlinks(dotsxPath).map((link) => link.systemPath),
+            osInfo.distro || osInfo.family,
+          )[cli.flags.suggestion] ?? [])
+        : cli.args;
+
+      if (cli.flags.suggestion && systemPaths.length === 0) {
+        log.warn(`No tracked links for suggestion ${cli.flags.suggestion}`);
+        return EXIT_SUCCESS;
+      }
+      if (systemPaths.length === 0) return this.usageError(cli, 'Missing <path> or --suggestion to untrack');
+
+      let failed = 0;
+      for (const systemPath of systemPaths) {
+        try {
+          symlinkCommand.unlinkPath(dotsxPath, systemPath, cli.flags.remove);
+          log.success(`Restored ${FileLib.toPortablePath(FileLib.expand(systemPath))}`);
+        } catch (error) {
+          log.error(`${systemPath}: ${error instanceof Error ? error.message : error}`);
+          failed++;
+        }
+      }
+      return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+    }
+
+    if (cli.action === 'ignore') {
+      const [inputPath, ...patterns] = cli.args;
+      if (!inputPath || patterns.length === 0) return this.usageError(cli, 'Missing <path> or <pattern> to ignore');
+
+      try {
+        symlinkCommand.ignoreLink(dotsxPath, inputPath, patterns);
+        log.success(`Ignoring ${patterns.join(', ')} in ${FileLib.toPortablePath(FileLib.expand(inputPath))}`);
+        return EXIT_SUCCESS;
+      } catch (error) {
+        log.error(`${inputPath}: ${error instanceof Error ? error.message : error}`);
+        return EXIT_FAILURE;
+      }
+    }
+
+    if (cli.action === 'share') {
+      const [sourcePath, ...sharedPaths] = cli.args;
+      if (!sourcePath || sharedPaths.length === 0) return this.usageError(cli, 'Missing <tracked> or <path> to share');
+
+      let failed = 0;
+      for (const inputPath of sharedPaths) {
+        try {
+          symlinkCommand.sharePath(dotsxPath, sourcePath, inputPath, keep);
+          log.success(
+            `${FileLib.toPortablePath(ConfigLib.expandSystemPath(inputPath))} shares ${FileLib.toPortablePath(ConfigLib.expandSystemPath(sourcePath))}`,
+          );
+        } catch (error) {
+          log.error(`${inputPath}: ${error instanceof Error ? error.message : error}`);
+          failed++;
+        }
+      }
+      return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+    }
+
+    return this.usageError(cli, `Unknown symlink action: ${cli.action ?? '(none)'}`);
+  },
+
+  async runSecret(cli: CliArgs, dotsxPath: DotsxOsPath): Promise<number> {
+    if (cli.action !== 'add' && cli.action !== 'edit' && cli.action !== 'rotate') {
+      return this.usageError(cli, `Unknown secret action: ${cli.action ?? '(none)'}`);
+    }
+    if (cli.action !== 'rotate' && cli.args.length === 0) return this.usageError(cli, 'Missing <path>');
+
+    let key = SecretLib.resolveKey();
+    if (!key) {
+      if (cli.action !== 'add') {
+        log.error(`No secret key, set DOTSX_PASSPHRASE or copy the keyfile to ${resolveDotsxKeyPath()}`);
+        return EXIT_FAILURE;
+      }
+      key = SecretLib.generateKey();
+      SecretLib.saveKeyfile(key);
+      log.warn(`Keyfile created, copy ${resolveDotsxKeyPath()} to your other machines, secrets are lost without it`);
+    }
+
+    try {
+      if (cli.action === 'rotate' && key.source === 'passphrase') {
+        const passphrase = process.env.DOTSX_NEW_PASSPHRASE;
+        if (!passphrase) {
+          log.error('Secrets are encrypted with DOTSX_PASSPHRASE, set DOTSX_NEW_PASSPHRASE to the new one to rotate');
+          return EXIT_FAILURE;
+        }
+
+        const rotated = secretCommand.rotate(dotsxPath, key, { source: 'passphrase', secret: passphrase });
+        log.success(
+          `${rotated} secret(s) encrypted with DOTSX_NEW_PASSPHRASE, set it as DOTSX_PASSPHRASE on every machine`,
+        );
+        return EXIT_SUCCESS;
+      }
+      if (cli.action === 'rotate') {
+        const rotated = secretCommand.rotate(dotsxPath, key, SecretLib.generateKey());
+        log.success(
+          `${rotated} secret(s) encrypted with a new keyfile, copy ${resolveDotsxKeyPath()} to your other machines`,
+        );
+        return EXIT_SUCCESS;
+      }
+      if (cli.action === 'edit') {
+        secretCommand.editSecret(dotsxPath, cli.args[0] ?? '', key);
+        return EXIT_SUCCESS;
+      }
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : String(error));
+      return EXIT_FAILURE;
+    }
+
+    const scope = cli.flags.common ? 'common' : cli.flags.host ? 'host' : 'os';
+    const layer = dotsxPath.layers.find((l) => l.scope === scope);
+
+    let failed = 0;
+    for (const inputPath of cli.args) {
+      try {
+        log.success(FileLib.display(secretCommand.addSecret(dotsxPath, inputPath, key, layer)));
+      } catch (error) {
+        log.error(`${inputPath}: ${error instanceof Error ? error.message : error}`);
+        failed++;
+      }
+    }
+    return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+  },
+
+  async runBackup(cli: CliArgs): Promise<number> {
+    if (cli.action === 'list') {
+      backupCommand.list();
+      return EXIT_SUCCESS;
+    }
+
+    if (cli.action === 'restore') {
+      const [id] = cli.args;
+      if (!id) return this.usageError(cli, 'Missing backup <id>, see: dotsx backup list');
+
+      try {
+        backupCommand.restore(id);
+        return EXIT_SUCCESS;
+      } catch (error) {
+        log.error(error instanceof Error ? error.message : String(error));
+        return EXIT_FAILURE;
+      }
+    }
+
+    return this.usageError(cli, `Unknown backup action: ${cli.action ?? '(none)'}`);
+  },
+
+  async runBin(cli: CliArgs, dotsxPath: DotsxOsPath): Promise<number> {
+    if (cli.action !== 'setup') {
+      return this.usageError(cli, `Unknown bin action: ${cli.action ?? '(none)'}`);
+    }
+
+    const scriptsData = binCommand.inspect(dotsxPath);
+    if (!scriptsData) return EXIT_FAILURE;
+
+    binCommand.setup(dotsxPath, scriptsData);
+    return EXIT_SUCCESS;
+  },
+
+  async runPackages(cli: CliArgs, osInfo: OsInfo, dotsxPath: DotsxOsPath): Promise<number> {
+    if (cli.action !== 'install' && cli.action !== 'remove') {
+      return this.usageError(cli, `Unknown pkg action: ${cli.action ?? '(none)'}`);
+    }
+
+    const [managerName, ...packages] = cli.args;
+    if (!managerName) return this.usageError(cli, 'Missing <manager>');
+
+    const packageManager = getPackageManagerConfig(osInfo.distro || osInfo.family).find(
+      (manager) => manager.name === managerName,
+    );
+    if (!packageManager) {
+      log.error(`Package manager ${managerName} is not available on ${osInfo.distro || osInfo.family}`);
+      return EXIT_FAILURE;
+    }
+
+    if (cli.action === 'remove') {
+      if (packages.length === 0) return this.usageError(cli, 'Missing <package> to remove');
+      return packageCommand.removePackages(packages, packageManager) > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+    }
+
+    const toInstall =
+      packages.length > 0
+        ? packages
+        : packageCommand.handleStatuses(
+            packageCommand.readPackages(
+              dotsxPath.layers.map((layer) => layer.packagesManager),
+              packageManager,
+            ),
+            packageManager,
+          ).notInstalled;
+
+    if (toInstall.length === 0) {
+      log.success('All packages are already installed');
+      return EXIT_SUCCESS;
+    }
+
+    return packageCommand.installPackages(toInstall, packageManager) > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+  },
+
+  async runGit(cli: CliArgs, dotsxPath: DotsxOsPath): Promise<number> {
+    if (cli.action !== 'sync') {
+      return this.usageError(cli, `Unknown git action: ${cli.action ?? '(none)'}`);
+    }
+
+    const gitInfo = await GitLib.getRepositoryInfo(DOTSX_PATH);
+    if (!gitInfo.remoteUrl) {
+      log.error('No remote repository configured. Add a remote first.');
+      return EXIT_FAILURE;
+    }
+
+    const synced = await gitCommand.pushChanges(dotsxPath, gitInfo.currentBranch, cli.flags.message);
+    return synced ? EXIT_SUCCESS : EXIT_FAILURE;
+  },
+
+  async runDiscover(cli: CliArgs, dotsxPath: DotsxOsPath): Promise<number> {
+    if (cli.action) return this.usageError(cli, `Unknown discover action: ${cli.action}`);
+
+    await discoverCommand.execute(dotsxPath);
+    return EXIT_SUCCESS;
+  },
+
+  async runWatch(cli: CliArgs, dotsxPath: DotsxOsPath): Promise<number> {
+    if (cli.action) return this.usageError(cli, `Unknown watch action: ${cli.action}`);
+
+    await watchCommand.execute(dotsxPath, { repair: cli.flags.repair, commit: cli.flags.commit });
+    return EXIT_SUCCESS;
+  },
+
+  async runDoctor(cli: CliArgs, dotsxPath: DotsxOsPath): Promise<number> {
+    const issues = await doctorCommand.diagnose(dotsxPath);
+    await doctorCommand.showSummary(issues);
+
+    let remaining = issues;
+    if (cli.flags.fix) {
+      const failed = await doctorCommand.applyFixes(issues);
+      remaining = issues.filter((issue) => !issue.fixable || failed.includes(issue));
+    }
+
+    return remaining.some((issue) => issue.type === 'error') ? EXIT_FAILURE : EXIT_SUCCESS;
+  },
+
+  async runPlan(cli: CliArgs, osInfo: OsInfo, dotsxPath: DotsxOsPath): Promise<number> {
+    const planFile = path.resolve(cli.flags.file ?? DEFAULT_PLAN_FILE);
+    const plan = planCommand.build(osInfo, dotsxPath);
+
+    console.log(PlanLib.format(plan));
+    PlanLib.save(plan, planFile);
+    log.info(`Plan saved to ${planFile}, run: dotsx apply -f ${planFile}`);
+
+    return EXIT_SUCCESS;
+  },
+
+  async runApply(cli: CliArgs): Promise<number> {
+    const planFile = path.resolve(cli.flags.file ?? DEFAULT_PLAN_FILE);
+
+    let plan: Plan;
+    try {
+      plan = PlanLib.load(planFile);
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : String(error));
+      return EXIT_FAILURE;
+    }
+
+    const stalePaths = PlanLib.getStalePaths(plan);
+    if (stalePaths.length > 0) {
+      log.error(`Plan is stale, these paths changed since it was computed:\n${stalePaths.join('\n')}`);
+      log.info('💡 Run: dotsx plan');
+      return EXIT_FAILURE;
+    }
+
+    console.log(PlanLib.format(plan));
+    return planCommand.apply(plan) > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+  },
+};
@@ -0,0 +1,43 @@
+import path from 'node:path';
+import { spinner } from '@clack/prompts';
+import type { DotsxOsPath } from '@/lib/constants';
+import { type DiscoveredPath, DiscoverLib } from '@/lib/discover';
+import { FileLib } from '@/lib/file';
+import type { FoundPath } from '@/lib/suggestion';
+import { symlinkCommand } from './symlink';
+
+export const discoverCommand = {
+  async execute(dotsxOsPath: DotsxOsPath) {
+    const s = spinner();
+    s.start('Scanning ~ and ~/.config...');
+
+    const trackedPaths = symlinkCommand.getSymlinks(dotsxOsPath).map((link) => link.systemPath);
+    const discovered = DiscoverLib.discover(trackedPaths);
+    s.stop(`Found ${discovered.length} untracked config path(s)`);
+
+    if (discovered.length === 0) return;
+
+    await symlinkCommand.selectAndLinkPaths(
+      dotsxOsPath,
+      this.groupByDirectory(discovered),
+      'Select paths to add as symlinks, most config-like first:',
+    );
+  },
+
+  /**
+   * Group discovered paths by parent directory for the prompt, keeping their rank
+   * @example groupByDirectory([{ systemPath: '/home/user/.config/nvim', ... }]) // { '~/.config': [{ suggestedPath: '~/.config/nvim', ... }] }
+   */
+  groupByDirectory(discovered: DiscoveredPath[]): Record<string, FoundPath[]> {
+    const groups: Record<string, FoundPath[]> = {};
+
+    for (const found of discovered) {
+      const suggestedPath = FileLib.toPortablePath(found.systemPath);
+      const group = path.dirname(suggestedPath);
+      const hint = found.reasons.join(', ');
+      groups[group] = [...(groups[group] ?? []), { suggestedPath, type: found.type, ...(hint ? { hint } : {}) }];
+    }
+
+    return groups;
+  },
+};
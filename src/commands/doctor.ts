@@ -1,12 +1,18 @@
+import path from 'node:path';
 import { confirm, isCancel, log, outro } from '@clack/prompts';
-import type { DotsxOsPath } from '@/lib/constants';
+import { type DotsxOsPath, getDotsxPath } from '@/lib/constants';
 import { FileLib } from '@/lib/file';
 import { GitLib } from '@/lib/git';
+import { PlanLib } from '@/lib/plan';
+import { SecretLib } from '@/lib/secret';
+import { StateLib } from '@/lib/state';
 import { SymlinkLib } from '@/lib/symlink';
 import { SystemLib } from '@/lib/system';
+import { type TemplateContext, TemplateLib } from '@/lib/template';
+import { binCommand } from './bin';
 import { symlinkCommand } from './symlink';
 
-interface DoctorIssue {
+export interface DoctorIssue {
   type: 'error' | 'warning' | 'info';
   category: 'structure' | 'git' | 'symlinks' | 'bin';
   message: string;
@@ -16,17 +22,26 @@ interface DoctorIssue {
 
 export const doctorCommand = {
   async execute(dotsxPath: DotsxOsPath) {
+    const issues = await this.diagnose(dotsxPath);
+    await this.showSummary(issues);
+
+    if (issues.some((i) => i.fixable)) {
+      await this.proposeFixes(issues);
+    }
+  },
+
+  /**
+   * Run every check without prompting
+   */
+  async diagnose(dotsxPath: DotsxOsPath): Promise<DoctorIssue[]> {
     const issues: DoctorIssue[] = [];
 
     await this.checkStructure(issues, dotsxPath);
     await this.checkGit(issues, dotsxPath);
     await this.checkBin(issues, dotsxPath);
     await this.checkSymlinks(issues, dotsxPath);
-    await this.showSummary(issues);
 
-    if (issues.some((i) => i.fixable)) {
-      await this.proposeFixes(issues);
-    }
+    return issues;
   },
 
   async checkStructure(issues: DoctorIssue[], dotsxPath: DotsxOsPath) {
@@ -91,6 +106,8 @@ export const doctorCommand = {
       return;
     }
 
+    await this.checkIgnoredFiles(issues, dotsxPath);
+
     let gitStatus = 'Git repository initialized';
 
     const gitInfo = await GitLib.getRepositoryInfo(dotsxPath.baseOs);
@@ -169,6 +186,28 @@ export const doctorCommand = {
     log.message(gitStatus);
   },
 
+  /**
+   * Warn about committed files that `.dotsxignore` or link ignore patterns now match
+   */
+  async checkIgnoredFiles(issues: DoctorIssue[], dotsxPath: DotsxOsPath) {
+    const repoPath = getDotsxPath();
+    const ignoredFiles = symlinkCommand.getIgnoredFiles(dotsxPath, await GitLib.getTrackedFiles(repoPath));
+    if (ignoredFiles.length === 0) return;
+
+    log.message(`  ⚠️  ${ignoredFiles.length} ignored file(s) are committed`);
+    issues.push({
+      type: 'warning',
+      category: 'git',
+      message: `Ignored but committed: ${ignoredFiles.map((file) => FileLib.display(file)).join(', ')}`,
+      fixable: true,
+      fix: async () => {
+        // Only removed from the index, the files stay on disk
+        await GitLib.removeFromIndex(repoPath, ignoredFiles);
+        log.message(`  ✅ Untracked ${ignoredFiles.length} ignored file(s), commit with: dotsx git sync`);
+      },
+    });
+  },
+
   async checkBin(issues: DoctorIssue[], dotsxPath: DotsxOsPath) {
     log.step('🚀 BIN Scripts');
 
@@ -238,9 +277,7 @@ export const doctorCommand = {
       log.message('  ✅ Source written');
     }
 
-    const scripts = FileLib.Directory.read(dotsxPath.bin).filter(
-      (f) => f !== dotsxPath.binAliases && FileLib.isFile(`${dotsxPath.bin}/${f}`),
-    );
+    const scripts = binCommand.getScripts(dotsxPath);
 
     log.message(`  ✅ ${scripts.length} script(s) found`);
   },
@@ -248,32 +285,111 @@ export const doctorCommand = {
   async checkSymlinks(issues: DoctorIssue[], dotsxOsPath: DotsxOsPath) {
     log.info('🔗 Symlinks Status');
 
-    const links = symlinkCommand.getSymlinks(dotsxOsPath);
+    const links = symlinkCommand.getActiveSymlinks(dotsxOsPath);
+    const disabledGroups = StateLib.getDisabledGroups();
+    if (disabledGroups.length > 0) log.message(`  ⏸️  Skipped, disabled on this machine: ${disabledGroups.join(', ')}`);
+
+    // Content of a common link overridden by the OS layer is still tracked
+    const untrackedFiles = dotsxOsPath.layers.flatMap((layer) => {
+      const layerLinks = symlinkCommand.getLayerSymlinks(layer);
+      // Untracked templates are partials, only included by other templates
+      return FileLib.Directory.readFiles(layer.symlinks)
+        .map((file) => path.resolve(layer.symlinks, file))
+        .filter((file) => !layerLinks.some(({ dotsxPath }) => file === dotsxPath || file.startsWith(`${dotsxPath}/`)))
+        .filter((file) => !TemplateLib.isTemplate(file));
+    });
+
+    if (untrackedFiles.length > 0) {
+      log.message(`  ⚠️  ${untrackedFiles.length} file(s) in symlinks/ are not in the manifest`);
+      issues.push({
+        type: 'warning',
+        category: 'symlinks',
+        message: `Untracked content in symlinks/: ${untrackedFiles.map((file) => FileLib.display(file)).join(', ')}`,
+        fixable: false,
+      });
+    }
 
     if (links.length === 0) {
       log.message('  ⚠️  No symlinks configured');
       return;
     }
 
+    // Sync leaves the links of apps not installed as is, skipping them on this machine silences the warning
+    const uninstalled = Object.entries(symlinkCommand.groupLinks(links)).filter(
+      ([group]) => !symlinkCommand.isGroupInstalled(group),
+    );
+    for (const [group, groupLinks] of uninstalled) {
+      issues.push({
+        type: 'warning',
+        category: 'symlinks',
+        message: `App not installed: ${group} (${groupLinks.length} link(s)), skip it on this machine`,
+        fixable: true,
+        fix: async () => {
+          symlinkCommand.setGroupEnabled(dotsxOsPath, group, false);
+          log.success(`${group} disabled on this machine`);
+        },
+      });
+    }
+    const uninstalledPaths = uninstalled.flatMap(([, groupLinks]) => groupLinks.map((link) => link.systemPath));
+
     let correct = 0;
     let incorrect = 0;
+    const context = TemplateLib.getContext(dotsxOsPath.layers);
 
-    for (const { systemPath, dotsxPath } of links) {
-      const displayPath = FileLib.display(dotsxPath);
-      const isCorrect = SymlinkLib.isSymLinkContentCorrect(dotsxPath, systemPath);
+    for (const link of links) {
+      const { systemPath, dotsxPath, layer, mode } = link;
+      const displayPath = symlinkCommand.displayLink(link);
 
-      if (isCorrect) {
+      if (uninstalledPaths.includes(systemPath)) {
+        log.message(`  📭 ${displayPath} [${layer}] (app not installed)`);
+        continue;
+      }
+
+      if (mode === 'copy') {
+        const issue = this.checkCopy(systemPath, dotsxPath);
+        if (issue) {
+          incorrect++;
+          log.message(`  ❌ ${displayPath} [${layer}] (copy)`);
+          issues.push({ ...issue, message: `${issue.message} [${layer}]` });
+        } else {
+          correct++;
+          log.message(`  ✅ ${displayPath} [${layer}] (copy)`);
+        }
+        continue;
+      }
+
+      if (SecretLib.isSecret(dotsxPath) || TemplateLib.isTemplate(dotsxPath)) {
+        const issue = SecretLib.isSecret(dotsxPath)
+          ? this.checkSecret(systemPath, dotsxPath)
+          : this.checkTemplate(systemPath, dotsxPath, context);
+        if (issue) {
+          incorrect++;
+          log.message(`  ❌ ${displayPath} [${layer}]`);
+          issues.push({ ...issue, message: `${issue.message} [${layer}]` });
+        } else {
+          correct++;
+          log.message(`  ✅ ${displayPath} [${layer}]`);
+        }
+        continue;
+      }
+
+      const drift = SymlinkLib.getDrift(systemPath, dotsxPath, symlinkCommand.getIgnorePatterns(link));
+
+      if (drift === 'linked') {
         correct++;
+        log.message(`  ✅ ${displayPath} [${layer}]`);
       } else {
         incorrect++;
-        log.message(`  ❌ ${displayPath}`);
+        log.message(`  ❌ ${displayPath} [${layer}]`);
+        // Content on the system would be lost or moved, that choice is made in sync
+        const needsChoice = drift === 'changed' || drift === 'elsewhere';
         issues.push({
           type: 'error',
           category: 'symlinks',
-          message: `Broken symlink: ${displayPath}`,
-          fixable: true,
+          message: `Broken symlink: ${displayPath} (${symlinkCommand.formatDrift(systemPath, drift)})${needsChoice ? ', run: dotsx symlink sync' : ''} [${layer}]`,
+          fixable: !needsChoice,
           fix: async () => {
-            SymlinkLib.safeSymlink(systemPath, dotsxPath);
+            SymlinkLib.safeSymlink(systemPath, dotsxPath, 'dotsx');
           },
         });
       }
@@ -284,6 +400,141 @@ export const doctorCommand = {
     } else {
       log.message(`  ⚠️  ${correct}/${links.length} symlink(s) correct`);
     }
+
+    this.checkAttributes(issues, dotsxOsPath);
+  },
+
+  /**
+   * Report links whose mode or owner differs from the recorded one, e.g. `~/.ssh/config` reset to 644 by a clone
+   */
+  checkAttributes(issues: DoctorIssue[], dotsxOsPath: DotsxOsPath) {
+    for (const link of symlinkCommand.getActiveSymlinks(dotsxOsPath)) {
+      const steps = symlinkCommand.getAttributeSteps(link);
+      if (steps.length === 0) continue;
+
+      const expected = steps.map((step) => {
+        if (step.op === 'chmod') return `${FileLib.toPortablePath(step.path)} should be ${step.mode.toString(8)}`;
+        if (step.op === 'chown') return `${FileLib.toPortablePath(step.path)} should be owned by ${step.owner}`;
+        return PlanLib.formatStep(step);
+      });
+      log.message(`  ⚠️  ${FileLib.toPortablePath(link.systemPath)} has wrong permissions`);
+      issues.push({
+        type: 'warning',
+        category: 'symlinks',
+        message: `Wrong permissions: ${expected.join(', ')} [${link.layer}]`,
+        fixable: true,
+        fix: async () => {
+          PlanLib.runSteps(steps);
+        },
+      });
+    }
+  },
+
+  /**
+   * @returns The issue of a copy mode link whose copies differ, null if they are in sync
+   */
+  checkCopy(systemPath: string, dotsxPath: string): DoctorIssue | null {
+    const change = SymlinkLib.getCopyChange(systemPath, dotsxPath);
+    if (change === 'synced') return null;
+
+    const displayPath = FileLib.toPortablePath(systemPath);
+    if (change === 'both') {
+      return {
+        type: 'error',
+        category: 'symlinks',
+        message: `Copy changed on both sides: ${displayPath}, run: dotsx symlink sync`,
+        fixable: false,
+      };
+    }
+
+    return {
+      type: 'error',
+      category: 'symlinks',
+      message: `Copy out of sync: ${displayPath} (${change} changed)`,
+      fixable: true,
+      fix: async () => {
+        SymlinkLib.safeCopy(systemPath, dotsxPath);
+      },
+    };
+  },
+
+  /**
+   * @returns The issue of a template whose rendered file is not up to date, null if it is
+   */
+  checkTemplate(systemPath: string, templatePath: string, context: TemplateContext): DoctorIssue | null {
+    const displayPath = FileLib.display(templatePath);
+
+    let rendered: string;
+    try {
+      rendered = TemplateLib.render(templatePath, context);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : error;
+      return { type: 'error', category: 'symlinks', message: `Invalid template: ${reason}`, fixable: false };
+    }
+
+    const status = TemplateLib.getStatus(systemPath, rendered);
+    if (status === 'rendered') return null;
+
+    if (status === 'edited') {
+      // Re-rendering would drop the edits, they belong in the template
+      return {
+        type: 'warning',
+        category: 'symlinks',
+        message: `Rendered file edited by hand: ${FileLib.toPortablePath(systemPath)}, move the edits to ${displayPath}`,
+        fixable: false,
+      };
+    }
+
+    return {
+      type: 'error',
+      category: 'symlinks',
+      message: `Template not rendered: ${displayPath} (${status})`,
+      fixable: true,
+      fix: async () => {
+        PlanLib.executeSteps(TemplateLib.planRender(systemPath, rendered), `render ${systemPath}`);
+      },
+    };
+  },
+
+  /**
+   * @returns The issue of a secret whose decrypted file is not up to date, null if it is
+   */
+  checkSecret(systemPath: string, secretPath: string): DoctorIssue | null {
+    let decrypted: Buffer;
+    try {
+      decrypted = SecretLib.read(secretPath, SecretLib.requireKey());
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : error;
+      return {
+        type: 'error',
+        category: 'symlinks',
+        message: `Cannot decrypt ${FileLib.display(secretPath)}: ${reason}`,
+        fixable: false,
+      };
+    }
+
+    const status = TemplateLib.getStatus(systemPath, decrypted);
+    if (status === 'rendered') return null;
+
+    const displayPath = FileLib.toPortablePath(systemPath);
+    if (status === 'edited') {
+      return {
+        type: 'warning',
+        category: 'symlinks',
+        message: `Decrypted file edited by hand: ${displayPath}, run: dotsx secret add ${displayPath}`,
+        fixable: false,
+      };
+    }
+
+    return {
+      type: 'error',
+      category: 'symlinks',
+      message: `Secret not decrypted: ${displayPath} (${status})`,
+      fixable: true,
+      fix: async () => {
+        symlinkCommand.renderLink(systemPath, secretPath, decrypted);
+      },
+    };
   },
 
   async showSummary(issues: DoctorIssue[]) {
@@ -327,20 +578,28 @@ export const doctorCommand = {
       return;
     }
 
+    await this.applyFixes(fixableIssues);
+  },
+
+  /**
+   * Apply the fix of every fixable issue without prompting
+   * @returns Issues whose fix failed
+   */
+  async applyFixes(issues: DoctorIssue[]): Promise<DoctorIssue[]> {
     log.step('🔧 Applying fixes...');
 
     let fixed = 0;
-    let failed = 0;
+    const failed: DoctorIssue[] = [];
 
-    for (const issue of fixableIssues) {
-      if (issue.fix) {
+    for (const issue of issues) {
+      if (issue.fixable && issue.fix) {
         try {
           await issue.fix();
           fixed++;
         } catch (error) {
           log.error(`Failed to fix: ${issue.message}`);
           log.message(`  ${error instanceof Error ? error.message : 'Unknown error'}`);
-          failed++;
+          failed.push(issue);
         }
       }
     }
@@ -348,8 +607,10 @@ export const doctorCommand = {
     if (fixed > 0) {
       log.success(`Fixed ${fixed} issue(s)`);
     }
-    if (failed > 0) {
-      log.error(`Failed to fix ${failed} issue(s)`);
+    if (failed.length > 0) {
+      log.error(`Failed to fix ${failed.length} issue(s)`);
     }
+
+    return failed;
   },
 };
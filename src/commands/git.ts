@@ -1,6 +1,11 @@
+import path from 'node:path';
 import { confirm, isCancel, log, outro, select, spinner, text } from '@clack/prompts';
-import { DOTSX_PATH, type DotsxOsPath } from '@/lib/constants';
+import { DOTSX_PATH, type DotsxOsPath, resolveDotsxAllowPath } from '@/lib/constants';
+import { FileLib } from '@/lib/file';
 import { GitLib } from '@/lib/git';
+import { IgnoreLib } from '@/lib/ignore';
+import { type ScanFinding, ScanLib } from '@/lib/scan';
+import { secretCommand } from './secret';
 import { symlinkCommand } from './symlink';
 
 export const gitCommand = {
@@ -36,7 +41,7 @@ export const gitCommand = {
 
     switch (action) {
       case 'sync':
-        await this.gitSync();
+        await this.gitSync(dotsxOsPath);
         break;
       case 'pull':
         await this.gitPull(dotsxOsPath);
@@ -47,7 +52,7 @@ export const gitCommand = {
     }
   },
 
-  async gitSync() {
+  async gitSync(dotsxOsPath: DotsxOsPath) {
     const gitInfo = await GitLib.getRepositoryInfo(DOTSX_PATH);
 
     if (!gitInfo.remoteUrl) {
@@ -64,34 +69,145 @@ export const gitCommand = {
       return;
     }
 
+    await this.pushChanges(dotsxOsPath, gitInfo.currentBranch, undefined, true);
+  },
+
+  /**
+   * Add, commit and push every change, copy mode links are synced and attributes recorded first.
+   * The commit is refused while the staged changes look like they contain secrets.
+   * @param message - Commit message, defaults to a timestamped one
+   * @param interactive - Offer to untrack, encrypt or allow what the secret scan found, instead of only reporting it
+   * @returns true if the repository is in sync with the remote afterwards
+   */
+  async pushChanges(
+    dotsxOsPath: DotsxOsPath,
+    branch?: string,
+    message?: string,
+    interactive = false,
+  ): Promise<boolean> {
+    // Edits of copied files only reach dotsx through a sync
+    symlinkCommand.syncCopies(dotsxOsPath);
+    symlinkCommand.recordAttributes(dotsxOsPath);
+
     const s = spinner();
     s.start('Syncing with remote...');
 
     try {
       // 1. Add all changes
-      await GitLib.addAll(DOTSX_PATH);
+      await this.stageChanges(dotsxOsPath);
+
+      // 2. Scan what the commit would add, until every finding is resolved
+      let findings = await this.scanStaged();
+      while (findings.length > 0) {
+        s.stop('❌ Possible secrets in staged changes');
+        log.warn(ScanLib.format(findings));
+
+        if (!interactive || !(await this.resolveFindings(dotsxOsPath, findings))) {
+          log.info(
+            `💡 Untrack them, encrypt them with: dotsx secret add <path>, or allow them in ${FileLib.display(resolveDotsxAllowPath())}`,
+          );
+          return false;
+        }
+
+        s.start('Syncing with remote...');
+        await this.stageChanges(dotsxOsPath);
+        findings = await this.scanStaged();
+      }
 
-      // 2. Check if there are changes to commit
+      // 3. Check if there are changes to commit
       const hasChanges = await GitLib.hasUncommittedChanges(DOTSX_PATH);
       if (!hasChanges) {
         s.stop('No changes to sync');
         log.info('Repository is up to date');
-        return;
+        return true;
       }
 
-      // 3. Commit with timestamp
+      // 4. Commit with timestamp
       const timestamp = new Date().toISOString();
-      await GitLib.commit(DOTSX_PATH, `update dotsx [${timestamp}]`);
+      await GitLib.commit(DOTSX_PATH, message ?? `update dotsx [${timestamp}]`);
 
-      // 4. Push to remote
-      await GitLib.pushToRemote(DOTSX_PATH, gitInfo.currentBranch);
+      // 5. Push to remote
+      await GitLib.pushToRemote(DOTSX_PATH, branch);
 
       s.stop('✅ Synced successfully');
       log.success('Changes pushed to remote');
+      return true;
     } catch (error) {
       s.stop('❌ Sync failed');
       log.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  },
+
+  async stageChanges(dotsxOsPath: DotsxOsPath) {
+    GitLib.writeExcludes(DOTSX_PATH, symlinkCommand.getGitExcludes(dotsxOsPath, DOTSX_PATH));
+    // Decrypted secrets written through a symlinked directory stay out of the commit
+    await GitLib.addAll(DOTSX_PATH, symlinkCommand.getDecryptedPaths(dotsxOsPath, DOTSX_PATH));
+  },
+
+  async scanStaged(): Promise<ScanFinding[]> {
+    const diff = await GitLib.getStagedDiff(DOTSX_PATH);
+    return ScanLib.scanDiff(diff, IgnoreLib.readPatterns(resolveDotsxAllowPath()));
+  },
+
+  /**
+   * Ask what to do with each file the secret scan reported
+   * @returns false if a file was skipped, the commit must not go through
+   */
+  async resolveFindings(dotsxOsPath: DotsxOsPath, findings: ScanFinding[]): Promise<boolean> {
+    for (const file of [...new Set(findings.map((finding) => finding.file))]) {
+      const dotsxPath = path.resolve(DOTSX_PATH, file);
+      const link = symlinkCommand
+        .getSymlinks(dotsxOsPath)
+        .find((l) => dotsxPath === l.dotsxPath || dotsxPath.startsWith(`${l.dotsxPath}/`));
+      // Inside a copied directory, the plaintext would stay in dotsx next to its encrypted version
+      const canEncrypt = link && FileLib.isFile(dotsxPath) && (dotsxPath === link.dotsxPath || link.mode !== 'copy');
+
+      const action = await select({
+        message: `${file} may contain secrets`,
+        options: [
+          ...(link ? [{ value: 'untrack', label: '🚫 Untrack', hint: 'Keep it out of dotsx and git' }] : []),
+          ...(canEncrypt ? [{ value: 'encrypt', label: '🔐 Encrypt', hint: 'Commit it as a secret' }] : []),
+          {
+            value: 'allow',
+            label: '✅ Allow',
+            hint: `Not a secret, add it to ${path.basename(resolveDotsxAllowPath())}`,
+          },
+          { value: 'skip', label: '⏭️  Skip', hint: 'Cancel the sync' },
+        ],
+      });
+      if (isCancel(action) || action === 'skip') return false;
+
+      try {
+        if (action === 'allow') {
+          ScanLib.allow(
+            resolveDotsxAllowPath(),
+            findings.filter((finding) => finding.file === file),
+          );
+          continue;
+        }
+        if (!link) continue;
+
+        // A file inside a tracked directory is ignored there, a tracked file goes back to being a real file
+        const relPath = path.relative(link.dotsxPath, dotsxPath);
+        const systemPath = relPath ? path.join(link.systemPath, relPath) : link.systemPath;
+        const key = action === 'encrypt' ? await secretCommand.promptKey() : null;
+        if (action === 'encrypt' && !key) return false;
+
+        if (!relPath) symlinkCommand.unlinkPath(dotsxOsPath, systemPath, true);
+        else if (action === 'untrack') symlinkCommand.ignoreLink(dotsxOsPath, link.systemPath, [`/${relPath}`]);
+        if (key) {
+          const layer = dotsxOsPath.layers.find((l) => l.name === link.layer);
+          secretCommand.addSecret(dotsxOsPath, systemPath, key, layer);
+        }
+        if (FileLib.isExists(dotsxPath)) await GitLib.removeFromIndex(DOTSX_PATH, [file]);
+        log.success(`${FileLib.toPortablePath(systemPath)} ${action === 'encrypt' ? 'encrypted' : 'untracked'}`);
+      } catch (error) {
+        log.error(`${file}: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
     }
+    return true;
   },
 
   async gitPull(dotsxOsPath: DotsxOsPath) {
@@ -143,6 +259,7 @@ export const gitCommand = {
       } else {
         log.success('✅ All symlinks correct');
       }
+      symlinkCommand.restoreAttributes(dotsxOsPath);
 
       log.success('🎉 Pull complete');
     } catch (error) {
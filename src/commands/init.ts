@@ -1,13 +1,14 @@
 import path from 'node:path';
 import { confirm, groupMultiselect, isCancel, log, spinner } from '@clack/prompts';
+import { ConfigLib } from '@/lib/config';
 import type { DotsxOsPath } from '@/lib/constants';
 import { FileLib } from '@/lib/file';
 import { type FoundPath, SuggestionLib } from '@/lib/suggestion';
-import { SymlinkLib } from '@/lib/symlink';
 import { SystemLib } from '@/lib/system';
 import { getPackageManagerConfig } from '@/packages';
 import { binCommand } from './bin';
 import { gitCommand } from './git';
+import { symlinkCommand } from './symlink';
 
 export const initCommand = {
   async execute(dotsxPath: DotsxOsPath) {
@@ -16,13 +17,14 @@ export const initCommand = {
 
       log.info(`🖥️  Initializing on a ${osInfo.family} ${osInfo.distro} ${osInfo.release} system...`);
 
-      const availableSuggestions = SuggestionLib.getSuggestionsByOs(osInfo.family);
+      SuggestionLib.warnInvalidSuggestions();
+      const availableSuggestions = SuggestionLib.getSuggestionsByOs(osInfo.distro || osInfo.family);
       const existingPaths = SuggestionLib.getExistingSuggestedPaths(availableSuggestions, osInfo);
-
-      const options = SuggestionLib.buildGroupedOptions<FoundPath>(existingPaths, (path) => ({
-        suggestedPath: path.suggestedPath,
-        type: path.type,
-      }));
+      const options = SuggestionLib.buildGroupedOptions<FoundPath>(
+        existingPaths,
+        (path) => ({ suggestedPath: path.suggestedPath, type: path.type }),
+        SuggestionLib.getMissingSuggestions(osInfo, existingPaths),
+      );
 
       // Wait for the terminal to be ready, this is a workaround to avoid the prompt being canceled
       await new Promise((resolve) => setTimeout(resolve, 1));
@@ -37,7 +39,7 @@ export const initCommand = {
         });
 
         if (!isCancel(pathResult)) {
-          selectedPaths = pathResult;
+          selectedPaths = pathResult.filter((p) => p !== null);
         }
       }
 
@@ -69,13 +71,21 @@ export const initCommand = {
     s.start(`Creating ${dotsxPath.baseOs} directories and files...`);
     try {
       FileLib.Directory.create(dotsxPath.baseOs);
-      FileLib.File.create(dotsxPath.config);
+      ConfigLib.create(dotsxPath.config);
       FileLib.Directory.create(dotsxPath.bin);
       FileLib.File.create(dotsxPath.binAliases);
       FileLib.Directory.create(dotsxPath.packagesManager);
       FileLib.File.create(dotsxPath.packagesManagerConfig);
       FileLib.Directory.create(dotsxPath.symlinks);
 
+      // Shared layer, merged with the OS one on every machine
+      for (const layer of dotsxPath.layers.filter((l) => l.scope === 'common')) {
+        ConfigLib.create(layer.config);
+        FileLib.Directory.create(layer.bin);
+        FileLib.Directory.create(layer.packagesManager);
+        FileLib.Directory.create(layer.symlinks);
+      }
+
       s.stop(`${dotsxPath.baseOs} directories and files created successfully`);
     } catch (error) {
       s.stop(`Error creating ${dotsxPath.baseOs} directories and files: ${error}`);
@@ -91,11 +101,8 @@ export const initCommand = {
 
     let successCount = 0;
     for (const path of selectedPaths) {
-      const systemPath = FileLib.expand(path.suggestedPath);
-      const dotsxSymlinkPath = FileLib.toDotsxPath(systemPath, dotsxPath.symlinks);
-
       try {
-        SymlinkLib.safeSymlink(systemPath, dotsxSymlinkPath);
+        symlinkCommand.linkPath(dotsxPath, path.suggestedPath);
         s.message(`✓ ${path.suggestedPath}`);
         successCount++;
       } catch (error) {
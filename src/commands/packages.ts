@@ -3,11 +3,13 @@ import path from 'node:path';
 import { isCancel, log, multiselect, outro, select, spinner } from '@clack/prompts';
 import { ConsoleLib } from '@/lib/console';
 import { FileLib } from '@/lib/file';
+import type { PlanAction } from '@/lib/plan';
+import { StateLib } from '@/lib/state';
 import { getPackageManagerConfig, type PackageManager } from '@/packages';
 import type { KnownLinuxDistro, OsFamily } from '@/types';
 
 export const packageCommand = {
-  async execute(os: KnownLinuxDistro | OsFamily, packagesManagerPath: string) {
+  async execute(os: KnownLinuxDistro | OsFamily, packagesManagerPaths: string[]) {
     const packageManagerConfig = getPackageManagerConfig(os);
 
     const selectedManager = await select({
@@ -26,9 +28,7 @@ export const packageCommand = {
       return;
     }
 
-    const fullPath = path.resolve(packagesManagerPath, packageManager.fileList);
-
-    const packages = FileLib.File.readAsArray(fullPath);
+    const packages = this.readPackages(packagesManagerPaths, packageManager);
 
     const { installed, notInstalled } = this.handleStatuses(packages, packageManager);
 
@@ -72,8 +72,17 @@ export const packageCommand = {
       return;
     }
 
+    this.installPackages(selectedPackages, packageManager);
+  },
+
+  /**
+   * Install packages without prompting
+   * @returns Number of packages that failed to install
+   */
+  installPackages(packages: string[], packageManager: PackageManager): number {
     log.info('Installing packages...');
-    for (const pkg of selectedPackages) {
+    let failed = 0;
+    for (const pkg of packages) {
       const s = spinner({ indicator: 'timer' });
       s.start(`Installing ${pkg}...`);
       try {
@@ -81,8 +90,10 @@ export const packageCommand = {
         s.stop(`${pkg} installed`);
       } catch (error) {
         s.stop(`${pkg}: ${error}`);
+        failed++;
       }
     }
+    return failed;
   },
 
   async handleRemove(installed: string[], packageManager: PackageManager) {
@@ -101,8 +112,17 @@ export const packageCommand = {
       return;
     }
 
+    this.removePackages(selectedPackages, packageManager);
+  },
+
+  /**
+   * Remove packages without prompting
+   * @returns Number of packages that failed to be removed
+   */
+  removePackages(packages: string[], packageManager: PackageManager): number {
     log.info('Removing packages...');
-    for (const pkg of selectedPackages) {
+    let failed = 0;
+    for (const pkg of packages) {
       const s = spinner({ indicator: 'timer' });
       s.start(`Removing ${pkg}...`);
       try {
@@ -110,8 +130,69 @@ export const packageCommand = {
         s.stop(`${pkg} removed`);
       } catch (error) {
         s.stop(`${pkg}: ${error}`);
+        failed++;
+      }
+    }
+    return failed;
+  },
+
+  /**
+   * Read the package list of a package manager, merged from every layer's `packages/` directory
+   */
+  readPackages(packagesManagerPaths: string[], packageManager: PackageManager): string[] {
+    const lists = packagesManagerPaths
+      .map((packagesManagerPath) => path.resolve(packagesManagerPath, packageManager.fileList))
+      .filter((listPath) => FileLib.isFile(listPath))
+      .map((listPath) => FileLib.File.readAsArray(listPath));
+
+    return [...new Set(lists.flat())];
+  },
+
+  /**
+   * Compute the install commands of every listed package that is not installed, and the remove commands of
+   * the installed packages dropped from a list since the last `dotsx apply`, without running them.
+   * Packages installed by hand, never in an applied list, are left alone.
+   */
+  planPackages(os: KnownLinuxDistro | OsFamily, packagesManagerPaths: string[]): PlanAction[] {
+    const actions: PlanAction[] = [];
+
+    for (const packageManager of getPackageManagerConfig(os)) {
+      const packages = this.readPackages(packagesManagerPaths, packageManager);
+      const notInstalled = packages.filter((pkg) => !this.isPackageInstalled(pkg, packageManager));
+      const dropped = StateLib.getAppliedPackages(packageManager.name).filter(
+        (pkg) => !packages.includes(pkg) && this.isPackageInstalled(pkg, packageManager),
+      );
+
+      if (notInstalled.length > 0) {
+        actions.push({
+          category: 'packages',
+          title: `Install ${notInstalled.length} ${packageManager.name} package(s)`,
+          steps: notInstalled.map((pkg) => ({ op: 'exec', command: packageManager.install.replace('%s', pkg) })),
+        });
+      }
+      if (dropped.length > 0) {
+        actions.push({
+          category: 'packages',
+          title: `Remove ${dropped.length} ${packageManager.name} package(s) dropped from the list`,
+          steps: dropped.map((pkg) => ({ op: 'exec', command: packageManager.remove.replace('%s', pkg) })),
+        });
       }
     }
+
+    return actions;
+  },
+
+  /**
+   * Package lists of every package manager of an OS, recorded when a plan is applied
+   * @returns Packages by package manager name, e.g. { apt: ['git', 'curl'], snap: [] }
+   */
+  readLists(os: KnownLinuxDistro | OsFamily, packagesManagerPaths: string[]): Record<string, string[]> {
+    return Object.fromEntries(
+      getPackageManagerConfig(os).map((packageManager) => [
+        packageManager.name,
+        this.readPackages(packagesManagerPaths, packageManager),
+      ]),
+    );
   },
 
   handleStatuses(packages: string[], packageManager: PackageManager) {
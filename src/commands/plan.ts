@@ -0,0 +1,105 @@
+import { log } from '@clack/prompts';
+import { BackupLib } from '@/lib/backup';
+import type { DotsxOsPath } from '@/lib/constants';
+import { FileLib } from '@/lib/file';
+import { type Plan, type PlanAction, PlanLib } from '@/lib/plan';
+import { SecretLib } from '@/lib/secret';
+import { StateLib } from '@/lib/state';
+import { SymlinkLib } from '@/lib/symlink';
+import type { OsInfo } from '@/lib/system';
+import { TemplateLib } from '@/lib/template';
+import { binCommand } from './bin';
+import { packageCommand } from './packages';
+import { symlinkCommand } from './symlink';
+
+export const planCommand = {
+  /**
+   * Compute every action dotsx would run on this machine, without running any of them
+   */
+  build(osInfo: OsInfo, dotsxPath: DotsxOsPath): Plan {
+    const os = osInfo.distro || osInfo.family;
+    const packagesManagerPaths = dotsxPath.layers.map((layer) => layer.packagesManager);
+
+    return {
+      ...PlanLib.create(os, [
+        ...this.planSymlinks(dotsxPath),
+        ...binCommand.planSetup(dotsxPath),
+        ...packageCommand.planPackages(os, packagesManagerPaths),
+      ]),
+      packageLists: packageCommand.readLists(os, packagesManagerPaths),
+    };
+  },
+
+  planSymlinks(dotsxPath: DotsxOsPath): PlanAction[] {
+    const actions: PlanAction[] = [];
+    const context = TemplateLib.getContext(dotsxPath.layers);
+
+    for (const { systemPath, dotsxPath: linkPath, mode } of symlinkCommand.getInstalledSymlinks(dotsxPath)) {
+      try {
+        if (mode === 'copy') {
+          const steps = SymlinkLib.planCopy(systemPath, linkPath);
+          if (steps.length > 0) {
+            actions.push({ category: 'symlinks', title: `Copy ${FileLib.display(systemPath)}`, steps });
+          }
+          continue;
+        }
+
+        if (SecretLib.isSecret(linkPath)) {
+          // A plan file is plain text, decrypted content never goes in it
+          throw new Error('secrets are decrypted by: dotsx symlink sync');
+        }
+
+        if (TemplateLib.isTemplate(linkPath)) {
+          const steps = TemplateLib.planRender(systemPath, TemplateLib.render(linkPath, context));
+          if (steps.length > 0) {
+            actions.push({ category: 'symlinks', title: `Render ${FileLib.display(systemPath)}`, steps });
+          }
+          continue;
+        }
+
+        if (SymlinkLib.getConflict(systemPath, linkPath)) {
+          throw new Error('differs from its dotsx copy, run: dotsx symlink sync --keep system|dotsx');
+        }
+
+        const steps = SymlinkLib.planSymlink(systemPath, linkPath);
+        if (steps.length > 0) {
+          actions.push({ category: 'symlinks', title: `Link ${FileLib.display(systemPath)}`, steps });
+        }
+      } catch (error) {
+        log.warn(`Skipping ${FileLib.display(systemPath)}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return actions;
+  },
+
+  /**
+   * Execute a reviewed plan, action by action, then remember its package lists if every package action succeeded
+   * @returns Number of actions that failed
+   */
+  apply(plan: Plan): number {
+    let failed = 0;
+    let packagesFailed = false;
+
+    // One backup for the whole plan, taken before any action runs
+    const backup = BackupLib.snapshot(PlanLib.getOverwrittenPaths(plan.actions.flatMap((a) => a.steps)), 'apply');
+    if (backup) log.info(`Backup saved: ${backup.id}`);
+
+    for (const action of plan.actions) {
+      try {
+        PlanLib.runSteps(action.steps);
+        log.success(action.title);
+      } catch (error) {
+        log.error(`${action.title}: ${error instanceof Error ? error.message : error}`);
+        failed++;
+        if (action.category === 'packages') packagesFailed = true;
+      }
+    }
+
+    // A package that failed to install or remove is planned again next time
+    if (plan.packageLists && !packagesFailed) StateLib.setAppliedPackages(plan.packageLists);
+
+    log.info(`Applied ${plan.actions.length - failed}/${plan.actions.length} action(s)`);
+    return failed;
+  },
+};
@@ -0,0 +1,218 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { isCancel, log, outro, password, select, text } from '@clack/prompts';
+import { BackupLib } from '@/lib/backup';
+import { ConfigLib } from '@/lib/config';
+import { type DotsxLayerPath, type DotsxOsPath, resolveDotsxKeyPath } from '@/lib/constants';
+import { FileLib } from '@/lib/file';
+import { PermissionLib } from '@/lib/permission';
+import { PlanLib } from '@/lib/plan';
+import { type SecretKey, SecretLib } from '@/lib/secret';
+import { StateLib } from '@/lib/state';
+import { SystemLib } from '@/lib/system';
+import { symlinkCommand } from './symlink';
+
+export const secretCommand = {
+  async execute(dotsxOsPath: DotsxOsPath) {
+    const action = await select({
+      message: 'What do you want to do with secrets?',
+      options: [
+        { value: 'add', label: '🔐 Add secret', hint: 'Encrypted in dotsx, decrypted to the system path' },
+        { value: 'edit', label: '✏️  Edit secret', hint: 'Decrypted in $EDITOR, then encrypted again' },
+        { value: 'rotate', label: '🔄 Rotate key', hint: 'Encrypt every secret with a new key' },
+      ],
+    });
+
+    if (isCancel(action)) return;
+
+    const key = await this.promptKey();
+    if (!key) return;
+
+    try {
+      if (action === 'add') {
+        const pathInput = await text({
+          message: 'File to encrypt',
+          placeholder: 'eg. ~/.aws/credentials',
+          validate: (v) => (v && FileLib.isFile(FileLib.expand(String(v))) ? undefined : "File doesn't exist"),
+        });
+        if (isCancel(pathInput) || !pathInput) return;
+
+        const layer = await symlinkCommand.selectLayer(dotsxOsPath);
+        if (!layer) return;
+
+        log.success(FileLib.display(this.addSecret(dotsxOsPath, String(pathInput), key, layer)));
+      } else if (action === 'edit') {
+        const secrets = this.getSecrets(dotsxOsPath);
+        if (secrets.length === 0) {
+          log.info('No secrets yet');
+          return;
+        }
+
+        const systemPath = await select({
+          message: 'Which secret do you want to edit?',
+          options: secrets.map((link) => ({ value: link.systemPath, label: FileLib.toPortablePath(link.systemPath) })),
+        });
+        if (isCancel(systemPath)) return;
+
+        this.editSecret(dotsxOsPath, systemPath, key);
+      } else if (action === 'rotate' && key.source === 'passphrase') {
+        const passphrase = await this.promptPassphrase('New passphrase');
+        if (!passphrase) return;
+
+        const rotated = this.rotate(dotsxOsPath, key, { source: 'passphrase', secret: passphrase });
+        process.env.DOTSX_PASSPHRASE = passphrase;
+        outro(`✅ ${rotated} secret(s) encrypted with the new passphrase, set it as DOTSX_PASSPHRASE on every machine`);
+      } else if (action === 'rotate') {
+        const rotated = this.rotate(dotsxOsPath, key, SecretLib.generateKey());
+        outro(
+          `✅ ${rotated} secret(s) encrypted with a new keyfile, copy ${resolveDotsxKeyPath()} to your other machines`,
+        );
+      }
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : String(error));
+    }
+  },
+
+  /**
+   * The key of this machine, or a new one: a generated keyfile, or a passphrase kept for this session
+   * @returns null if cancelled
+   */
+  async promptKey(): Promise<SecretKey | null> {
+    const key = SecretLib.resolveKey();
+    if (key) return key;
+
+    const source = await select({
+      message: 'No secret key on this machine, which one do you want to use?',
+      options: [
+        { value: 'keyfile', label: '🔑 Keyfile', hint: `Generated at ${resolveDotsxKeyPath()}` },
+        { value: 'passphrase', label: '🔤 Passphrase', hint: 'Set DOTSX_PASSPHRASE for non-interactive use' },
+      ],
+    });
+    if (isCancel(source)) return null;
+
+    if (source === 'keyfile') {
+      const generated = SecretLib.generateKey();
+      SecretLib.saveKeyfile(generated);
+      log.warn(`Keyfile created, copy ${resolveDotsxKeyPath()} to your other machines, secrets are lost without it`);
+      return generated;
+    }
+
+    const passphrase = await this.promptPassphrase('Passphrase');
+    if (!passphrase) return null;
+
+    // Later decryptions of this session, like the sync after an edit, resolve it from there
+    process.env.DOTSX_PASSPHRASE = passphrase;
+    return { source: 'passphrase', secret: passphrase };
+  },
+
+  /**
+   * @returns null if cancelled
+   */
+  async promptPassphrase(message: string): Promise<string | null> {
+    const passphrase = await password({
+      message,
+      validate: (v) => (v && v.length >= 8 ? undefined : 'At least 8 characters'),
+    });
+    return isCancel(passphrase) ? null : passphrase;
+  },
+
+  /**
+   * Tracked secret links of every layer, overridden ones included since they are encrypted too
+   */
+  getSecrets(dotsxOsPath: DotsxOsPath) {
+    return dotsxOsPath.layers
+      .flatMap((layer) => symlinkCommand.getLayerSymlinks(layer))
+      .filter((link) => SecretLib.isSecret(link.dotsxPath));
+  },
+
+  /**
+   * Encrypt a system file into dotsx as a `*.dotsx.enc` secret, the file itself stays in place. Without prompting.
+   * Adding a tracked secret again encrypts its current system file.
+   * @param layer - Layer the secret is stored in, the OS layer by default
+   * @returns The encrypted file path
+   */
+  addSecret(dotsxOsPath: DotsxOsPath, inputPath: string, key: SecretKey, layer: DotsxLayerPath = dotsxOsPath): string {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    if (FileLib.isSymLink(systemPath) || !FileLib.isFile(systemPath)) {
+      throw new Error(`Only regular files can be secrets: ${inputPath}`);
+    }
+
+    const secretPath = SecretLib.toSecretPath(symlinkCommand.getDotsxPath(inputPath, layer));
+    SecretLib.write(secretPath, fs.readFileSync(systemPath), key);
+    // The system file is the first decryption of its secret
+    StateLib.setWritten(systemPath, PlanLib.getPathState(systemPath));
+
+    const options = { attributes: PermissionLib.record(systemPath) };
+    ConfigLib.upsertLink(layer.config, ConfigLib.toLinkEntry(inputPath, secretPath, layer.symlinks, options));
+    return secretPath;
+  },
+
+  /**
+   * Decrypt a secret to a private temporary file, open it in $EDITOR, then encrypt it again and update the system file
+   */
+  editSecret(dotsxOsPath: DotsxOsPath, inputPath: string, key: SecretKey) {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    const link = this.getSecrets(dotsxOsPath).find((l) => l.systemPath === systemPath);
+    if (!link) {
+      throw new Error(`Not a tracked secret: ${inputPath}`);
+    }
+
+    const plaintext = SecretLib.read(link.dotsxPath, key);
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dotsx-secret-'));
+    const tmpPath = path.join(tmpDir, path.basename(systemPath));
+
+    try {
+      fs.writeFileSync(tmpPath, plaintext, { mode: 0o600 });
+      const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+      SystemLib.openEditor(editor, [tmpPath]);
+
+      const edited = fs.readFileSync(tmpPath);
+      if (edited.equals(plaintext)) {
+        log.info('No changes');
+        return;
+      }
+
+      SecretLib.write(link.dotsxPath, edited, key);
+      // The edit is explicit, it replaces the system file even if it was changed by hand (backed up first)
+      symlinkCommand.renderLink(systemPath, link.dotsxPath, edited, 'dotsx');
+      log.success(`${FileLib.toPortablePath(systemPath)} encrypted and updated`);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  },
+
+  /**
+   * Encrypt every secret with a new key, all of them are decrypted before anything is written
+   * @param newKey - A new keyfile replaces the current one, which is backed up first. A new passphrase is left
+   * to the caller to set as DOTSX_PASSPHRASE
+   * @returns Number of secrets encrypted again
+   */
+  rotate(dotsxOsPath: DotsxOsPath, key: SecretKey, newKey: SecretKey): number {
+    // The passphrase wins over the keyfile, every secret would then fail to decrypt
+    if (newKey.source === 'keyfile' && process.env.DOTSX_PASSPHRASE) {
+      throw new Error(
+        'DOTSX_PASSPHRASE is set and would be used instead of the new keyfile, set DOTSX_NEW_PASSPHRASE to rotate to a new passphrase',
+      );
+    }
+    if (newKey.secret === key.secret) {
+      throw new Error(`The new ${newKey.source} is the current one`);
+    }
+
+    const decrypted = this.getSecrets(dotsxOsPath).map((link) => ({
+      secretPath: link.dotsxPath,
+      plaintext: SecretLib.read(link.dotsxPath, key),
+    }));
+
+    if (newKey.source === 'keyfile') {
+      const backup = BackupLib.snapshot([resolveDotsxKeyPath()], 'rotate secret key');
+      if (backup) log.info(`Previous keyfile saved: ${backup.id}`);
+      SecretLib.saveKeyfile(newKey, resolveDotsxKeyPath(), true);
+    }
+
+    for (const { secretPath, plaintext } of decrypted) {
+      SecretLib.write(secretPath, plaintext, newKey);
+    }
+    return decrypted.length;
+  },
+};
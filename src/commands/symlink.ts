@@ -1,19 +1,54 @@
-import { resolve } from 'node:path';
-import { confirm, groupMultiselect, isCancel, log, outro, select, text } from '@clack/prompts';
-import type { DotsxOsPath } from '@/lib/constants';
+import path, { dirname, resolve } from 'node:path';
+import { confirm, groupMultiselect, isCancel, log, multiselect, outro, select, text } from '@clack/prompts';
+import { ConfigLib, type LinkEntry, type LinkMode, type LinkOptions } from '@/lib/config';
+import { type DotsxLayerPath, type DotsxOsPath, resolveDotsxIgnorePath } from '@/lib/constants';
+import { DiffLib } from '@/lib/diff';
 import { FileLib } from '@/lib/file';
-import { SuggestionLib } from '@/lib/suggestion';
-import { SymlinkLib } from '@/lib/symlink';
+import { IgnoreLib } from '@/lib/ignore';
+import { type PathAttributes, PermissionLib } from '@/lib/permission';
+import { PlanLib, type PlanStep } from '@/lib/plan';
+import { SecretLib } from '@/lib/secret';
+import { StateLib } from '@/lib/state';
+import { type FoundPath, type MissingSuggestion, SuggestionLib } from '@/lib/suggestion';
+import { type ConflictSide, type LinkDrift, SymlinkLib } from '@/lib/symlink';
 import { SystemLib } from '@/lib/system';
+import { type TemplateContext, TemplateLib } from '@/lib/template';
+import type { KnownLinuxDistro, OsFamily } from '@/types';
 
-interface Link {
+export interface Link {
   systemPath: string;
   dotsxPath: string;
+  /** Version to keep if the system and dotsx copies differ */
+  keep?: ConflictSide;
+  /** Name of the layer the link comes from, e.g. 'common' */
+  layer?: string;
+  /** Content written to the system path, for templates and decrypted secrets only */
+  rendered?: string | Buffer;
+  /** Unset for symlinks */
+  mode?: LinkMode;
+  /** What replaced a broken symlink, set by checkStatus */
+  drift?: LinkDrift;
+  /** Gitignore-style patterns of this link only, on top of `.dotsxignore` */
+  ignore?: string[];
+  /** Recorded mode and ownership of the system path */
+  attributes?: PathAttributes;
+  /** Recorded attributes of files inside a tracked directory, by relative path */
+  fileAttributes?: Record<string, PathAttributes>;
+  /** The dotsx content is also linked to other system paths */
+  shared?: boolean;
 }
 
+const layerOptions: Record<DotsxLayerPath['scope'], { label: string; hint: string }> = {
+  common: { label: '🌍 common', hint: 'Shared by every OS' },
+  os: { label: '💻 this OS', hint: 'Overrides common' },
+  host: { label: '🏠 this machine', hint: 'Overrides this OS, matched on hostname' },
+};
+
 interface AllLinks {
   correctSymlinks: Array<Link>;
   incorrectSymlinks: Array<Link>;
+  /** Links of apps not installed on this machine, left as is instead of recreating their config */
+  uninstalledSymlinks: Array<Link>;
 }
 
 export const symlinkCommand = {
@@ -24,14 +59,69 @@ export const symlinkCommand = {
       message: 'What do you want to do with links?',
       options: [
         { value: 'add', label: '➕ Add new link' },
+        { value: 'template', label: '🧩 Add template', hint: 'Rendered per machine instead of symlinked' },
         { value: 'suggestions', label: '📍 Manage suggestions', hint: 'Add suggested paths (IDE, terminal, etc.)' },
         { value: 'sync', label: '🔄 Sync all links' },
+        { value: 'untrack', label: '↩️  Untrack links', hint: 'Restore real files in place of symlinks' },
+        { value: 'apps', label: '⏸️  Enable or disable apps', hint: 'On this machine only, nothing is removed' },
       ],
     });
 
     if (action === 'add') await this.addLink(dotsxOsPath);
+    else if (action === 'template') await this.addTemplate(dotsxOsPath);
     else if (action === 'suggestions') await this.manageSuggestions(dotsxOsPath);
-    else if (action === 'sync') await this.syncLinks(allLinks);
+    else if (action === 'sync') {
+      await this.syncLinks(allLinks);
+      await this.handleUninstalledApps(dotsxOsPath, allLinks.uninstalledSymlinks);
+      this.restoreAttributes(dotsxOsPath);
+    } else if (action === 'untrack') await this.untrackLinks(dotsxOsPath);
+    else if (action === 'apps') await this.manageGroups(dotsxOsPath);
+  },
+
+  /**
+   * Pick the apps whose links are managed on this machine
+   */
+  async manageGroups(dotsxOsPath: DotsxOsPath) {
+    const groups = Object.entries(this.groupLinks(this.getSymlinks(dotsxOsPath))).filter(
+      ([group]) => group !== 'other',
+    );
+    if (groups.length === 0) {
+      log.warn('No tracked links belong to a known app');
+      return;
+    }
+
+    const disabledGroups = StateLib.getDisabledGroups();
+    const enabled = await multiselect({
+      message: 'Apps managed on this machine:',
+      options: groups.map(([group, links]) => ({ value: group, label: group, hint: `${links.length} link(s)` })),
+      initialValues: groups.map(([group]) => group).filter((group) => !disabledGroups.includes(group)),
+      required: false,
+    });
+    if (isCancel(enabled)) return;
+
+    for (const [group] of groups) {
+      if (!enabled.includes(group) && !disabledGroups.includes(group)) {
+        this.setGroupEnabled(dotsxOsPath, group, false);
+        log.info(`${group} disabled on this machine`);
+      }
+    }
+
+    const reenabled = enabled.filter((group) => disabledGroups.includes(group));
+    if (reenabled.length > 0) await this.enableGroups(dotsxOsPath, reenabled);
+  },
+
+  /**
+   * Re-enable apps on this machine and relink every one of their links
+   * @returns Number of links left broken
+   */
+  async enableGroups(dotsxOsPath: DotsxOsPath, groups: string[], keep?: ConflictSide): Promise<number> {
+    const systemPaths = groups
+      .flatMap((group) => this.setGroupEnabled(dotsxOsPath, group, true))
+      .map((link) => link.systemPath);
+
+    const { incorrectSymlinks } = await this.checkStatus(dotsxOsPath);
+    const broken = incorrectSymlinks.filter((link) => systemPaths.includes(link.systemPath));
+    return broken.length - this.repairLinks(broken.map((link) => ({ ...link, keep })));
   },
 
   async addLink(dotsxOsPath: DotsxOsPath) {
@@ -43,14 +133,251 @@ export const symlinkCommand = {
 
     if (!pathInput) return;
 
+    const layer = await this.selectLayer(dotsxOsPath);
+    if (!layer) return;
+
     const systemPath = FileLib.expand(String(pathInput));
-    const dotsxPath = FileLib.toDotsxPath(systemPath, dotsxOsPath.symlinks);
+    const mode = FileLib.isDirectory(systemPath) ? 'symlink' : await this.selectMode();
+    if (!mode) return;
 
-    SymlinkLib.safeSymlink(systemPath, dotsxPath);
+    const keep = await this.resolveConflict(systemPath, FileLib.toDotsxPath(systemPath, layer.symlinks));
+    if (!keep) return;
+
+    this.linkPath(dotsxOsPath, systemPath, keep, layer, mode);
+  },
+
+  /**
+   * Ask whether a file is symlinked or kept as a real copy
+   */
+  async selectMode(): Promise<LinkMode | null> {
+    const mode = await select({
+      message: 'How do you want to keep it in sync?',
+      options: [
+        { value: 'symlink', label: '🔗 Symlink', hint: 'Recommended' },
+        {
+          value: 'copy',
+          label: '📄 Copy',
+          hint: 'For apps replacing their config atomically, e.g. VSCode settings.json',
+        },
+      ],
+    });
+
+    return isCancel(mode) ? null : (mode as LinkMode);
+  },
+
+  async addTemplate(dotsxOsPath: DotsxOsPath) {
+    const pathInput = await text({
+      message: 'File to turn into a template',
+      placeholder: 'eg. ~/.gitconfig',
+      validate: (v) => (v && FileLib.isFile(FileLib.expand(String(v))) ? undefined : "File doesn't exist"),
+    });
+
+    if (isCancel(pathInput) || !pathInput) return;
+
+    const layer = await this.selectLayer(dotsxOsPath);
+    if (!layer) return;
+
+    try {
+      const templatePath = this.templatePath(dotsxOsPath, String(pathInput), layer);
+      log.success(FileLib.display(templatePath));
+      log.info('Edit it with {{ variables }} and {{#if os == "linux"}} blocks, then run: dotsx symlink sync');
+    } catch (err) {
+      log.error(`${pathInput}: ${err}`);
+    }
+  },
+
+  /**
+   * Ask whether new content is shared by every OS, specific to this OS or to this machine
+   */
+  async selectLayer(dotsxOsPath: DotsxOsPath): Promise<DotsxLayerPath | null> {
+    const layerName = await select({
+      message: 'Where do you want to store it?',
+      options: dotsxOsPath.layers.map((layer) => ({ value: layer.name, ...layerOptions[layer.scope] })).reverse(),
+    });
+
+    if (isCancel(layerName)) return null;
+    return dotsxOsPath.layers.find((layer) => layer.name === layerName) ?? null;
+  },
+
+  /**
+   * Move a system path into dotsx and replace it with a symlink, without prompting
+   * @param keep - Version kept if a different dotsx copy already exists, throws if unset in that case
+   * @param layer - Layer the content is stored in, the OS layer by default
+   * @param mode - 'copy' keeps a real file on the system instead of a symlink
+   * @returns The dotsx path the content now lives at
+   */
+  linkPath(
+    dotsxOsPath: DotsxOsPath,
+    inputPath: string,
+    keep?: ConflictSide,
+    layer: DotsxLayerPath = dotsxOsPath,
+    mode: LinkMode = 'symlink',
+  ): string {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    if (!FileLib.isExists(systemPath)) {
+      throw new Error(`File doesn't exist: ${inputPath}`);
+    }
+
+    const dotsxPath = this.getDotsxPath(inputPath, layer);
+    // Read before linking, a symlink would report the attributes of the dotsx copy
+    const recorded = this.getAttributes(dotsxOsPath, systemPath);
+    if (mode === 'copy') SymlinkLib.safeCopy(systemPath, dotsxPath, keep);
+    else SymlinkLib.safeSymlink(systemPath, dotsxPath, keep, this.getIgnorePatterns());
+
+    const options = { ...(mode === 'copy' ? { mode } : {}), ...recorded };
+    ConfigLib.upsertLink(layer.config, ConfigLib.toLinkEntry(inputPath, dotsxPath, layer.symlinks, options));
+    // Directories moved into dotsx are created with the default mode, `~/.ssh` would lose its 700
+    PlanLib.runSteps(this.getAttributeSteps({ systemPath, dotsxPath, mode, ...recorded }));
+    return dotsxPath;
+  },
+
+  /**
+   * Copy a system file into dotsx as a `*.dotsx.tmpl` template rendered back to it, without prompting
+   * @param layer - Layer the template is stored in, the OS layer by default
+   * @returns The template path
+   */
+  templatePath(dotsxOsPath: DotsxOsPath, inputPath: string, layer: DotsxLayerPath = dotsxOsPath): string {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    if (FileLib.isSymLink(systemPath) || !FileLib.isFile(systemPath)) {
+      throw new Error(`Only regular files can be templates: ${inputPath}`);
+    }
+
+    const templatePath = TemplateLib.toTemplatePath(this.getDotsxPath(inputPath, layer));
+    if (FileLib.isExists(templatePath)) {
+      throw new Error(`Template already exists: ${FileLib.display(templatePath)}`);
+    }
+
+    FileLib.Directory.create(dirname(templatePath));
+    FileLib.File.copy(systemPath, templatePath);
+    // The system file is the first render of its template
+    StateLib.setWritten(systemPath, PlanLib.getPathState(systemPath));
+    const options = { attributes: PermissionLib.record(systemPath) };
+    ConfigLib.upsertLink(layer.config, ConfigLib.toLinkEntry(inputPath, templatePath, layer.symlinks, options));
+    return templatePath;
+  },
+
+  /**
+   * Where a path is stored in a layer, app paths under `__app__/<app>/` so every OS links the same file
+   * @example getDotsxPath('vscode:User/settings.json', common) // '~/.dotsx/common/symlinks/__app__/vscode/User/settings.json'
+   */
+  getDotsxPath(inputPath: string, layer: DotsxLayerPath): string {
+    if (SuggestionLib.isAppPath(inputPath)) return SuggestionLib.toAppDotsxPath(inputPath, layer.symlinks);
+    return FileLib.toDotsxPath(ConfigLib.expandSystemPath(inputPath), layer.symlinks);
+  },
+
+  /**
+   * Link one more system path to the dotsx content of a tracked link, without prompting
+   * @param keep - Version kept if the system path differs from the shared content, throws if unset in that case
+   * @returns The shared dotsx path
+   */
+  sharePath(dotsxOsPath: DotsxOsPath, sourcePath: string, inputPath: string, keep?: ConflictSide): string {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    const links = this.getSymlinks(dotsxOsPath);
+    const source = links.find((l) => l.systemPath === ConfigLib.expandSystemPath(sourcePath));
+    const layer = dotsxOsPath.layers.find((l) => l.name === source?.layer);
+    if (!source || !layer) {
+      throw new Error(`Not tracked by dotsx: ${sourcePath}`);
+    }
+    // Its own dotsx copy would be left behind, untracking first makes that choice explicit
+    if (links.some((l) => l.systemPath === systemPath)) {
+      throw new Error(`Already tracked by dotsx, untrack it first: ${inputPath}`);
+    }
+
+    const { dotsxPath } = source;
+    if (this.isRendered(dotsxPath)) {
+      const rendered = this.render(dotsxPath, TemplateLib.getContext(dotsxOsPath.layers));
+      this.renderLink(systemPath, dotsxPath, rendered, keep);
+    } else if (source.mode === 'copy') {
+      SymlinkLib.safeCopy(systemPath, dotsxPath, keep, source.attributes);
+    } else {
+      SymlinkLib.safeSymlink(systemPath, dotsxPath, keep, this.getIgnorePatterns(source));
+    }
+
+    ConfigLib.shareLink(layer.config, source.systemPath, inputPath);
+    return dotsxPath;
+  },
+
+  /**
+   * Replace a tracked symlink with a real copy of its content and drop it from the manifest, without prompting
+   * @param removeFromDotsx - Also delete the content from the dotsx repo, unless other system paths share it
+   * @returns The restored system path
+   */
+  unlinkPath(dotsxOsPath: DotsxOsPath, inputPath: string, removeFromDotsx = false): string {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    const link = this.getSymlinks(dotsxOsPath).find((l) => l.systemPath === systemPath);
+    if (!link) {
+      throw new Error(`Not tracked by dotsx: ${inputPath}`);
+    }
+    const removeContent = removeFromDotsx && !link.shared;
+    if (removeFromDotsx && link.shared) {
+      log.info(`${FileLib.display(link.dotsxPath)} is kept, other system paths still share it`);
+    }
+
+    // Rendered templates and copies already are real files, only the dotsx content may go
+    const isRealFile = this.isRendered(link.dotsxPath) || link.mode === 'copy';
+    const steps: PlanStep[] = isRealFile
+      ? []
+      : SymlinkLib.planUnlink(link.systemPath, link.dotsxPath, removeContent, link.attributes);
+    if (isRealFile && removeContent) steps.push({ op: 'remove', path: link.dotsxPath });
+    PlanLib.executeSteps(steps, `untrack ${systemPath}`);
+
+    // Drop it from every layer, otherwise an overridden common link would take over
+    for (const layer of dotsxOsPath.layers) {
+      ConfigLib.removeLink(layer.config, systemPath);
+    }
+    return systemPath;
+  },
+
+  async untrackLinks(dotsxOsPath: DotsxOsPath) {
+    const systemPaths = this.getSymlinks(dotsxOsPath).map((link) => link.systemPath);
+
+    if (systemPaths.length === 0) {
+      log.warn('No tracked links');
+      return;
+    }
+
+    const osInfo = SystemLib.getOsInfo();
+    const groups = SuggestionLib.groupBySuggestion(systemPaths, osInfo.distro || osInfo.family);
+    const options = Object.fromEntries(
+      Object.entries(groups).map(([name, paths]) => [
+        name,
+        paths.map((p) => ({ value: p, label: FileLib.toPortablePath(p) })),
+      ]),
+    );
+
+    const selectedPaths = await groupMultiselect({
+      message: 'Select links to untrack (select a group to untrack a whole suggestion):',
+      options,
+      required: false,
+    });
+
+    if (isCancel(selectedPaths) || selectedPaths.length === 0) {
+      return outro('👋 No links selected');
+    }
+
+    const removeFromDotsx = await confirm({
+      message: 'Also remove them from the dotsx repo?',
+      initialValue: false,
+    });
+    if (isCancel(removeFromDotsx)) return;
+
+    let untracked = 0;
+    for (const systemPath of selectedPaths) {
+      try {
+        this.unlinkPath(dotsxOsPath, systemPath, removeFromDotsx);
+        log.success(`Restored ${FileLib.toPortablePath(systemPath)}`);
+        untracked++;
+      } catch (err) {
+        log.error(`${FileLib.toPortablePath(systemPath)}: ${err}`);
+      }
+    }
+
+    outro(`✅ Untracked ${untracked}/${selectedPaths.length} link(s)`);
   },
 
   async manageSuggestions(dotsxOsPath: DotsxOsPath) {
     const osInfo = SystemLib.getOsInfo();
+    SuggestionLib.warnInvalidSuggestions();
     const existingPaths = SuggestionLib.getAllExistingPaths(osInfo);
 
     if (Object.keys(existingPaths).length === 0) {
@@ -70,36 +397,90 @@ export const symlinkCommand = {
       return;
     }
 
-    // Build options using helper
-    const options = SuggestionLib.buildGroupedOptions<string>(filteredPaths);
+    await this.selectAndLinkPaths(
+      dotsxOsPath,
+      filteredPaths,
+      `Select paths to add as symlinks (${alreadyConfigured} already configured):`,
+      SuggestionLib.getMissingSuggestions(osInfo, existingPaths),
+    );
+  },
+
+  /**
+   * Ask which of the grouped paths to track, then link each one, app paths to the common layer
+   * @param paths - Paths to offer, by group name
+   * @param missing - Suggestions not found on this system, shown greyed out after the paths
+   */
+  async selectAndLinkPaths(
+    dotsxOsPath: DotsxOsPath,
+    paths: Record<string, FoundPath[]>,
+    message: string,
+    missing: MissingSuggestion[] = [],
+  ) {
+    const osInfo = SystemLib.getOsInfo();
+    const options = SuggestionLib.buildGroupedOptions<string>(paths, undefined, missing);
 
     // Wait for terminal to be ready
     await new Promise((resolve) => setTimeout(resolve, 1));
 
-    const selectedPaths = await groupMultiselect({
-      message: `Select paths to add as symlinks (${alreadyConfigured} already configured):`,
-      options,
-      required: false,
-    });
+    const selected = await groupMultiselect({ message, options, required: false });
+    const selectedPaths = isCancel(selected) ? [] : selected.filter((p) => p !== null);
 
-    if (isCancel(selectedPaths) || selectedPaths.length === 0) {
+    if (selectedPaths.length === 0) {
       return outro('👋 No paths selected');
     }
 
     // Create symlinks for selected paths
+    let successCount = 0;
     for (const pathStr of selectedPaths) {
       const systemPath = FileLib.expand(String(pathStr));
-      const dotsxPath = FileLib.toDotsxPath(systemPath, dotsxOsPath.symlinks);
+      const shared = await this.selectSharedLink(dotsxOsPath, systemPath, osInfo.distro || osInfo.family);
+      if (shared === undefined) continue;
+
+      // Paths inside an app directory are stored once for every OS
+      const appPath = SuggestionLib.toAppPath(systemPath, osInfo.distro || osInfo.family);
+      const inputPath = appPath ?? systemPath;
+      const layer = (appPath && dotsxOsPath.layers.find((l) => l.scope === 'common')) || dotsxOsPath;
+
+      const dotsxPath = shared?.dotsxPath ?? this.getDotsxPath(inputPath, layer);
+      const keep = await this.resolveConflict(
+        systemPath,
+        dotsxPath,
+        shared ? this.getIgnorePatterns(shared) : undefined,
+      );
+      if (!keep) continue;
 
       try {
-        SymlinkLib.safeSymlink(systemPath, dotsxPath);
-        log.success(FileLib.display(dotsxPath));
+        const linkedPath = shared
+          ? this.sharePath(dotsxOsPath, shared.systemPath, inputPath, keep)
+          : this.linkPath(dotsxOsPath, inputPath, keep, layer);
+        log.success(FileLib.display(linkedPath));
+        successCount++;
       } catch (err) {
-        log.error(`${FileLib.display(dotsxPath)}: ${err}`);
+        log.error(`${pathStr}: ${err}`);
       }
     }
 
-    outro(`✅ Added ${selectedPaths.length} symlink(s)`);
+    outro(`✅ Added ${successCount}/${selectedPaths.length} symlink(s)`);
+  },
+
+  /**
+   * When the suggestion of a path shares its files with another one already tracked, ask whether to reuse that copy
+   * @returns The tracked link to share, null to store the path on its own, undefined if cancelled
+   */
+  async selectSharedLink(
+    dotsxOsPath: DotsxOsPath,
+    systemPath: string,
+    os: OsFamily | KnownLinuxDistro,
+  ): Promise<Link | null | undefined> {
+    const sharedPath = SuggestionLib.getSharedPath(systemPath, os);
+    const shared = this.getSymlinks(dotsxOsPath).find((link) => link.systemPath === sharedPath);
+    if (!shared) return null;
+
+    const share = await confirm({
+      message: `Share the dotsx copy of ${FileLib.toPortablePath(shared.systemPath)} with ${FileLib.toPortablePath(systemPath)}?`,
+    });
+    if (isCancel(share)) return undefined;
+    return share ? shared : null;
   },
 
   async syncLinks(links: AllLinks) {
@@ -111,45 +492,331 @@ export const symlinkCommand = {
     const proceed = await confirm({ message: '\nSync all broken links?' });
     if (!proceed) return;
 
+    const toRepair: Array<Link> = [];
+    for (const link of links.incorrectSymlinks) {
+      let keep: ConflictSide | null = 'system';
+      if (link.rendered !== undefined) {
+        keep = await this.resolveTemplateEdit(link.systemPath, link.rendered);
+      } else if (link.drift === 'missing' || link.drift === 'identical') {
+        // Nothing on the system would be lost, the symlink is put back without asking
+        keep = 'dotsx';
+      } else if (link.mode !== 'copy' || SymlinkLib.getCopyChange(link.systemPath, link.dotsxPath) === 'both') {
+        // A copy changed on one side only is synced in that direction without asking
+        keep = await this.resolveConflict(link.systemPath, link.dotsxPath, this.getIgnorePatterns(link));
+      }
+      if (keep) toRepair.push({ ...link, keep });
+    }
+
+    const fixed = this.repairLinks(toRepair);
+
+    outro(`Fixed ${fixed}/${links.incorrectSymlinks.length} links`);
+  },
+
+  /**
+   * When the system and dotsx copies differ, show the differences and ask which one to keep
+   * @param ignore - Patterns of directory files not compared, `.dotsxignore` by default
+   * @returns The version to keep ('system' without conflict), null if skipped
+   */
+  async resolveConflict(systemPath: string, dotsxPath: string, ignore?: string[]): Promise<ConflictSide | null> {
+    const systemContent = SymlinkLib.getConflict(systemPath, dotsxPath, ignore ?? this.getIgnorePatterns());
+    if (!systemContent) return 'system';
+
+    const isDirectory = FileLib.isDirectory(systemContent);
+    log.warn(`${FileLib.toPortablePath(systemPath)} differs from its dotsx copy`);
+    log.message(
+      isDirectory
+        ? DiffLib.formatDirectoryDiff(DiffLib.compareDirectories(dotsxPath, systemContent), 'dotsx', 'system')
+        : DiffLib.unified(dotsxPath, systemContent, `dotsx: ${FileLib.display(dotsxPath)}`, `system: ${systemContent}`),
+    );
+
+    const options = [
+      { value: 'system', label: '📥 Absorb system', hint: 'Overwrite the dotsx copy with the system one' },
+      {
+        value: 'dotsx',
+        label: '🗑️  Discard system',
+        hint: 'Put the dotsx copy back, the system one is backed up first',
+      },
+    ];
+    // Merging a directory has no single pair of files to open
+    if (!isDirectory) {
+      options.push({ value: 'merge', label: '✏️  Merge in $EDITOR', hint: 'Edit the dotsx copy, then keep it' });
+    }
+    options.push({ value: 'skip', label: '⏭️  Skip', hint: 'Leave both untouched' });
+
+    const choice = await select({ message: 'Which version do you want to keep?', options });
+
+    if (isCancel(choice) || choice === 'skip') return null;
+    if (choice !== 'merge') return choice as ConflictSide;
+
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    try {
+      SystemLib.openEditor(editor, [dotsxPath, systemContent]);
+      return 'dotsx';
+    } catch (error) {
+      log.error(`${error instanceof Error ? error.message : error}, nothing changed`);
+      return null;
+    }
+  },
+
+  /**
+   * When a rendered file was edited by hand, show the edits and ask whether to overwrite them
+   * @returns 'dotsx' to re-render ('system' without hand edits), null if skipped
+   */
+  async resolveTemplateEdit(systemPath: string, rendered: string | Buffer): Promise<ConflictSide | null> {
+    if (TemplateLib.getStatus(systemPath, rendered) !== 'edited') return 'system';
+
+    log.warn(`${FileLib.toPortablePath(systemPath)} was edited by hand since it was rendered`);
+    log.message(
+      DiffLib.unifiedContent(rendered.toString(), FileLib.File.read(systemPath), 'template', `system: ${systemPath}`),
+    );
+
+    const overwrite = await confirm({
+      message: 'Overwrite the hand edits with the rendered template? (they are backed up first)',
+      initialValue: false,
+    });
+
+    return overwrite === true ? 'dotsx' : null;
+  },
+
+  /**
+   * Dotsx path of a link, followed by its system path when several system paths share it
+   * @example displayLink(link) // '$XDG_CONFIG_HOME/Code/User/settings.json → ~/.config/Cursor/User/settings.json'
+   */
+  displayLink(link: Link): string {
+    const displayPath = FileLib.display(link.dotsxPath);
+    return link.shared ? `${displayPath} → ${FileLib.toPortablePath(link.systemPath)}` : displayPath;
+  },
+
+  /**
+   * @example formatDrift('/home/user/.zshrc', 'elsewhere') // 'points to ~/dotfiles/.zshrc'
+   */
+  formatDrift(systemPath: string, drift: LinkDrift): string {
+    switch (drift) {
+      case 'changed':
+        return 'replaced by a copy with other content';
+      case 'identical':
+        return 'replaced by an identical copy';
+      case 'elsewhere': {
+        const target = path.resolve(path.dirname(systemPath), SymlinkLib.getFileSymlinkPath(systemPath));
+        return `points to ${FileLib.toPortablePath(target)}`;
+      }
+      default:
+        return drift;
+    }
+  },
+
+  /**
+   * Recreate the given links without prompting
+   * @returns Number of links successfully fixed
+   */
+  repairLinks(links: Array<Link>): number {
     let fixed = 0;
-    for (const { systemPath, dotsxPath } of links.incorrectSymlinks) {
+    for (const link of links) {
+      const { systemPath, dotsxPath, keep, rendered, mode, attributes } = link;
       try {
-        SymlinkLib.safeSymlink(systemPath, dotsxPath);
-        log.success(FileLib.display(dotsxPath));
+        if (this.isRendered(dotsxPath)) this.renderLink(systemPath, dotsxPath, rendered, keep);
+        else if (mode === 'copy') SymlinkLib.safeCopy(systemPath, dotsxPath, keep, attributes);
+        else SymlinkLib.safeSymlink(systemPath, dotsxPath, keep, this.getIgnorePatterns(link));
+        log.success(this.displayLink(link));
         fixed++;
       } catch (err) {
-        log.error(`${FileLib.display(dotsxPath)}: ${err}`);
+        log.error(`${this.displayLink(link)}: ${err}`);
       }
     }
+    return fixed;
+  },
 
-    outro(`Fixed ${fixed}/${links.incorrectSymlinks.length} links`);
+  /**
+   * Templates and secrets are written to the system path instead of symlinked
+   */
+  isRendered(dotsxPath: string): boolean {
+    return TemplateLib.isTemplate(dotsxPath) || SecretLib.isSecret(dotsxPath);
   },
 
-  async checkStatus(dotsxOsPath: DotsxOsPath) {
-    const links = this.getSymlinks(dotsxOsPath);
+  /**
+   * Content a template or a secret writes to its system path
+   * @throws If the template is invalid, or the secret key is missing or wrong
+   */
+  render(dotsxPath: string, context: TemplateContext): string | Buffer {
+    if (SecretLib.isSecret(dotsxPath)) return SecretLib.read(dotsxPath, SecretLib.requireKey());
+    return TemplateLib.render(dotsxPath, context);
+  },
+
+  /**
+   * Write a rendered template or a decrypted secret to its system path
+   * @param keep - 'dotsx' overwrites hand edits made since the last render, throws on hand edits otherwise
+   */
+  renderLink(systemPath: string, templatePath: string, rendered?: string | Buffer, keep?: ConflictSide) {
+    if (rendered === undefined) {
+      throw new Error(`${FileLib.display(templatePath)} could not be rendered`);
+    }
+
+    // Decrypted secrets are never readable by other users, not even briefly
+    const mode = SecretLib.isSecret(templatePath) ? 0o600 : undefined;
+    const steps = TemplateLib.planRender(systemPath, rendered, keep === 'dotsx', mode);
+    const backup = PlanLib.executeSteps(steps, `render ${systemPath}`);
+    if (backup) log.info(`Backup saved: ${backup.id}`);
+  },
+
+  async checkStatus(dotsxOsPath: DotsxOsPath): Promise<AllLinks> {
+    const disabledGroups = StateLib.getDisabledGroups();
+    const groups = Object.entries(this.groupLinks(this.getSymlinks(dotsxOsPath)));
+    const links = groups.flatMap(([group, groupLinks]) => (disabledGroups.includes(group) ? [] : groupLinks));
 
     if (links.length === 0) {
-      return { correctSymlinks: [], incorrectSymlinks: [] };
+      return { correctSymlinks: [], incorrectSymlinks: [], uninstalledSymlinks: [] };
     }
 
-    const correctSymlinks = [];
-    const incorrectSymlinks = [];
+    const correctSymlinks: Array<Link> = [];
+    const incorrectSymlinks: Array<Link> = [];
+    const uninstalledSymlinks: Array<Link> = [];
+    const context = TemplateLib.getContext(dotsxOsPath.layers);
 
-    for (const { systemPath, dotsxPath } of links) {
-      const displayPath = FileLib.display(dotsxPath);
-      const isCorrect = SymlinkLib.isSymLinkContentCorrect(dotsxPath, systemPath);
-      if (isCorrect) {
-        correctSymlinks.push({ systemPath, dotsxPath });
-        log.message(`✅ ${displayPath}`);
-      } else {
-        incorrectSymlinks.push({ systemPath, dotsxPath });
-        log.message(`❌ ${displayPath}`);
+    for (const [group, groupLinks] of groups) {
+      if (disabledGroups.includes(group)) {
+        log.message(`⏸️  ${group}: ${groupLinks.length} link(s) disabled on this machine`);
+        continue;
+      }
+      log.step(group);
+
+      if (!this.isGroupInstalled(group)) {
+        uninstalledSymlinks.push(...groupLinks);
+        for (const link of groupLinks) log.message(`📭 ${this.displayLink(link)} (app not installed)`);
+        continue;
+      }
+
+      for (const link of groupLinks) {
+        const { systemPath, dotsxPath, mode } = link;
+        const displayPath = this.displayLink(link);
+
+        if (mode === 'copy') {
+          const change = SymlinkLib.getCopyChange(systemPath, dotsxPath);
+          if (change === 'synced') {
+            correctSymlinks.push(link);
+            log.message(`✅ ${displayPath} (copy)`);
+          } else {
+            incorrectSymlinks.push(link);
+            log.message(
+              `❌ ${displayPath} (copy, ${change === 'both' ? 'changed on both sides' : `${change} changed`})`,
+            );
+          }
+          continue;
+        }
+
+        if (this.isRendered(dotsxPath)) {
+          try {
+            const rendered = this.render(dotsxPath, context);
+            const status = TemplateLib.getStatus(systemPath, rendered);
+            if (status === 'rendered') {
+              correctSymlinks.push({ ...link, rendered });
+              log.message(`✅ ${displayPath}`);
+            } else {
+              incorrectSymlinks.push({ ...link, rendered });
+              log.message(`❌ ${displayPath} (${status})`);
+            }
+          } catch (err) {
+            incorrectSymlinks.push(link);
+            log.message(`❌ ${displayPath} (${err instanceof Error ? err.message : err})`);
+          }
+          continue;
+        }
+
+        const drift = SymlinkLib.getDrift(systemPath, dotsxPath, this.getIgnorePatterns(link));
+        if (drift === 'linked') {
+          correctSymlinks.push(link);
+          log.message(`✅ ${displayPath}`);
+        } else {
+          incorrectSymlinks.push({ ...link, drift });
+          log.message(`❌ ${displayPath} (${this.formatDrift(systemPath, drift)})`);
+        }
       }
     }
 
     log.info(`${correctSymlinks.length}/${links.length} links correct`);
 
-    return { correctSymlinks, incorrectSymlinks };
+    return { correctSymlinks, incorrectSymlinks, uninstalledSymlinks };
+  },
+
+  /**
+   * Whether the app a link group belongs to is installed, links of no known app always are
+   * @param group - Suggestion name, or 'other'
+   */
+  isGroupInstalled(group: string): boolean {
+    const suggestion = SuggestionLib.getSuggestions().find((s) => s.name === group);
+    return !suggestion || SuggestionLib.isInstalled(suggestion, SystemLib.getOsName());
+  },
+
+  /**
+   * Group the links of uninstalled apps not left as is yet, forgetting the choice for apps installed since
+   * @param links - Links of the apps not installed
+   */
+  getUnansweredGroups(links: Array<Link>): Record<string, Link[]> {
+    const groups = this.groupLinks(links);
+    const kept = StateLib.getKeptGroups();
+    const stillKept = kept.filter((group) => groups[group]);
+    if (stillKept.length !== kept.length) StateLib.setKeptGroups(stillKept);
+
+    return Object.fromEntries(Object.entries(groups).filter(([group]) => !stillKept.includes(group)));
+  },
+
+  /**
+   * For each app not installed, ask whether to skip its links on this machine, untrack them or leave them.
+   * Leaving them is remembered until the app is installed.
+   */
+  async handleUninstalledApps(dotsxOsPath: DotsxOsPath, links: Array<Link>) {
+    for (const [group, groupLinks] of Object.entries(this.getUnansweredGroups(links))) {
+      const action = await select({
+        message: `${group} is not installed, what about its ${groupLinks.length} link(s)?`,
+        options: [
+          { value: 'skip', label: '⏸️  Skip on this machine', hint: `Undo with: dotsx symlink enable ${group}` },
+          { value: 'untrack', label: '↩️  Untrack', hint: 'On every machine, real files are restored' },
+          { value: 'keep', label: '📭 Leave as is' },
+        ],
+      });
+      if (isCancel(action)) return;
+
+      if (action === 'skip') {
+        this.setGroupEnabled(dotsxOsPath, group, false);
+        log.info(`${group} disabled on this machine`);
+      } else if (action === 'untrack') {
+        for (const link of groupLinks) {
+          try {
+            log.success(`Untracked ${FileLib.toPortablePath(this.unlinkPath(dotsxOsPath, link.systemPath))}`);
+          } catch (err) {
+            log.error(`${FileLib.toPortablePath(link.systemPath)}: ${err}`);
+          }
+        }
+      } else {
+        StateLib.setKeptGroups([...StateLib.getKeptGroups(), group]);
+      }
+    }
+  },
+
+  /**
+   * Sync every copy mode link changed on one side only, without prompting
+   * @returns Number of copies synced
+   */
+  syncCopies(dotsxOsPath: DotsxOsPath): number {
+    let synced = 0;
+    for (const { systemPath, dotsxPath, mode, attributes } of this.getInstalledSymlinks(dotsxOsPath)) {
+      if (mode !== 'copy') continue;
+
+      try {
+        const change = SymlinkLib.getCopyChange(systemPath, dotsxPath);
+        if (change === 'synced') continue;
+        if (change === 'both') {
+          log.warn(`${FileLib.display(systemPath)} changed on both sides, run: dotsx symlink sync`);
+          continue;
+        }
+
+        SymlinkLib.safeCopy(systemPath, dotsxPath, undefined, attributes);
+        log.success(`${FileLib.display(systemPath)}: ${change} copy synced to the other side`);
+        synced++;
+      } catch (err) {
+        log.error(`${FileLib.display(systemPath)}: ${err}`);
+      }
+    }
+    return synced;
   },
 
   /**
@@ -170,11 +837,289 @@ export const symlinkCommand = {
   },
 
   /**
-   * Scan directory recursively to find ONLY symlinked files and directories
-   * @returns Array of absolute file paths
+   * Get every tracked link of the merged layers, a higher layer overrides a lower one for the same system path
+   * @returns Array of absolute paths
    */
   getSymlinks(dotsxOsPath: DotsxOsPath): Array<Link> {
-    if (!FileLib.isDirectory(dotsxOsPath.symlinks)) return [];
+    const links = new Map<string, Link>();
+    for (const layer of dotsxOsPath.layers) {
+      for (const link of this.getLayerSymlinks(layer)) {
+        links.set(link.systemPath, link);
+      }
+    }
+    return [...links.values()];
+  },
+
+  /**
+   * Tracked links minus those of the apps disabled on this machine, the ones sync, doctor and watch manage
+   */
+  getActiveSymlinks(dotsxOsPath: DotsxOsPath): Array<Link> {
+    const disabledGroups = StateLib.getDisabledGroups();
+    const links = this.getSymlinks(dotsxOsPath);
+    if (disabledGroups.length === 0) return links;
+
+    return Object.entries(this.groupLinks(links)).flatMap(([group, groupLinks]) =>
+      disabledGroups.includes(group) ? [] : groupLinks,
+    );
+  },
+
+  /**
+   * Active links of the apps installed on this machine, those plan, watch and copy sync keep in place
+   */
+  getInstalledSymlinks(dotsxOsPath: DotsxOsPath): Array<Link> {
+    return Object.entries(this.groupLinks(this.getActiveSymlinks(dotsxOsPath))).flatMap(([group, groupLinks]) =>
+      this.isGroupInstalled(group) ? groupLinks : [],
+    );
+  },
+
+  /**
+   * Group links by the app they belong to, reusing suggestion names, links of no app go to 'other'
+   * @example groupLinks(links) // { zsh: [{ systemPath: '/home/user/.zshrc', ... }], other: [...] }
+   */
+  groupLinks(links: Array<Link>): Record<string, Array<Link>> {
+    const groups = SuggestionLib.groupBySuggestion(
+      links.map((link) => link.systemPath),
+      SystemLib.getOsName(),
+    );
+    return Object.fromEntries(
+      Object.entries(groups).map(([group, systemPaths]) => [
+        group,
+        links.filter((link) => systemPaths.includes(link.systemPath)),
+      ]),
+    );
+  },
+
+  /**
+   * Disable or re-enable every link of an app on this machine, nothing is removed from dotsx
+   * @param group - Suggestion name, e.g. 'cursor'
+   * @returns The links of the app
+   */
+  setGroupEnabled(dotsxOsPath: DotsxOsPath, group: string, enabled: boolean): Array<Link> {
+    if (!SuggestionLib.getSuggestions().some((s) => s.name === group)) throw new Error(`Unknown app: ${group}`);
+
+    StateLib.setGroupDisabled(group, !enabled);
+    return this.groupLinks(this.getSymlinks(dotsxOsPath))[group] ?? [];
+  },
+
+  /**
+   * Get the links of a single layer from its `dotsx.config.json` manifest, migrating the manifest first if missing.
+   * Links matching `.dotsxignore` are left out.
+   */
+  getLayerSymlinks(layer: DotsxLayerPath): Array<Link> {
+    const entries = ConfigLib.read(layer.config).links ?? this.migrateManifest(layer);
+    const rules = IgnoreLib.parse(this.getIgnorePatterns());
+
+    return entries
+      .filter((entry) => !IgnoreLib.isIgnored(entry.dotsxPath, rules, entry.kind === 'directory'))
+      .flatMap((entry) => {
+        // A shared entry fans out to one link per system path, each checked and repaired on its own.
+        // App paths with no known location on this OS are left out.
+        const systemPaths = ConfigLib.getSystemPaths(entry).filter((p) => ConfigLib.isResolvable(p));
+        return systemPaths.map((systemPath) => ({
+          ...ConfigLib.resolveLinkEntry({ ...entry, systemPath }, layer.symlinks),
+          layer: layer.name,
+          ...(entry.options?.mode === 'copy' ? { mode: entry.options.mode } : {}),
+          ...(entry.options?.ignore?.length ? { ignore: entry.options.ignore } : {}),
+          ...(entry.options?.attributes ? { attributes: entry.options.attributes } : {}),
+          ...(entry.options?.fileAttributes ? { fileAttributes: entry.options.fileAttributes } : {}),
+          ...(systemPaths.length > 1 ? { shared: true } : {}),
+        }));
+      });
+  },
+
+  /**
+   * Attributes to record for a system path, read before linking since a symlink reports those of the dotsx copy
+   * @returns The current attributes, those already recorded if the path is linked
+   */
+  getAttributes(dotsxOsPath: DotsxOsPath, systemPath: string): Pick<LinkOptions, 'attributes' | 'fileAttributes'> {
+    if (FileLib.isSymLink(systemPath)) {
+      const link = this.getSymlinks(dotsxOsPath).find((l) => l.systemPath === systemPath);
+      return {
+        ...(link?.attributes ? { attributes: link.attributes } : {}),
+        ...(link?.fileAttributes ? { fileAttributes: link.fileAttributes } : {}),
+      };
+    }
+
+    const fileAttributes = FileLib.isDirectory(systemPath)
+      ? PermissionLib.recordTree(systemPath, this.getIgnoreFilter())
+      : {};
+    return {
+      attributes: PermissionLib.record(systemPath),
+      ...(Object.keys(fileAttributes).length > 0 ? { fileAttributes } : {}),
+    };
+  },
+
+  /**
+   * Record the attributes of links tracked without them, and of new files with a non-default mode in tracked
+   * directories. Recorded attributes are never overwritten, a fresh clone has wrong ones until they are restored.
+   * @returns Number of links updated
+   */
+  recordAttributes(dotsxOsPath: DotsxOsPath): number {
+    let updated = 0;
+    for (const link of this.getActiveSymlinks(dotsxOsPath)) {
+      const layer = dotsxOsPath.layers.find((l) => l.name === link.layer);
+      if (!layer || !FileLib.isExists(link.systemPath)) continue;
+
+      const recorded = link.fileAttributes ?? {};
+      const fileAttributes = FileLib.isDirectory(link.systemPath)
+        ? { ...PermissionLib.recordTree(link.systemPath, this.getIgnoreFilter(link)), ...recorded }
+        : recorded;
+      if (link.attributes && Object.keys(fileAttributes).length === Object.keys(recorded).length) continue;
+
+      ConfigLib.updateLinkOptions(layer.config, link.systemPath, {
+        attributes: link.attributes ?? PermissionLib.record(link.systemPath),
+        ...(Object.keys(fileAttributes).length > 0 ? { fileAttributes } : {}),
+      });
+      updated++;
+    }
+    return updated;
+  },
+
+  /**
+   * Steps giving a link in place its recorded attributes back, e.g. after a clone reset `~/.ssh/config` to 644
+   * @returns Steps to execute, empty if nothing differs or the link is not in place
+   */
+  getAttributeSteps(link: Link): PlanStep[] {
+    const { systemPath, dotsxPath, attributes, fileAttributes = {} } = link;
+    const isSymlink = link.mode !== 'copy' && !this.isRendered(dotsxPath);
+    if (isSymlink ? !SymlinkLib.isSymLinkContentCorrect(dotsxPath, systemPath) : !FileLib.isExists(systemPath)) {
+      return [];
+    }
+
+    // Through a symlink, a chown would give the dotsx copy away and it could not be committed anymore
+    const toRestore = (recorded: PathAttributes): PathAttributes => (isSymlink ? { mode: recorded.mode } : recorded);
+
+    return [
+      ...(attributes ? PermissionLib.planRestore(systemPath, toRestore(attributes)) : []),
+      ...Object.entries(fileAttributes)
+        .map(([relPath, recorded]) => [path.join(systemPath, relPath), recorded] as const)
+        .filter(([filePath]) => FileLib.isExists(filePath))
+        .flatMap(([filePath, recorded]) => PermissionLib.planRestore(filePath, toRestore(recorded))),
+    ];
+  },
+
+  /**
+   * Reapply the recorded attributes of every link in place, without prompting
+   * @returns Number of links fixed
+   */
+  restoreAttributes(dotsxOsPath: DotsxOsPath): number {
+    let restored = 0;
+    for (const link of this.getActiveSymlinks(dotsxOsPath)) {
+      try {
+        const steps = this.getAttributeSteps(link);
+        if (steps.length === 0) continue;
+
+        PlanLib.runSteps(steps);
+        log.success(`${FileLib.display(link.systemPath)}: permissions restored`);
+        restored++;
+      } catch (err) {
+        log.error(`${FileLib.display(link.systemPath)}: ${err}`);
+      }
+    }
+    return restored;
+  },
+
+  /**
+   * Ignore patterns of `.dotsxignore`, followed by those of the link if any
+   */
+  getIgnorePatterns(link?: Link): string[] {
+    return [...IgnoreLib.readPatterns(resolveDotsxIgnorePath()), ...(link?.ignore ?? [])];
+  },
+
+  /**
+   * Match paths relative to a tracked directory against its ignore patterns
+   */
+  getIgnoreFilter(link?: Link): (relPath: string, isDirectory: boolean) => boolean {
+    const rules = IgnoreLib.parse(this.getIgnorePatterns(link));
+    return (relPath, isDirectory) => IgnoreLib.isIgnored(relPath, rules, isDirectory);
+  },
+
+  /**
+   * Add ignore patterns to a tracked directory, in the manifest of the layer it comes from, without prompting
+   */
+  ignoreLink(dotsxOsPath: DotsxOsPath, inputPath: string, patterns: string[]) {
+    const systemPath = ConfigLib.expandSystemPath(inputPath);
+    const link = this.getSymlinks(dotsxOsPath).find((l) => l.systemPath === systemPath);
+    const layer = dotsxOsPath.layers.find((l) => l.name === link?.layer);
+    if (!link || !layer) {
+      throw new Error(`Not tracked by dotsx: ${inputPath}`);
+    }
+    if (!FileLib.isDirectory(link.dotsxPath)) {
+      throw new Error(`Only tracked directories have ignore patterns: ${inputPath}`);
+    }
+
+    const ignore = [...new Set([...(link.ignore ?? []), ...patterns])];
+    ConfigLib.updateLinkOptions(layer.config, systemPath, { ignore });
+  },
+
+  /**
+   * Files inside tracked directories matched by their ignore patterns
+   * @param files - Absolute paths, e.g. every file committed in the dotsx repo
+   */
+  getIgnoredFiles(dotsxOsPath: DotsxOsPath, files: string[]): string[] {
+    const directories = this.getSymlinks(dotsxOsPath)
+      .filter((link) => FileLib.isDirectory(link.dotsxPath))
+      .map((link) => ({ dir: link.dotsxPath, rules: IgnoreLib.parse(this.getIgnorePatterns(link)) }));
+
+    return files.filter((file) =>
+      directories.some(
+        ({ dir, rules }) => file.startsWith(`${dir}/`) && IgnoreLib.isIgnored(path.relative(dir, file), rules),
+      ),
+    );
+  },
+
+  /**
+   * Ignore patterns of every tracked directory, anchored to the repository root for `.git/info/exclude`
+   */
+  getGitExcludes(dotsxOsPath: DotsxOsPath, repoPath: string): string[] {
+    return [
+      ...this.getSymlinks(dotsxOsPath)
+        .filter((link) => FileLib.isDirectory(link.dotsxPath))
+        .flatMap((link) =>
+          IgnoreLib.toGitExcludes(this.getIgnorePatterns(link), `/${path.relative(repoPath, link.dotsxPath)}`),
+        ),
+      ...this.getDecryptedPaths(dotsxOsPath, repoPath).map((relPath) => `/${relPath}`),
+    ];
+  },
+
+  /**
+   * Decrypted secrets that land inside the repository, e.g. `~/.claude/settings.local.json` with `~/.claude` symlinked
+   * @returns Paths relative to the repository, never to be committed
+   */
+  getDecryptedPaths(dotsxOsPath: DotsxOsPath, repoPath: string): string[] {
+    const realRepoPath = FileLib.toRealPath(repoPath);
+
+    return this.getSymlinks(dotsxOsPath)
+      .filter((link) => SecretLib.isSecret(link.dotsxPath))
+      .map((link) => path.relative(realRepoPath, FileLib.toRealPath(link.systemPath)))
+      .filter((relPath) => !relPath.startsWith('..') && !path.isAbsolute(relPath));
+  },
+
+  /**
+   * One-time migration: build the manifest from the existing `symlinks/` tree
+   */
+  migrateManifest(layer: DotsxLayerPath): LinkEntry[] {
+    const entries = this.scanSymlinks(layer).map(({ systemPath, dotsxPath }) =>
+      ConfigLib.toLinkEntry(systemPath, dotsxPath, layer.symlinks),
+    );
+
+    if (FileLib.isDirectory(layer.baseOs)) {
+      ConfigLib.write(layer.config, { ...ConfigLib.read(layer.config), links: entries });
+      if (entries.length > 0) {
+        log.info(`Migrated ${entries.length} link(s) to ${FileLib.display(layer.config)}`);
+      }
+    }
+
+    return entries;
+  },
+
+  /**
+   * Scan directory recursively to guess symlinked files and directories from the tree layout.
+   * Only used to migrate trees created before the manifest existed.
+   * @returns Array of absolute file paths
+   */
+  scanSymlinks(layer: DotsxLayerPath): Array<Link> {
+    if (!FileLib.isDirectory(layer.symlinks)) return [];
 
     const scan = (dir: string, rel = ''): Array<Link> => {
       const results: Array<Link> = [];
@@ -183,12 +1128,17 @@ export const symlinkCommand = {
         const fullPath = resolve(dir, item);
         const relPath = rel ? `${rel}/${item}` : item;
 
+        const isToken = FileLib.ROOT_TOKENS.some((token) => relPath === token || relPath.startsWith(`${token}/`));
+        const systemPath = SecretLib.toDecryptedPath(
+          TemplateLib.toRenderedPath(isToken ? FileLib.expand(relPath) : `/${relPath}`),
+        );
+
         if (FileLib.isDirectory(fullPath)) {
-          const systemPath = FileLib.expand(relPath);
           const isSystemDirSymlink = FileLib.isSymLink(systemPath);
 
-          // Check if this should be a directory symlink
-          const shouldBeDirSymlink = isSystemDirSymlink || this.isDirSymlinkCandidate(fullPath);
+          // Check if this should be a directory symlink, the home and XDG roots are always containers
+          const shouldBeDirSymlink =
+            !FileLib.ROOT_TOKENS.includes(relPath) && (isSystemDirSymlink || this.isDirSymlinkCandidate(fullPath));
 
           if (shouldBeDirSymlink) {
             // Directory symlink - add it, don't recurse
@@ -199,16 +1149,13 @@ export const symlinkCommand = {
           }
         } else {
           // File symlink
-          results.push({
-            systemPath: FileLib.expand(relPath),
-            dotsxPath: fullPath,
-          });
+          results.push({ systemPath, dotsxPath: fullPath });
         }
       }
 
       return results;
     };
 
-    return scan(dotsxOsPath.symlinks);
+    return scan(layer.symlinks);
   },
 };
@@ -0,0 +1,218 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { log } from '@clack/prompts';
+import { DOTSX_PATH, type DotsxOsPath } from '@/lib/constants';
+import { FileLib } from '@/lib/file';
+import { GitLib } from '@/lib/git';
+import { ScanLib } from '@/lib/scan';
+import { SymlinkLib } from '@/lib/symlink';
+import { type TemplateContext, TemplateLib } from '@/lib/template';
+import { gitCommand } from './git';
+import { type Link, symlinkCommand } from './symlink';
+
+export interface WatchOptions {
+  /** Relink, re-render and sync what needs no choice, instead of only logging it */
+  repair: boolean;
+  /** Commit to the dotsx repository once nothing changed for COMMIT_DELAY_MS */
+  commit: boolean;
+}
+
+/** Editors write a file in several events, they are checked together once it settles */
+const DEBOUNCE_MS = 300;
+const COMMIT_DELAY_MS = 60_000;
+
+export const watchCommand = {
+  /**
+   * Watch until interrupted with Ctrl+C
+   */
+  async execute(dotsxOsPath: DotsxOsPath, options: WatchOptions) {
+    const stop = this.start(dotsxOsPath, options);
+    log.info(`Watching ${symlinkCommand.getInstalledSymlinks(dotsxOsPath).length} link(s), press Ctrl+C to stop`);
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => {
+        stop();
+        resolve();
+      });
+    });
+  },
+
+  /**
+   * Watch the parent directory of every tracked system path, as a replaced symlink is a new file,
+   * and the `symlinks/` tree of every layer, where files written in tracked directories land
+   * @returns Stops the watchers and pending timers
+   */
+  start(dotsxOsPath: DotsxOsPath, options: WatchOptions): () => void {
+    const known = this.listFiles(symlinkCommand.getInstalledSymlinks(dotsxOsPath));
+    const pending = new Set<string>();
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    let commitTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = () => {
+      const changedPaths = [...pending];
+      pending.clear();
+      this.check(dotsxOsPath, changedPaths, options, known);
+
+      if (options.commit) {
+        clearTimeout(commitTimer);
+        commitTimer = setTimeout(() => void this.commit(dotsxOsPath), COMMIT_DELAY_MS);
+      }
+    };
+
+    const watchers = this.getWatchedDirectories(dotsxOsPath).map(({ dir, recursive }) =>
+      fs.watch(dir, { recursive }, (_event, filename) => {
+        pending.add(filename ? path.join(dir, filename.toString()) : dir);
+        clearTimeout(debounce);
+        debounce = setTimeout(flush, DEBOUNCE_MS);
+      }),
+    );
+
+    return () => {
+      for (const watcher of watchers) watcher.close();
+      clearTimeout(debounce);
+      clearTimeout(commitTimer);
+    };
+  },
+
+  getWatchedDirectories(dotsxOsPath: DotsxOsPath): Array<{ dir: string; recursive: boolean }> {
+    const systemDirs = symlinkCommand.getInstalledSymlinks(dotsxOsPath).map((link) => path.dirname(link.systemPath));
+
+    return [
+      ...[...new Set(systemDirs)].map((dir) => ({ dir, recursive: false })),
+      ...dotsxOsPath.layers.map((layer) => ({ dir: layer.symlinks, recursive: true })),
+    ].filter(({ dir }) => FileLib.isDirectory(dir));
+  },
+
+  /**
+   * Files of every tracked directory, to tell new ones apart
+   * @returns Relative paths by dotsx directory path
+   */
+  listFiles(links: Link[]): Map<string, Set<string>> {
+    const files = new Map<string, Set<string>>();
+    for (const link of links) {
+      if (link.mode === 'copy' || !FileLib.isDirectory(link.dotsxPath)) continue;
+      files.set(link.dotsxPath, new Set(FileLib.Directory.readFiles(link.dotsxPath)));
+    }
+    return files;
+  },
+
+  /**
+   * Check the links touched by changed paths, reading the manifest again in case links were added meanwhile
+   * @param known - Files of tracked directories already reported, updated with the new ones
+   */
+  check(dotsxOsPath: DotsxOsPath, changedPaths: string[], options: WatchOptions, known: Map<string, Set<string>>) {
+    const context = TemplateLib.getContext(dotsxOsPath.layers);
+
+    for (const link of symlinkCommand.getInstalledSymlinks(dotsxOsPath)) {
+      const isTouched = changedPaths.some(
+        (p) => p === link.systemPath || p === link.dotsxPath || p.startsWith(`${link.dotsxPath}/`),
+      );
+      if (!isTouched) continue;
+
+      this.checkLink(link, options, context);
+      this.reportNewFiles(link, known);
+    }
+  },
+
+  /**
+   * Fix a drifted link if no content would be lost and repair is on, log it otherwise
+   */
+  checkLink(link: Link, options: WatchOptions, context: TemplateContext) {
+    const { systemPath, dotsxPath, attributes } = link;
+    const displayPath = FileLib.toPortablePath(systemPath);
+
+    try {
+      if (link.mode === 'copy') {
+        const change = SymlinkLib.getCopyChange(systemPath, dotsxPath);
+        if (change === 'synced') return;
+        if (change === 'both' || !options.repair) {
+          log.warn(`${displayPath}: ${change === 'both' ? 'copy changed on both sides' : `${change} copy changed`}`);
+          return;
+        }
+
+        SymlinkLib.safeCopy(systemPath, dotsxPath, undefined, attributes);
+        log.success(`${displayPath}: ${change} copy synced to the other side`);
+        return;
+      }
+
+      if (symlinkCommand.isRendered(dotsxPath)) {
+        const rendered = symlinkCommand.render(dotsxPath, context);
+        const status = TemplateLib.getStatus(systemPath, rendered);
+        if (status === 'rendered') return;
+        if (status === 'edited' || !options.repair) {
+          log.warn(`${displayPath}: ${status === 'edited' ? 'edited by hand' : status}`);
+          return;
+        }
+
+        symlinkCommand.renderLink(systemPath, dotsxPath, rendered);
+        log.success(`${displayPath}: rendered`);
+        return;
+      }
+
+      const drift = SymlinkLib.getDrift(systemPath, dotsxPath, symlinkCommand.getIgnorePatterns(link));
+      if (drift === 'linked') return;
+
+      // Content on the system would be lost or moved, that choice is made in sync
+      const needsChoice = drift === 'changed' || drift === 'elsewhere';
+      if (needsChoice || !options.repair) {
+        const hint = needsChoice ? ', run: dotsx symlink sync' : '';
+        log.warn(`${displayPath}: ${symlinkCommand.formatDrift(systemPath, drift)}${hint}`);
+        return;
+      }
+
+      SymlinkLib.safeSymlink(systemPath, dotsxPath, 'dotsx');
+      log.success(`${displayPath}: relinked`);
+    } catch (error) {
+      log.error(`${displayPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  },
+
+  /**
+   * Log files created in a tracked directory since the watch started, ignored ones aside
+   * @returns The new files, relative to the directory
+   */
+  reportNewFiles(link: Link, known: Map<string, Set<string>>): string[] {
+    if (link.mode === 'copy' || !FileLib.isDirectory(link.dotsxPath)) return [];
+
+    const files = known.get(link.dotsxPath);
+    // A directory tracked after the watch started has nothing to compare with yet
+    if (!files) {
+      known.set(link.dotsxPath, new Set(FileLib.Directory.readFiles(link.dotsxPath)));
+      return [];
+    }
+
+    const isIgnored = symlinkCommand.getIgnoreFilter(link);
+    const newFiles = FileLib.Directory.readFiles(link.dotsxPath).filter((file) => !files.has(file));
+    for (const file of newFiles) files.add(file);
+
+    const reported = newFiles.filter((file) => !isIgnored(file, false));
+    for (const file of reported) log.info(`New file in ${FileLib.toPortablePath(link.systemPath)}: ${file}`);
+    return reported;
+  },
+
+  /**
+   * Commit every change locally, with the same secret scan as git sync. Pushing is left to `dotsx git sync`.
+   * @returns true if a commit was made
+   */
+  async commit(dotsxOsPath: DotsxOsPath): Promise<boolean> {
+    try {
+      symlinkCommand.recordAttributes(dotsxOsPath);
+      await gitCommand.stageChanges(dotsxOsPath);
+
+      const findings = await gitCommand.scanStaged();
+      if (findings.length > 0) {
+        log.warn(`Not committed, possible secrets in staged changes:\n${ScanLib.format(findings)}`);
+        return false;
+      }
+
+      if (!(await GitLib.hasUncommittedChanges(DOTSX_PATH))) return false;
+
+      await GitLib.commit(DOTSX_PATH, `dotsx watch [${new Date().toISOString()}]`);
+      log.success('Changes committed, push them with: dotsx git sync');
+      return true;
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  },
+};
@@ -1,11 +1,15 @@
 import path from 'node:path';
 import { intro, isCancel, outro, select } from '@clack/prompts';
+import { backupCommand } from './commands/backup';
 import { binCommand } from './commands/bin';
+import { cliCommand } from './commands/cli';
+import { discoverCommand } from './commands/discover';
 import { doctorCommand } from './commands/doctor';
 import { gitCommand } from './commands/git';
 import { gitCloneCommand } from './commands/git-clone';
 import { initCommand } from './commands/init';
 import { packageCommand } from './commands/packages';
+import { secretCommand } from './commands/secret';
 import { symlinkCommand } from './commands/symlink';
 import { ConsoleLib } from './lib/console';
 import { resolveDotsxOsPath } from './lib/constants';
@@ -13,10 +17,17 @@ import { FileLib } from './lib/file';
 import { SystemLib } from './lib/system';
 
 async function main() {
+  const osInfo = SystemLib.getOsInfo();
+  const dotsxPath = resolveDotsxOsPath(osInfo.distro || osInfo.family, SystemLib.getHostname());
+
+  const argv = process.argv.slice(2);
+  if (argv.length > 0) {
+    process.exitCode = await cliCommand.execute(argv, osInfo, dotsxPath);
+    return;
+  }
+
   intro('🚀 dotsx');
 
-  const osInfo = SystemLib.getOsInfo();
-  const dotsxPath = resolveDotsxOsPath(osInfo.distro || osInfo.family);
   const isInitialized = FileLib.isExists(dotsxPath.baseOs);
 
   await ConsoleLib.printSystemInfo();
@@ -45,10 +56,13 @@ async function main() {
       message: 'Welcome!',
       options: [
         { value: 'symlink', label: '📋 Symlinks', hint: 'Create symlinks for files and directories' },
+        { value: 'discover', label: '🔎 Discover', hint: 'Find untracked dotfiles in ~ and ~/.config' },
         { value: 'git', label: '🔧 Git', hint: 'Manage Git repository and synchronization' },
         { value: 'doctor', label: '🩺 Doctor', hint: 'Run full diagnostics and show all configurations' },
         { value: 'bin', label: "🚀 Bin's scripts", hint: 'Manage bin scripts and aliases' },
         { value: 'pkg', label: `📦 ${path.basename(dotsxPath.baseOs)} packages`, hint: 'Install, remove packages' },
+        { value: 'secret', label: '🔐 Secrets', hint: 'Encrypt files like tokens and keys in dotsx' },
+        { value: 'backup', label: '🗄️  Backups', hint: 'Restore files overwritten by dotsx' },
       ],
     });
 
@@ -58,10 +72,18 @@ async function main() {
 
     if (action === 'doctor') await doctorCommand.execute(dotsxPath);
     else if (action === 'symlink') await symlinkCommand.execute(dotsxPath);
+    else if (action === 'discover') await discoverCommand.execute(dotsxPath);
     else if (action === 'bin') await binCommand.execute(dotsxPath);
-    else if (action === 'pkg') await packageCommand.execute(osInfo.distro || osInfo.family, dotsxPath.packagesManager);
-    else if (action === 'git') await gitCommand.execute(dotsxPath);
+    else if (action === 'pkg') {
+      const packagesManagerPaths = dotsxPath.layers.map((layer) => layer.packagesManager);
+      await packageCommand.execute(osInfo.distro || osInfo.family, packagesManagerPaths);
+    } else if (action === 'git') await gitCommand.execute(dotsxPath);
+    else if (action === 'secret') await secretCommand.execute(dotsxPath);
+    else if (action === 'backup') await backupCommand.execute();
   }
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
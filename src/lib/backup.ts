@@ -0,0 +1,139 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { resolveDotsxBackupPath } from './constants';
+import { FileLib } from './file';
+import type { PlanStep } from './plan';
+import { SudoLib } from './sudo';
+
+/**
+ * A path saved in a snapshot
+ * @example { originalPath: '/home/user/.zshrc', backupPath: 'files/home/user/.zshrc', type: 'file' }
+ */
+export interface BackupEntry {
+  originalPath: string;
+  /** Path relative to the snapshot directory, unset for symlinks */
+  backupPath?: string;
+  type: 'file' | 'directory' | 'symlink';
+  /** Symlink target, for symlinks only */
+  target?: string;
+}
+
+export interface BackupSnapshot {
+  /** Timestamp based directory name, e.g. '2025-01-31T10-20-30-000Z' */
+  id: string;
+  createdAt: string;
+  reason: string;
+  entries: BackupEntry[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+export namespace BackupLib {
+  /**
+   * Copy every existing path into a new `~/.dotsx-backups/<timestamp>/` snapshot, with a manifest
+   * @param reason - What was about to overwrite the paths
+   * @returns The snapshot, or null if none of the paths exist
+   */
+  export function snapshot(paths: string[], reason: string): BackupSnapshot | null {
+    const { backup, steps } = planSnapshot(paths, reason);
+    SudoLib.run(steps);
+    return backup;
+  }
+
+  /**
+   * Like snapshot, but paths the current user cannot read, e.g. `/etc/sudoers`, are left as copy steps
+   * to run as root, in the same sudo session as the steps overwriting them
+   */
+  export function planSnapshot(paths: string[], reason: string): { backup: BackupSnapshot | null; steps: PlanStep[] } {
+    const existingPaths = [...new Set(paths)].filter((p) => lstat(p));
+    if (existingPaths.length === 0) return { backup: null, steps: [] };
+
+    const createdAt = new Date().toISOString();
+    const id = getAvailableId(createdAt.replace(/[:.]/g, '-'));
+    const snapshotDir = path.resolve(resolveDotsxBackupPath(), id);
+    const steps: PlanStep[] = [];
+
+    const entries = existingPaths.map((originalPath): BackupEntry => {
+      const stats = lstat(originalPath) as fs.Stats;
+
+      if (stats.isSymbolicLink()) {
+        return { originalPath, type: 'symlink', target: fs.readlinkSync(originalPath) };
+      }
+
+      const backupPath = path.join('files', originalPath);
+      FileLib.Directory.create(path.dirname(path.resolve(snapshotDir, backupPath)));
+      if (SudoLib.canRead(originalPath)) {
+        // verbatimSymlinks keeps nested symlinks as symlinks instead of copying their targets
+        fs.cpSync(originalPath, path.resolve(snapshotDir, backupPath), { recursive: true, verbatimSymlinks: true });
+      } else {
+        steps.push({ op: 'copy', from: originalPath, to: path.resolve(snapshotDir, backupPath) });
+      }
+
+      return { originalPath, backupPath, type: stats.isDirectory() ? 'directory' : 'file' };
+    });
+
+    const backup: BackupSnapshot = { id, createdAt, reason, entries };
+    FileLib.Directory.create(snapshotDir);
+    fs.writeFileSync(path.resolve(snapshotDir, MANIFEST_FILE), `${JSON.stringify(backup, null, 2)}\n`);
+
+    return { backup, steps };
+  }
+
+  /**
+   * @returns Every snapshot, newest first
+   */
+  export function list(): BackupSnapshot[] {
+    const root = resolveDotsxBackupPath();
+
+    return FileLib.Directory.read(root)
+      .map((id) => path.resolve(root, id, MANIFEST_FILE))
+      .filter((manifestPath) => FileLib.isFile(manifestPath))
+      .map((manifestPath) => JSON.parse(FileLib.File.read(manifestPath)) as BackupSnapshot)
+      .sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  export function find(id: string): BackupSnapshot {
+    const backup = list().find((snapshot) => snapshot.id === id);
+    if (!backup) {
+      throw new Error(`Backup not found: ${id}`);
+    }
+    return backup;
+  }
+
+  /**
+   * Compute the steps putting every path of a snapshot back in place
+   */
+  export function planRestore(backup: BackupSnapshot): PlanStep[] {
+    const snapshotDir = path.resolve(resolveDotsxBackupPath(), backup.id);
+    const steps: PlanStep[] = [];
+
+    for (const entry of backup.entries) {
+      if (lstat(entry.originalPath)) steps.push({ op: 'remove', path: entry.originalPath });
+
+      if (entry.type === 'symlink' && entry.target) {
+        steps.push({ op: 'symlink', target: entry.target, path: entry.originalPath });
+      } else if (entry.backupPath) {
+        steps.push({ op: 'copy', from: path.resolve(snapshotDir, entry.backupPath), to: entry.originalPath });
+      }
+    }
+
+    return steps;
+  }
+
+  function getAvailableId(baseId: string): string {
+    let id = baseId;
+    for (let i = 1; FileLib.isExists(path.resolve(resolveDotsxBackupPath(), id)); i++) {
+      id = `${baseId}-${i}`;
+    }
+    return id;
+  }
+
+  /** lstat that also sees broken symlinks, undefined if nothing is there */
+  function lstat(p: string): fs.Stats | undefined {
+    try {
+      return fs.lstatSync(p);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { parseArgs } from 'node:util';
+
+export interface CliFlags {
+  help: boolean;
+  fix: boolean;
+  message?: string;
+  file?: string;
+  remove: boolean;
+  suggestion?: string;
+  keep?: string;
+  common: boolean;
+  host: boolean;
+  template: boolean;
+  copy: boolean;
+  repair: boolean;
+  commit: boolean;
+}
+
+export interface CliArgs {
+  command?: string;
+  action?: string;
+  args: string[];
+  flags: CliFlags;
+}
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export namespace CliLib {
+  /**
+   * Parse raw argv (without the node/bun executable and script path)
+   * @example parse(['git', 'sync', '-m', 'msg']) // { command: 'git', action: 'sync', args: [], flags: { message: 'msg', ... } }
+   */
+  export function parse(argv: string[]): CliArgs {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        help: { type: 'boolean', short: 'h' },
+        fix: { type: 'boolean' },
+        message: { type: 'string', short: 'm' },
+        file: { type: 'string', short: 'f' },
+        remove: { type: 'boolean' },
+        suggestion: { type: 'string', short: 's' },
+        keep: { type: 'string' },
+        common: { type: 'boolean' },
+        host: { type: 'boolean' },
+        template: { type: 'boolean' },
+        copy: { type: 'boolean' },
+        repair: { type: 'boolean' },
+        commit: { type: 'boolean' },
+      },
+    });
+
+    const [command, action, ...args] = positionals;
+
+    return {
+      command,
+      action,
+      args,
+      flags: {
+        help: values.help ?? false,
+        fix: values.fix ?? false,
+        message: values.message,
+        file: values.file,
+        remove: values.remove ?? false,
+        suggestion: values.suggestion,
+        keep: values.keep,
+        common: values.common ?? false,
+        host: values.host ?? false,
+        template: values.template ?? false,
+        copy: values.copy ?? false,
+        repair: values.repair ?? false,
+        commit: values.commit ?? false,
+      },
+    };
+  }
+
+  /**
+   * Format a usage block, one aligned line per entry
+   * @example formatUsage({ 'symlink add <path>': 'Track a file' }) // '  dotsx symlink add <path>  Track a file'
+   */
+  export function formatUsage(entries: Record<string, string>): string {
+    const width = Math.max(...Object.keys(entries).map((usage) => usage.length));
+    return Object.entries(entries)
+      .map(([usage, description]) => `  dotsx ${usage.padEnd(width)}  ${description}`)
+      .join('\n');
+  }
+}
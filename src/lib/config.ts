@@ -0,0 +1,226 @@
+import path from 'node:path';
+import { SECRET_EXTENSION, TEMPLATE_EXTENSION } from './constants';
+import { FileLib } from './file';
+import type { PathAttributes } from './permission';
+import { SuggestionLib } from './suggestion';
+import { SystemLib } from './system';
+
+export type LinkKind = 'file' | 'directory' | 'template' | 'secret';
+
+/** How the system path is kept in sync: a symlink, or a real copy for apps that replace their config atomically */
+export type LinkMode = 'symlink' | 'copy';
+
+export interface LinkOptions {
+  /** 'symlink' when unset */
+  mode?: LinkMode;
+  /** Gitignore-style patterns matched inside a tracked directory, on top of `.dotsxignore` */
+  ignore?: string[];
+  /** Mode, and owner when not the current user, reapplied on sync since git only keeps the executable bit */
+  attributes?: PathAttributes;
+  /** Attributes of the files inside a tracked directory a git checkout would not restore, by relative path */
+  fileAttributes?: Record<string, PathAttributes>;
+  /** Other portable system paths linked to the same dotsx content, e.g. Cursor settings shared with VSCode */
+  shareWith?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * A tracked link as stored in `dotsx.config.json`
+ * @example { systemPath: '~/.zshrc', dotsxPath: '__home__/.zshrc', kind: 'file', options: {} }
+ */
+export interface LinkEntry {
+  /**
+   * Portable system path, `$XDG_CONFIG_HOME/` or another variable for XDG base directories, `~/` for the rest of home,
+   * or an app path like `vscode:User/settings.json` resolved to the location of the app on each OS
+   */
+  systemPath: string;
+  /** Path relative to the `symlinks/` directory */
+  dotsxPath: string;
+  kind: LinkKind;
+  options: LinkOptions;
+}
+
+export interface DotsxConfig {
+  /** Undefined until the manifest is created or migrated */
+  links?: LinkEntry[];
+  /** Template variables, a higher layer overrides a lower one */
+  vars?: Record<string, string>;
+}
+
+export namespace ConfigLib {
+  /**
+   * Read `dotsx.config.json`, an empty or missing file is an empty config
+   */
+  export function read(configPath: string): DotsxConfig {
+    if (!FileLib.isFile(configPath)) return {};
+
+    const content = FileLib.File.read(configPath).trim();
+    if (!content) return {};
+
+    try {
+      return JSON.parse(content) as DotsxConfig;
+    } catch (error) {
+      throw new Error(`Invalid ${path.basename(configPath)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Create the config file with an empty manifest, if it does not exist yet
+   */
+  export function create(configPath: string) {
+    if (!FileLib.isExists(configPath)) write(configPath, { links: [] });
+  }
+
+  export function write(configPath: string, config: DotsxConfig) {
+    FileLib.File.create(configPath);
+    FileLib.File.write(configPath, `${JSON.stringify(config, null, 2)}\n`);
+  }
+
+  /**
+   * Build a manifest entry from absolute paths
+   * @param systemPath - Stored as is if an app path, in its portable form otherwise
+   */
+  export function toLinkEntry(
+    systemPath: string,
+    dotsxPath: string,
+    symlinksDir: string,
+    options: LinkOptions = {},
+  ): LinkEntry {
+    return {
+      systemPath: SuggestionLib.isAppPath(systemPath)
+        ? systemPath
+        : FileLib.toManifestPath(expandSystemPath(systemPath)),
+      dotsxPath: path.relative(symlinksDir, dotsxPath),
+      kind: getLinkKind(dotsxPath),
+      options,
+    };
+  }
+
+  export function getLinkKind(dotsxPath: string): LinkKind {
+    if (dotsxPath.endsWith(TEMPLATE_EXTENSION)) return 'template';
+    if (dotsxPath.endsWith(SECRET_EXTENSION)) return 'secret';
+    return FileLib.isDirectory(dotsxPath) ? 'directory' : 'file';
+  }
+
+  /**
+   * Resolve a system path of the manifest or typed by the user, app paths to the location of the app on this OS
+   * @throws If the app has no known location on this OS
+   */
+  export function expandSystemPath(systemPath: string): string {
+    if (!SuggestionLib.isAppPath(systemPath)) return FileLib.expand(systemPath);
+
+    const resolved = SuggestionLib.resolveAppPath(systemPath, SystemLib.getOsName());
+    if (!resolved) throw new Error(`No known location on this OS: ${systemPath}`);
+    return resolved;
+  }
+
+  /**
+   * Whether a system path of the manifest exists on this OS, false for apps with no known location here
+   */
+  export function isResolvable(systemPath: string): boolean {
+    return !SuggestionLib.isAppPath(systemPath) || !!SuggestionLib.resolveAppPath(systemPath, SystemLib.getOsName());
+  }
+
+  /**
+   * Resolve a manifest entry to absolute paths
+   */
+  export function resolveLinkEntry(entry: LinkEntry, symlinksDir: string): { systemPath: string; dotsxPath: string } {
+    return {
+      systemPath: expandSystemPath(entry.systemPath),
+      dotsxPath: path.resolve(symlinksDir, entry.dotsxPath),
+    };
+  }
+
+  /**
+   * Every portable system path a manifest entry is linked to, its own first
+   * @example getSystemPaths({ systemPath: '~/.config/Code/User/settings.json', options: { shareWith: ['~/.config/Cursor/User/settings.json'] }, ... })
+   */
+  export function getSystemPaths(entry: LinkEntry): string[] {
+    return [entry.systemPath, ...(entry.options?.shareWith ?? [])];
+  }
+
+  /**
+   * Add or replace (by system path) a link in the manifest
+   */
+  export function upsertLink(configPath: string, entry: LinkEntry) {
+    const config = read(configPath);
+    const links = withoutSystemPath(config.links ?? [], expandSystemPath(entry.systemPath));
+    write(configPath, { ...config, links: [...links, entry] });
+  }
+
+  /**
+   * Link one more system path to the content of a tracked link
+   * @param sharedPath - Stored as is if an app path, in its portable form otherwise
+   * @returns false if the link is not tracked in this manifest
+   */
+  export function shareLink(configPath: string, systemPath: string, sharedPath: string): boolean {
+    const config = read(configPath);
+    const links = withoutSystemPath(config.links ?? [], expandSystemPath(sharedPath));
+    const entry = links.find((link) => hasSystemPath(link, expandSystemPath(systemPath)));
+    if (!entry) return false;
+
+    const portableShared = SuggestionLib.isAppPath(sharedPath)
+      ? sharedPath
+      : FileLib.toManifestPath(FileLib.expand(sharedPath));
+    const shareWith = [...(entry.options?.shareWith ?? []), portableShared];
+    write(configPath, {
+      ...config,
+      links: links.map((link) => (link === entry ? { ...link, options: { ...link.options, shareWith } } : link)),
+    });
+    return true;
+  }
+
+  /**
+   * Merge options into a tracked link of the manifest
+   * @returns false if the link is not tracked in this manifest
+   */
+  export function updateLinkOptions(configPath: string, systemPath: string, options: LinkOptions): boolean {
+    const config = read(configPath);
+    const links = config.links ?? [];
+    const isMatch = (link: LinkEntry) => hasSystemPath(link, expandSystemPath(systemPath));
+    if (!links.some(isMatch)) return false;
+
+    write(configPath, {
+      ...config,
+      links: links.map((link) => (isMatch(link) ? { ...link, options: { ...link.options, ...options } } : link)),
+    });
+    return true;
+  }
+
+  /**
+   * Remove a link from the manifest, a shared link stays tracked for its other system paths
+   * @returns true if the link was tracked
+   */
+  export function removeLink(configPath: string, systemPath: string): boolean {
+    const config = read(configPath);
+    const links = config.links ?? [];
+    const remaining = withoutSystemPath(links, expandSystemPath(systemPath));
+
+    write(configPath, { ...config, links: remaining });
+    return links.some((link) => hasSystemPath(link, expandSystemPath(systemPath)));
+  }
+
+  /**
+   * Whether an entry links to an absolute system path, however its portable paths are written
+   */
+  function hasSystemPath(link: LinkEntry, systemPath: string): boolean {
+    return getSystemPaths(link).some((p) => isResolvable(p) && expandSystemPath(p) === systemPath);
+  }
+
+  /**
+   * Drop an absolute system path from every entry, the first shared path takes over an entry losing its own
+   */
+  function withoutSystemPath(links: LinkEntry[], systemPath: string): LinkEntry[] {
+    return links.flatMap((link) => {
+      if (!hasSystemPath(link, systemPath)) return [link];
+
+      const [ownPath, ...shareWith] = getSystemPaths(link).filter(
+        (p) => !isResolvable(p) || expandSystemPath(p) !== systemPath,
+      );
+      if (!ownPath) return [];
+
+      const { shareWith: _, ...options } = link.options ?? {};
+      return [{ ...link, systemPath: ownPath, options: shareWith.length > 0 ? { ...options, shareWith } : options }];
+    });
+  }
+}
@@ -2,32 +2,113 @@ import os from 'node:os';
 import path from 'node:path';
 import type { KnownLinuxDistro, OsFamily } from '@/types';
 
-function getDotsxPath(): string {
+export function getDotsxPath(): string {
   return process.env.DOTSX_PATH || path.resolve(process.env.HOME || os.homedir(), '.dotsx');
 }
 
 export const DOTSX_PATH: string = getDotsxPath();
 
-export interface DotsxOsPath {
+/**
+ * Backups live outside `~/.dotsx` so they are never committed
+ */
+export function resolveDotsxBackupPath(): string {
+  return process.env.DOTSX_BACKUP_PATH || path.resolve(process.env.HOME || os.homedir(), '.dotsx-backups');
+}
+
+/**
+ * Machine-local state, e.g. what dotsx last wrote to rendered files, kept outside `~/.dotsx` so it is never shared
+ */
+export function resolveDotsxStatePath(): string {
+  return process.env.DOTSX_STATE_PATH || path.resolve(process.env.HOME || os.homedir(), '.dotsx-state.json');
+}
+
+/**
+ * Global gitignore-style rules, matched inside every tracked directory
+ */
+export function resolveDotsxIgnorePath(): string {
+  return path.resolve(getDotsxPath(), '.dotsxignore');
+}
+
+/**
+ * Findings of the secret scan accepted on purpose, committed so every machine shares them
+ */
+export function resolveDotsxAllowPath(): string {
+  return path.resolve(getDotsxPath(), '.dotsxallow');
+}
+
+/**
+ * User and team suggestions, merged with the built-in ones
+ */
+export function resolveDotsxSuggestionsPath(): string {
+  return path.resolve(getDotsxPath(), 'suggestions.json');
+}
+
+/**
+ * Machine-local key of encrypted secrets, kept outside `~/.dotsx` so it is never committed
+ */
+export function resolveDotsxKeyPath(): string {
+  return process.env.DOTSX_KEY_PATH || path.resolve(process.env.HOME || os.homedir(), '.dotsx-key');
+}
+
+/** Extension of template files in `symlinks/`, rendered to the system path instead of symlinked */
+export const TEMPLATE_EXTENSION = '.dotsx.tmpl';
+
+/** Extension of encrypted files in `symlinks/`, decrypted to the system path instead of symlinked */
+export const SECRET_EXTENSION = '.dotsx.enc';
+
+/** Name of the layer shared by every OS */
+export const COMMON_LAYER = 'common';
+
+/** Directory of the OS layer holding per-host layers, keyed on hostname */
+export const HOSTS_DIR = 'hosts';
+
+/**
+ * A directory of `~/.dotsx` holding symlinks, bin scripts and package lists
+ * @example { name: 'common', scope: 'common', baseOs: '~/.dotsx/common', symlinks: '~/.dotsx/common/symlinks', ... }
+ */
+export interface DotsxLayerPath {
+  /** Path relative to `~/.dotsx`, e.g. 'common', 'debian' or 'debian/hosts/laptop' */
+  name: string;
+  scope: 'common' | 'os' | 'host';
   baseOs: string;
   config: string;
   bin: string;
-  binAliases: string;
   packagesManager: string;
-  packagesManagerConfig: string;
   symlinks: string;
 }
 
-export function resolveDotsxOsPath(os: OsFamily | KnownLinuxDistro): DotsxOsPath {
-  const baseOsPath = path.resolve(DOTSX_PATH, os);
+export interface DotsxOsPath extends DotsxLayerPath {
+  binAliases: string;
+  packagesManagerConfig: string;
+  /** Every layer merged into the OS view, lowest priority first: common, OS, then host if any */
+  layers: DotsxLayerPath[];
+}
+
+export function resolveDotsxLayerPath(name: string, scope: DotsxLayerPath['scope']): DotsxLayerPath {
+  const baseOsPath = path.resolve(getDotsxPath(), name);
 
   return {
+    name,
+    scope,
     baseOs: baseOsPath,
     config: path.resolve(baseOsPath, 'dotsx.config.json'),
     bin: path.resolve(baseOsPath, 'bin'),
-    binAliases: path.resolve(baseOsPath, 'bin', 'dotsx.bin.aliases'),
     packagesManager: path.resolve(baseOsPath, 'packages'),
-    packagesManagerConfig: path.resolve(baseOsPath, 'packages', 'dotsx.packages.json'),
     symlinks: path.resolve(baseOsPath, 'symlinks'),
   };
 }
+
+/**
+ * @param hostname - Adds the `<os>/hosts/<hostname>` layer on top of the OS one
+ */
+export function resolveDotsxOsPath(os: OsFamily | KnownLinuxDistro, hostname?: string): DotsxOsPath {
+  const osLayer = resolveDotsxLayerPath(os, 'os');
+  const hostLayers = hostname ? [resolveDotsxLayerPath(path.join(os, HOSTS_DIR, hostname), 'host')] : [];
+
+  return {
+    ...osLayer,
+    binAliases: path.resolve(osLayer.bin, 'dotsx.bin.aliases'),
+    packagesManagerConfig: path.resolve(osLayer.packagesManager, 'dotsx.packages.json'),
+    layers: [resolveDotsxLayerPath(COMMON_LAYER, 'common'), osLayer, ...hostLayers],
+  };
+}
@@ -0,0 +1,154 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { FileLib } from './file';
+import { IgnoreLib, type IgnoreRule } from './ignore';
+
+export interface DirectoryDiff {
+  onlyInOld: string[];
+  onlyInNew: string[];
+  changed: string[];
+}
+
+/** Above this many lines per side, the diff is summarized instead of computed */
+const MAX_DIFF_LINES = 2000;
+const CONTEXT_LINES = 3;
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+export namespace DiffLib {
+  /**
+   * Compare two files or directories by content
+   * @param ignore - Rules of directory files left out of the comparison
+   */
+  export function isSame(oldPath: string, newPath: string, ignore: IgnoreRule[] = []): boolean {
+    if (FileLib.isDirectory(oldPath) !== FileLib.isDirectory(newPath)) return false;
+
+    if (FileLib.isDirectory(oldPath)) {
+      const diff = compareDirectories(oldPath, newPath, ignore);
+      return diff.onlyInOld.length === 0 && diff.onlyInNew.length === 0 && diff.changed.length === 0;
+    }
+
+    return fs.readFileSync(oldPath).equals(fs.readFileSync(newPath));
+  }
+
+  /**
+   * Compare two directories file by file
+   * @param ignore - Rules of files left out of the comparison
+   * @returns Relative paths of files found on one side only, or with different content
+   */
+  export function compareDirectories(oldDir: string, newDir: string, ignore: IgnoreRule[] = []): DirectoryDiff {
+    const readFiles = (dir: string) =>
+      FileLib.Directory.readFiles(dir).filter((file) => !IgnoreLib.isIgnored(file, ignore));
+    const oldFiles = readFiles(oldDir);
+    const newFiles = readFiles(newDir);
+
+    return {
+      onlyInOld: oldFiles.filter((file) => !newFiles.includes(file)),
+      onlyInNew: newFiles.filter((file) => !oldFiles.includes(file)),
+      changed: oldFiles
+        .filter((file) => newFiles.includes(file))
+        .filter((file) => !isSame(path.join(oldDir, file), path.join(newDir, file))),
+    };
+  }
+
+  /**
+   * @example formatDirectoryDiff({ onlyInOld: ['a.json'], onlyInNew: [], changed: ['b.json'] }, 'dotsx', 'system')
+   * // '- a.json (only in dotsx)\n~ b.json (changed)'
+   */
+  export function formatDirectoryDiff(diff: DirectoryDiff, oldLabel: string, newLabel: string): string {
+    return [
+      ...diff.onlyInOld.map((file) => `- ${file} (only in ${oldLabel})`),
+      ...diff.onlyInNew.map((file) => `+ ${file} (only in ${newLabel})`),
+      ...diff.changed.map((file) => `~ ${file} (changed)`),
+    ].join('\n');
+  }
+
+  /**
+   * Unified diff of two text files, with 3 lines of context around each change
+   */
+  export function unified(oldPath: string, newPath: string, oldLabel = oldPath, newLabel = newPath): string {
+    return unifiedContent(FileLib.File.read(oldPath), FileLib.File.read(newPath), oldLabel, newLabel);
+  }
+
+  /**
+   * Unified diff of two texts, e.g. a rendered template against the file on disk
+   */
+  export function unifiedContent(oldContent: string, newContent: string, oldLabel: string, newLabel: string): string {
+    const oldLines = oldContent.split('\n');
+    const newLines = newContent.split('\n');
+    const header = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+    if (oldLines.length > MAX_DIFF_LINES || newLines.length > MAX_DIFF_LINES) {
+      return [...header, `Files differ (${oldLines.length} vs ${newLines.length} lines, too large to diff)`].join('\n');
+    }
+
+    return [...header, ...formatHunks(diffLines(oldLines, newLines))].join('\n');
+  }
+
+  /**
+   * Line diff from the longest common subsequence of both sides
+   */
+  function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    const lcs = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+    const lcsAt = (i: number, j: number) => lcs[i]?.[j] ?? 0;
+
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+      const row = lcs[i] ?? [];
+      for (let j = newLines.length - 1; j >= 0; j--) {
+        row[j] = oldLines[i] === newLines[j] ? lcsAt(i + 1, j + 1) + 1 : Math.max(lcsAt(i + 1, j), lcsAt(i, j + 1));
+      }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length || j < newLines.length) {
+      const oldLine = oldLines[i] ?? '';
+      const newLine = newLines[j] ?? '';
+
+      if (i < oldLines.length && j < newLines.length && oldLine === newLine) {
+        lines.push({ type: ' ', text: oldLine });
+        i++;
+        j++;
+      } else if (i < oldLines.length && (j === newLines.length || lcsAt(i + 1, j) >= lcsAt(i, j + 1))) {
+        lines.push({ type: '-', text: oldLine });
+        i++;
+      } else {
+        lines.push({ type: '+', text: newLine });
+        j++;
+      }
+    }
+
+    return lines;
+  }
+
+  function formatHunks(lines: DiffLine[]): string[] {
+    const output: string[] = [];
+
+    // Group changed line indexes into [start, end) ranges, merging changes whose context overlaps
+    const ranges: Array<[number, number]> = [];
+    lines.forEach((line, index) => {
+      if (line.type === ' ') return;
+
+      const start = Math.max(0, index - CONTEXT_LINES);
+      const end = Math.min(lines.length, index + CONTEXT_LINES + 1);
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last[1]) last[1] = end;
+      else ranges.push([start, end]);
+    });
+
+    for (const [start, end] of ranges) {
+      const before = lines.slice(0, start);
+      const hunk = lines.slice(start, end);
+      const oldStart = before.filter((line) => line.type !== '+').length + 1;
+      const newStart = before.filter((line) => line.type !== '-').length + 1;
+      const oldCount = hunk.filter((line) => line.type !== '+').length;
+      const newCount = hunk.filter((line) => line.type !== '-').length;
+
+      output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+      output.push(...hunk.map((line) => `${line.type}${line.text}`));
+    }
+
+    return output;
+  }
+}
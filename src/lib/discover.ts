@@ -0,0 +1,230 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileLib } from './file';
+
+/**
+ * An untracked path of `~` or `~/.config` that looks like configuration
+ * @example { systemPath: '/home/user/.config/nvim', type: 'directory', score: 6, reasons: ['known config', 'config files'] }
+ */
+export interface DiscoveredPath {
+  systemPath: string;
+  type: 'file' | 'directory';
+  /** Higher is more config-like */
+  score: number;
+  reasons: string[];
+}
+
+/** Caches, histories, package stores and runtime state, never worth tracking */
+const SKIPPED_NAMES = new Set([
+  '.dotsx',
+  '.git',
+  '.cache',
+  '.local',
+  '.npm',
+  '.bun',
+  '.cargo',
+  '.rustup',
+  '.nvm',
+  '.pyenv',
+  '.rbenv',
+  '.gradle',
+  '.m2',
+  '.vscode',
+  '.vscode-server',
+  '.cursor',
+  '.cursor-server',
+  '.Trash',
+  '.thumbnails',
+  '.pki',
+  '.dbus',
+  '.gnupg',
+  '.mozilla',
+  '.steam',
+  '.var',
+  '.Xauthority',
+  '.ICEauthority',
+  '.DS_Store',
+  '.lesshst',
+  '.viminfo',
+  '.wget-hsts',
+  '.sudo_as_admin_successful',
+  'node_modules',
+  'pulse',
+  'dconf',
+]);
+
+/** Keys and tokens, tracked file by file with `dotsx secret add` instead */
+const CREDENTIAL_NAMES = new Set(['.ssh', '.aws', '.kube', '.docker', '.password-store', '.netrc', '.git-credentials']);
+
+const SKIPPED_PATTERNS = [/history/i, /cache/i, /^\.zcompdump/, /\.(log|lock|pid|sock|swp)$/, /^\.dotsx-/];
+
+/** Tools whose configuration is commonly kept in dotfiles */
+const KNOWN_NAMES = new Set([
+  '.gitconfig',
+  '.gitignore_global',
+  '.vimrc',
+  '.inputrc',
+  '.editorconfig',
+  '.profile',
+  '.zprofile',
+  '.zshenv',
+  '.tmux.conf',
+  '.npmrc',
+  '.wezterm.lua',
+  '.ideavimrc',
+  '.p10k.zsh',
+  'nvim',
+  'vim',
+  'helix',
+  'alacritty',
+  'kitty',
+  'wezterm',
+  'ghostty',
+  'starship.toml',
+  'fish',
+  'git',
+  'gh',
+  'lazygit',
+  'htop',
+  'btop',
+  'i3',
+  'sway',
+  'hypr',
+  'waybar',
+  'rofi',
+  'zed',
+  'tmux',
+]);
+
+const CONFIG_EXTENSIONS = new Set(['.toml', '.yaml', '.yml', '.json', '.jsonc', '.conf', '.ini', '.lua', '.cfg']);
+
+/** Beyond these, a file or directory is data rather than configuration */
+const MAX_FILE_SIZE = 256 * 1024;
+const MAX_DIR_SIZE = 5 * 1024 * 1024;
+const MAX_DIR_FILES = 500;
+
+const isSkipped = (name: string): boolean =>
+  SKIPPED_NAMES.has(name) || CREDENTIAL_NAMES.has(name) || SKIPPED_PATTERNS.some((pattern) => pattern.test(name));
+
+const isConfigName = (name: string): boolean =>
+  CONFIG_EXTENSIONS.has(path.extname(name)) || /(rc|config|profile)$/i.test(name);
+
+/** A NUL byte in the first block is how git tells binary files apart too */
+const isBinary = (filePath: string): boolean => {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(8000);
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Walk a directory until it is too large to be configuration
+ * @returns null if it is, its size and regular files otherwise
+ */
+const measureDirectory = (dirPath: string): { size: number; files: string[] } | null => {
+  const files: string[] = [];
+  let size = 0;
+
+  const walk = (dir: string): boolean => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (isSkipped(entry.name)) continue;
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!walk(entryPath)) return false;
+      } else if (entry.isFile()) {
+        size += fs.statSync(entryPath).size;
+        files.push(entryPath);
+        if (size > MAX_DIR_SIZE || files.length > MAX_DIR_FILES) return false;
+      }
+    }
+    return true;
+  };
+
+  return walk(dirPath) ? { size, files } : null;
+};
+
+export namespace DiscoverLib {
+  /**
+   * Rank a path by how config-like it looks: known names, config file types and a small size
+   * @returns null for binaries, large files and directories, and empty directories
+   */
+  export function rate(systemPath: string): DiscoveredPath | null {
+    const name = path.basename(systemPath);
+    const stat = fs.lstatSync(systemPath);
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (KNOWN_NAMES.has(name)) {
+      score += 4;
+      reasons.push('known config');
+    }
+
+    if (stat.isFile()) {
+      if (stat.size > MAX_FILE_SIZE || isBinary(systemPath)) return null;
+      if (isConfigName(name)) {
+        score += 2;
+        reasons.push('config file');
+      }
+      if (stat.size < 16 * 1024) score += 1;
+      return { systemPath, type: 'file', score, reasons };
+    }
+
+    if (!stat.isDirectory()) return null;
+
+    const measured = measureDirectory(systemPath);
+    if (!measured || measured.files.length === 0) return null;
+
+    const textFiles = measured.files.filter((file) => !isBinary(file));
+    if (textFiles.length < measured.files.length / 2) return null;
+
+    if (textFiles.some((file) => isConfigName(path.basename(file)))) {
+      score += 2;
+      reasons.push('config files');
+    }
+    if (measured.size < 256 * 1024) score += 1;
+    return { systemPath, type: 'directory', score, reasons };
+  }
+
+  /**
+   * Untracked dotfiles of home and entries of the XDG config directory, most config-like first
+   * @param trackedPaths - System paths already tracked, skipped with what they contain or hold
+   */
+  export function discover(
+    trackedPaths: string[],
+    homeDir = os.homedir(),
+    configDir = FileLib.expand('$XDG_CONFIG_HOME'),
+  ): DiscoveredPath[] {
+    const isTracked = (p: string) =>
+      trackedPaths.some((tracked) => tracked === p || tracked.startsWith(`${p}/`) || p.startsWith(`${tracked}/`));
+
+    const list = (dir: string, dotfilesOnly: boolean): string[] =>
+      FileLib.isDirectory(dir)
+        ? fs
+            .readdirSync(dir)
+            .filter((name) => (!dotfilesOnly || name.startsWith('.')) && !isSkipped(name))
+            .map((name) => path.join(dir, name))
+        : [];
+
+    // The config directory is a container, its entries are rated one by one
+    const candidates = [...list(homeDir, true).filter((p) => p !== configDir), ...list(configDir, false)];
+
+    return candidates
+      .filter((p) => !isTracked(p) && !fs.lstatSync(p).isSymbolicLink())
+      .map((p) => {
+        try {
+          return rate(p);
+        } catch {
+          // Unreadable paths are not worth reporting
+          return null;
+        }
+      })
+      .filter((found): found is DiscoveredPath => found !== null)
+      .sort((a, b) => b.score - a.score || a.systemPath.localeCompare(b.systemPath));
+  }
+}
@@ -9,20 +9,123 @@ export namespace FileLib {
   export const isDirectory = (p: string) => isExists(p) && fs.statSync(expand(p)).isDirectory();
   export const isSymLink = (p: string) => isExists(p) && fs.lstatSync(expand(p)).isSymbolicLink();
 
+  /**
+   * XDG base directories, stored in dotsx under a token so machines with other XDG settings resolve their own
+   */
+  const XDG_DIRS = [
+    { token: '__xdg_config__', variable: 'XDG_CONFIG_HOME', fallback: '.config' },
+    { token: '__xdg_data__', variable: 'XDG_DATA_HOME', fallback: '.local/share' },
+    { token: '__xdg_state__', variable: 'XDG_STATE_HOME', fallback: '.local/state' },
+    { token: '__xdg_cache__', variable: 'XDG_CACHE_HOME', fallback: '.cache' },
+  ];
+
+  /** Top directories of `symlinks/` standing for a system directory that differs between machines */
+  export const ROOT_TOKENS: readonly string[] = ['__home__', ...XDG_DIRS.map((dir) => dir.token)];
+
+  const getVariable = (name: string): string | undefined => {
+    if (name === 'HOME') return os.homedir();
+    const value = process.env[name];
+    // The XDG spec ignores relative paths
+    if (XDG_DIRS.some((dir) => dir.variable === name) && !path.isAbsolute(value ?? '')) return undefined;
+    return value || undefined;
+  };
+
+  const getXdgDir = (dir: (typeof XDG_DIRS)[number]): string =>
+    getVariable(dir.variable) ?? path.join(os.homedir(), dir.fallback);
+
+  /**
+   * The XDG base directory containing a system path, if any
+   * @example findXdgDir('/home/user/.config/nvim') // { variable: 'XDG_CONFIG_HOME', token: '__xdg_config__', relPath: 'nvim' }
+   */
+  const findXdgDir = (systemPath: string) => {
+    for (const dir of XDG_DIRS) {
+      const base = getXdgDir(dir);
+      if (systemPath === base || systemPath.startsWith(`${base}/`)) {
+        return { ...dir, relPath: systemPath.slice(base.length + 1) };
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Replace `$VAR`, `${VAR}` and `${VAR:-default}`, unset variables without default are left as is.
+   * XDG base directory variables fall back to their default location.
+   * @example expandVariables('${XDG_CONFIG_HOME}/nvim') // '/home/user/.config/nvim'
+   * expandVariables('${NVIM_APPNAME:-nvim}/init.lua') // 'nvim/init.lua'
+   */
+  export const expandVariables = (inputPath: string): string =>
+    inputPath.replace(/\$\{(\w+)(?::-([^}]*))?\}|\$(\w+)/g, (match, braced, fallback, bare) => {
+      const name: string = braced ?? bare;
+      const value = getVariable(name);
+      if (value) return value;
+      if (fallback !== undefined) return expand(fallback);
+
+      const xdg = XDG_DIRS.find((dir) => dir.variable === name);
+      return xdg ? getXdgDir(xdg) : match;
+    });
+
+  /**
+   * Resolve variables, `~/` and the `__home__` and `__xdg_*__` tokens to an absolute path
+   * @example expand('__xdg_config__/Code/User/settings.json') // '/home/user/.config/Code/User/settings.json'
+   */
   export const expand = (inputPath: string): string => {
-    if (inputPath.startsWith('~/')) return path.resolve(os.homedir(), inputPath.slice(2));
-    if (inputPath.startsWith('__home__/')) return path.resolve(os.homedir(), inputPath.slice(9));
-    if (inputPath === '__home__') return os.homedir();
-    return inputPath;
+    const expanded = inputPath.includes('$') ? expandVariables(inputPath) : inputPath;
+    if (expanded.startsWith('~/')) return path.resolve(os.homedir(), expanded.slice(2));
+    if (expanded.startsWith('__home__/')) return path.resolve(os.homedir(), expanded.slice(9));
+    if (expanded === '__home__') return os.homedir();
+
+    for (const dir of XDG_DIRS) {
+      if (expanded === dir.token) return getXdgDir(dir);
+      if (expanded.startsWith(`${dir.token}/`)) {
+        return path.resolve(getXdgDir(dir), expanded.slice(dir.token.length + 1));
+      }
+    }
+    return expanded;
   };
 
-  export const display = (inputPath: string): string => inputPath.split('__home__/')[1] ?? inputPath;
+  /**
+   * @example display('/home/user/.dotsx/debian/symlinks/__home__/.zshrc') // '.zshrc'
+   * display('/home/user/.dotsx/debian/symlinks/__xdg_config__/nvim') // '$XDG_CONFIG_HOME/nvim'
+   * display('/home/user/.dotsx/common/symlinks/__app__/vscode/User/settings.json') // 'vscode:User/settings.json'
+   */
+  export const display = (inputPath: string): string => {
+    const [, app, appRelPath] = inputPath.match(/__app__\/([^/]+)\/(.+)$/) ?? [];
+    if (app && appRelPath) return `${app}:${appRelPath}`;
+    const xdg = XDG_DIRS.find((dir) => inputPath.includes(`${dir.token}/`));
+    if (xdg) return `$${xdg.variable}/${inputPath.split(`${xdg.token}/`)[1]}`;
+    return inputPath.split('__home__/')[1] ?? inputPath;
+  };
+
+  /**
+   * @example toPortablePath('/home/user/.zshrc') // '~/.zshrc'
+   * toPortablePath('/etc/hosts') // '/etc/hosts'
+   */
+  export const toPortablePath = (systemPath: string): string => {
+    const home = os.homedir();
+    if (systemPath.startsWith(`${home}/`)) return `~/${systemPath.slice(home.length + 1)}`;
+    return systemPath;
+  };
+
+  /**
+   * Portable path stored in the manifest, relative to the XDG base directory holding it if any
+   * @example toManifestPath('/home/user/.config/nvim') // '$XDG_CONFIG_HOME/nvim'
+   * toManifestPath('/home/user/.zshrc') // '~/.zshrc'
+   */
+  export const toManifestPath = (systemPath: string): string => {
+    const xdg = findXdgDir(systemPath);
+    if (!xdg) return toPortablePath(systemPath);
+    return xdg.relPath ? `$${xdg.variable}/${xdg.relPath}` : `$${xdg.variable}`;
+  };
 
   /**
    * @example toDotsxPath('/home/user/.zshrc', '/home/user/.dotsx/symlinks') // '/home/user/.dotsx/symlinks/__home__/.zshrc'
+   * toDotsxPath('/home/user/.config/nvim', '/home/user/.dotsx/symlinks') // '/home/user/.dotsx/symlinks/__xdg_config__/nvim'
    * toDotsxPath('/home/user/projects', '/home/user/.dotsx/symlinks') // '/home/user/.dotsx/symlinks/home/user/projects'
    */
   export const toDotsxPath = (systemPath: string, symlinkBase: string): string => {
+    const xdg = findXdgDir(systemPath);
+    if (xdg) return path.resolve(symlinkBase, xdg.token, xdg.relPath);
+
     const home = os.homedir();
     if (systemPath.startsWith(home)) {
       const relativePath = systemPath.slice(home.length);
@@ -31,6 +134,16 @@ export namespace FileLib {
     return path.resolve(symlinkBase, systemPath.startsWith('/') ? systemPath.slice(1) : systemPath);
   };
 
+  /**
+   * Resolve the symlinks of a path whose last parts may not exist yet
+   * @example toRealPath('/home/user/.claude/settings.local.json') // '/home/user/.dotsx/debian/symlinks/__home__/.claude/settings.local.json'
+   */
+  export const toRealPath = (p: string): string => {
+    const parent = path.dirname(p);
+    if (fs.existsSync(p)) return fs.realpathSync(p);
+    return parent === p ? p : path.join(toRealPath(parent), path.basename(p));
+  };
+
   export namespace File {
     export const isExecutable = (p: string) => isFile(p) && (fs.statSync(expand(p)).mode & 0o100) !== 0;
 
@@ -114,7 +227,27 @@ export namespace FileLib {
       return fs.readdirSync(expand(p));
     };
 
-    export const copy = (src: string, dest: string) => {
+    /**
+     * List every file under a directory, recursively
+     * @returns Paths relative to the directory
+     */
+    export const readFiles = (p: string): string[] => {
+      const files: string[] = [];
+      for (const item of read(p)) {
+        const itemPath = path.resolve(expand(p), item);
+        if (fs.lstatSync(itemPath).isDirectory()) {
+          files.push(...readFiles(itemPath).map((file) => path.join(item, file)));
+        } else {
+          files.push(item);
+        }
+      }
+      return files;
+    };
+
+    /**
+     * @param ignore - Skips matching files and directories
+     */
+    export const copy = (src: string, dest: string, ignore?: (srcPath: string, isDirectory: boolean) => boolean) => {
       if (!isExists(expand(dest))) create(expand(dest));
 
       for (const item of fs.readdirSync(src)) {
@@ -122,9 +255,10 @@ export namespace FileLib {
         const destPath = path.resolve(dest, item);
 
         const stat = fs.statSync(srcPath);
+        if (ignore?.(srcPath, stat.isDirectory())) continue;
 
         if (stat.isDirectory()) {
-          copy(expand(srcPath), expand(destPath));
+          copy(expand(srcPath), expand(destPath), ignore);
         } else {
           try {
             File.copy(expand(srcPath), expand(destPath));
@@ -1,9 +1,17 @@
 import { exec } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
 import { promisify } from 'node:util';
 import type { GitInfo } from '@/types';
+import { FileLib } from './file';
+import { SudoLib } from './sudo';
 
 const execAsync = promisify(exec);
 
+const EXCLUDE_BLOCK_START = '# dotsx:ignore begin (generated from .dotsxignore and link ignore patterns)';
+const EXCLUDE_BLOCK_END = '# dotsx:ignore end';
+const EXCLUDE_BLOCK_PATTERN = /\n*# dotsx:ignore begin[^\n]*\n[\s\S]*?# dotsx:ignore end\n?/;
+
 export namespace GitLib {
   export async function isGitInstalled(): Promise<boolean> {
     try {
@@ -225,17 +233,77 @@ export namespace GitLib {
     }
   }
 
-  export async function addAll(dirPath: string): Promise<void> {
+  /**
+   * Stage every change
+   * @param exclude - Paths relative to the repository never staged, even if `.git/info/exclude` was edited
+   */
+  export async function addAll(dirPath: string, exclude: string[] = []): Promise<void> {
+    const pathspecs = exclude.map((relPath) => ` ${SudoLib.quote(`:(exclude,literal)${relPath}`)}`).join('');
     try {
-      await execAsync('git add .', { cwd: dirPath });
+      await execAsync(`git add -A -- .${pathspecs}`, { cwd: dirPath });
     } catch (error) {
       throw new Error(`Failed to add changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * @returns Staged changes without context lines, to scan what a commit would add
+   */
+  export async function getStagedDiff(dirPath: string): Promise<string> {
+    try {
+      const { stdout } = await execAsync('git -c core.quotePath=false diff --cached -U0 --no-color --no-ext-diff', {
+        cwd: dirPath,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error) {
+      throw new Error(`Failed to read staged changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace the dotsx block of `.git/info/exclude`, keeping the lines added by hand
+   */
+  export function writeExcludes(dirPath: string, patterns: string[]): void {
+    const excludePath = path.join(dirPath, '.git', 'info', 'exclude');
+    const current = FileLib.isFile(excludePath) ? FileLib.File.read(excludePath) : '';
+    const kept = current.replace(EXCLUDE_BLOCK_PATTERN, '').trimEnd();
+    const block = patterns.length > 0 ? [EXCLUDE_BLOCK_START, ...patterns, EXCLUDE_BLOCK_END].join('\n') : '';
+
+    FileLib.Directory.create(path.dirname(excludePath));
+    fs.writeFileSync(excludePath, `${[kept, block].filter(Boolean).join('\n\n')}\n`);
+  }
+
+  /**
+   * @returns Absolute paths of every committed file under the directory
+   */
+  export async function getTrackedFiles(dirPath: string): Promise<string[]> {
+    try {
+      const { stdout } = await execAsync('git ls-files -z', { cwd: dirPath, maxBuffer: 64 * 1024 * 1024 });
+      return stdout
+        .split('\0')
+        .filter(Boolean)
+        .map((file) => path.resolve(dirPath, file));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Stop tracking files without deleting them from the working tree
+   */
+  export async function removeFromIndex(dirPath: string, files: string[]): Promise<void> {
+    try {
+      const args = files.map((file) => SudoLib.quote(file)).join(' ');
+      await execAsync(`git rm --cached --quiet -- ${args}`, { cwd: dirPath });
+    } catch (error) {
+      throw new Error(`Failed to untrack files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   export async function commit(dirPath: string, message: string): Promise<void> {
     try {
-      await execAsync(`git commit -m "${message}"`, { cwd: dirPath });
+      await execAsync(`git commit -m ${SudoLib.quote(message)}`, { cwd: dirPath });
     } catch (error) {
       throw new Error(`Failed to commit changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
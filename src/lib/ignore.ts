@@ -0,0 +1,113 @@
+import path from 'node:path';
+import { FileLib } from './file';
+
+/**
+ * A parsed gitignore-style pattern
+ * @example { pattern: '*.log', negate: false, directoryOnly: false, regex: /^(?:.*\/)?[^/]*\.log$/ }
+ */
+export interface IgnoreRule {
+  pattern: string;
+  /** `!pattern` re-includes what a previous rule ignored */
+  negate: boolean;
+  /** `pattern/` only matches directories */
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+export namespace IgnoreLib {
+  /**
+   * Parse gitignore-style lines, blank lines and `#` comments are skipped
+   */
+  export function parse(lines: string[]): IgnoreRule[] {
+    return lines
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'))
+      .map((line) => {
+        const negate = line.startsWith('!');
+        const body = negate ? line.slice(1) : line;
+        const directoryOnly = body.endsWith('/');
+        const pattern = directoryOnly ? body.slice(0, -1) : body;
+
+        return { pattern: line, negate, directoryOnly, regex: toRegex(pattern) };
+      });
+  }
+
+  /**
+   * Read the patterns of an ignore file, a missing file has none
+   */
+  export function readPatterns(ignorePath: string): string[] {
+    if (!FileLib.isFile(ignorePath)) return [];
+    return parse(FileLib.File.read(ignorePath).split('\n')).map((rule) => rule.pattern);
+  }
+
+  /**
+   * Like git, the last matching rule wins and a file inside an ignored directory is ignored
+   * @param relPath - Path relative to the directory the rules apply to, e.g. 'cache/data.json'
+   * @example isIgnored('logs/today.log', parse(['*.log'])) // true
+   */
+  export function isIgnored(relPath: string, rules: IgnoreRule[], isDirectory = false): boolean {
+    if (rules.length === 0) return false;
+
+    const parts = relPath.split(path.sep).filter(Boolean);
+    for (let i = 1; i < parts.length; i++) {
+      if (matches(parts.slice(0, i).join('/'), rules, true)) return true;
+    }
+    return matches(parts.join('/'), rules, isDirectory);
+  }
+
+  /**
+   * Rewrite patterns relative to a directory of the repository, for `.git/info/exclude`
+   * @example toGitExcludes(['*.log', '/cache/'], '/debian/symlinks/__home__/.claude')
+   * // ['/debian/symlinks/__home__/.claude/**\/*.log', '/debian/symlinks/__home__/.claude/cache/']
+   */
+  export function toGitExcludes(patterns: string[], baseDir: string): string[] {
+    return parse(patterns).map(({ negate, directoryOnly, pattern }) => {
+      const body = (negate ? pattern.slice(1) : pattern).replace(/\/$/, '');
+      const relative = isAnchored(body) ? body.replace(/^\//, '') : `**/${body}`;
+      return `${negate ? '!' : ''}${baseDir}/${relative}${directoryOnly ? '/' : ''}`;
+    });
+  }
+
+  function matches(relPath: string, rules: IgnoreRule[], isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(relPath)) ignored = !rule.negate;
+    }
+    return ignored;
+  }
+
+  /** A slash anywhere but at the end anchors the pattern to the base directory */
+  function isAnchored(pattern: string): boolean {
+    return pattern.includes('/');
+  }
+
+  /**
+   * @example toRegex('*.log') // matches 'a.log' and 'logs/a.log'
+   * toRegex('/cache') // only matches 'cache'
+   */
+  function toRegex(pattern: string): RegExp {
+    const anchored = isAnchored(pattern);
+    const glob = pattern.replace(/^\//, '');
+
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i] ?? '';
+      if (glob.startsWith('**/', i)) {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (glob.startsWith('/**', i) && i + 3 === glob.length) {
+        source += '/.*';
+        i += 2;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+  }
+}
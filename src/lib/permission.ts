@@ -0,0 +1,176 @@
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { PlanStep } from './plan';
+import { SudoLib } from './sudo';
+
+/**
+ * Mode and ownership of a system path, stored in the link options to restore it faithfully
+ * @example { mode: '600' } or { mode: '644', owner: 'root', group: 'root' }
+ */
+export interface PathAttributes {
+  /** Octal permission bits */
+  mode: string;
+  /** Only recorded when the path is not owned by the current user */
+  owner?: string;
+  group?: string;
+}
+
+/** Modes a git checkout creates, not worth recording inside a tracked directory */
+const DEFAULT_FILE_MODES = ['644', '755'];
+const DEFAULT_DIRECTORY_MODE = '755';
+
+/** `stat` format of the octal mode, owner id, owner and group names and file type, then the path */
+const STAT_FORMAT = process.platform === 'darwin' ? `-L -f '%Mp%Lp:%u:%Su:%Sg:%HT:%N'` : `-L -c '%a:%u:%U:%G:%F:%n'`;
+
+interface StatEntry {
+  path: string;
+  uid: number;
+  isDirectory: boolean;
+  attributes: Required<PathAttributes>;
+}
+
+/**
+ * Stat paths the current user cannot reach as root, e.g. inside `/etc/sudoers.d`
+ * @param command - Command printing STAT_FORMAT lines
+ */
+const statAsRoot = (command: string): StatEntry[] =>
+  SudoLib.output(command)
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [mode = '', uid = '', owner = '', group = '', type = '', ...rest] = line.split(':');
+      return {
+        path: rest.join(':'),
+        uid: Number(uid),
+        isDirectory: type.toLowerCase() === 'directory',
+        attributes: { mode: Number.parseInt(mode, 8).toString(8), owner, group },
+      };
+    });
+
+const readAsRoot = (p: string): StatEntry => {
+  const [entry] = statAsRoot(`stat ${STAT_FORMAT} ${SudoLib.quote(p)}`);
+  if (!entry) {
+    throw new Error(`Cannot read the attributes of ${p}`);
+  }
+  return entry;
+};
+
+/** Only a path owned by someone else needs its owner recorded */
+const toRecorded = (entry: StatEntry): PathAttributes =>
+  entry.uid === process.getuid?.() ? { mode: entry.attributes.mode } : entry.attributes;
+
+export namespace PermissionLib {
+  /**
+   * Read the mode and the owner and group names of a path, following symlinks
+   */
+  export function read(p: string): Required<PathAttributes> {
+    if (!SudoLib.canReach(p)) return readAsRoot(p).attributes;
+
+    const stats = fs.statSync(p);
+    const mode = (stats.mode & 0o7777).toString(8);
+
+    try {
+      const format = process.platform === 'darwin' ? `-L -f '%Su:%Sg'` : `-L -c '%U:%G'`;
+      const [owner = '', group = ''] = execSync(`stat ${format} ${SudoLib.quote(p)}`, { stdio: 'pipe' })
+        .toString()
+        .trim()
+        .split(':');
+      return { mode, owner, group };
+    } catch {
+      // Ids are still restorable when names cannot be resolved
+      return { mode, owner: String(stats.uid), group: String(stats.gid) };
+    }
+  }
+
+  /**
+   * Attributes worth storing for a path: its mode, and its owner when it is not the current user
+   */
+  export function record(p: string): PathAttributes {
+    if (!SudoLib.canReach(p)) return toRecorded(readAsRoot(p));
+
+    const stats = fs.statSync(p);
+    if (stats.uid !== process.getuid?.()) return read(p);
+    return { mode: (stats.mode & 0o7777).toString(8) };
+  }
+
+  /**
+   * Record the files and directories inside a directory whose attributes a git checkout would not restore
+   * @param isIgnored - Skips matching paths, relative to the directory
+   * @returns Attributes by relative path, e.g. { 'config': { mode: '600' } }
+   */
+  export function recordTree(
+    dirPath: string,
+    isIgnored: (relPath: string, isDirectory: boolean) => boolean = () => false,
+  ): Record<string, PathAttributes> {
+    if (!SudoLib.canRead(dirPath)) return recordTreeAsRoot(dirPath, isIgnored);
+
+    const tree: Record<string, PathAttributes> = {};
+
+    const walk = (relDir: string) => {
+      for (const item of fs.readdirSync(path.join(dirPath, relDir))) {
+        const relPath = path.join(relDir, item);
+        const stats = fs.lstatSync(path.join(dirPath, relPath));
+        if (stats.isSymbolicLink() || isIgnored(relPath, stats.isDirectory())) continue;
+
+        const attributes = record(path.join(dirPath, relPath));
+        if (!isDefault(attributes, stats.isDirectory())) tree[relPath] = attributes;
+        if (stats.isDirectory()) walk(relPath);
+      }
+    };
+    walk('');
+
+    return tree;
+  }
+
+  /**
+   * Like recordTree, listing the whole tree in a single command run as root
+   */
+  function recordTreeAsRoot(
+    dirPath: string,
+    isIgnored: (relPath: string, isDirectory: boolean) => boolean,
+  ): Record<string, PathAttributes> {
+    const tree: Record<string, PathAttributes> = {};
+    const ignoredDirs: string[] = [];
+
+    // find lists a directory before its content, symlinks are skipped like in recordTree
+    const command = `find ${SudoLib.quote(dirPath)} -mindepth 1 ! -type l -exec stat ${STAT_FORMAT} {} +`;
+    for (const entry of statAsRoot(command)) {
+      const relPath = path.relative(dirPath, entry.path);
+      if (ignoredDirs.some((dir) => relPath.startsWith(`${dir}/`))) continue;
+      if (isIgnored(relPath, entry.isDirectory)) {
+        if (entry.isDirectory) ignoredDirs.push(relPath);
+        continue;
+      }
+
+      const attributes = toRecorded(entry);
+      if (!isDefault(attributes, entry.isDirectory)) tree[relPath] = attributes;
+    }
+
+    return tree;
+  }
+
+  export function isDefault(attributes: PathAttributes, isDirectory: boolean): boolean {
+    if (attributes.owner) return false;
+    return isDirectory ? attributes.mode === DEFAULT_DIRECTORY_MODE : DEFAULT_FILE_MODES.includes(attributes.mode);
+  }
+
+  /**
+   * Compute the chmod and chown steps that give a path its recorded attributes
+   * @param p - Path to restore, may not exist yet if the steps run after it is created
+   * @returns Steps to execute, empty if the path already matches
+   */
+  export function planRestore(p: string, attributes: PathAttributes): PlanStep[] {
+    const current = fs.existsSync(p) ? read(p) : null;
+    const steps: PlanStep[] = [];
+
+    if (attributes.owner && (current?.owner !== attributes.owner || current?.group !== attributes.group)) {
+      steps.push({ op: 'chown', path: p, owner: attributes.owner, group: attributes.group });
+    }
+    if (current?.mode !== attributes.mode) {
+      steps.push({ op: 'chmod', path: p, mode: Number.parseInt(attributes.mode, 8) });
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,255 @@
+import { execSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { BackupLib, type BackupSnapshot } from './backup';
+import { FileLib } from './file';
+import { IgnoreLib } from './ignore';
+import { StateLib } from './state';
+import { SudoLib } from './sudo';
+
+export type PlanStep =
+  | { op: 'copy'; from: string; to: string; ignore?: string[] }
+  | { op: 'remove'; path: string }
+  | { op: 'symlink'; target: string; path: string }
+  | { op: 'append'; path: string; content: string }
+  | { op: 'write'; path: string; content: string | Buffer; mode?: number }
+  | { op: 'chmod'; path: string; mode: number }
+  | { op: 'chown'; path: string; owner: string; group?: string }
+  | { op: 'exec'; command: string };
+
+export interface PlanAction {
+  category: 'symlinks' | 'bin' | 'packages';
+  title: string;
+  steps: PlanStep[];
+}
+
+/** State of a path when the plan was computed, e.g. 'missing', 'directory:<hash>', 'file:<hash>' or 'symlink:/target' */
+type PathState = string;
+
+export interface Plan {
+  createdAt: string;
+  os: string;
+  preconditions: Record<string, PathState>;
+  actions: PlanAction[];
+  /** Package lists by package manager name the plan was computed from, remembered once it is applied */
+  packageLists?: Record<string, string[]>;
+}
+
+export namespace PlanLib {
+  export function create(os: string, actions: PlanAction[]): Plan {
+    const preconditions: Record<string, PathState> = {};
+    for (const step of actions.flatMap((action) => action.steps)) {
+      for (const p of getStepPaths(step)) {
+        preconditions[p] ??= getPathState(p);
+      }
+    }
+
+    return { createdAt: new Date().toISOString(), os, preconditions, actions };
+  }
+
+  export function getPathState(p: string): PathState {
+    try {
+      const stats = fs.lstatSync(p);
+      if (stats.isSymbolicLink()) return `symlink:${fs.readlinkSync(p)}`;
+      if (stats.isDirectory()) return `directory:${hashDirectory(p)}`;
+      return `file:${createHash('sha256').update(fs.readFileSync(p)).digest('hex').slice(0, 16)}`;
+    } catch {
+      return 'missing';
+    }
+  }
+
+  /**
+   * Hash the name and state of every entry of a directory, recursively
+   */
+  function hashDirectory(dir: string): string {
+    const hash = createHash('sha256');
+    for (const name of fs.readdirSync(dir).sort()) {
+      hash.update(`${name}\0${getPathState(path.join(dir, name))}\n`);
+    }
+    return hash.digest('hex').slice(0, 16);
+  }
+
+  export function getStepPaths(step: PlanStep): string[] {
+    switch (step.op) {
+      case 'copy':
+        return [step.from, step.to];
+      case 'symlink':
+        return [step.target, step.path];
+      case 'exec':
+        return [];
+      default:
+        return [step.path];
+    }
+  }
+
+  /**
+   * Compare the current filesystem with the plan preconditions
+   * @returns Paths that changed since the plan was computed
+   */
+  export function getStalePaths(plan: Plan): string[] {
+    return Object.entries(plan.preconditions)
+      .filter(([p, state]) => getPathState(p) !== state)
+      .map(([p]) => p);
+  }
+
+  export function executeStep(step: PlanStep) {
+    switch (step.op) {
+      case 'copy':
+        FileLib.Directory.create(path.dirname(step.to));
+        if (FileLib.isDirectory(step.from)) {
+          const rules = IgnoreLib.parse(step.ignore ?? []);
+          FileLib.Directory.copy(step.from, step.to, (p, isDirectory) =>
+            IgnoreLib.isIgnored(path.relative(step.from, p), rules, isDirectory),
+          );
+        } else {
+          FileLib.File.copy(step.from, step.to);
+        }
+        break;
+      case 'remove': {
+        const stats = fs.lstatSync(step.path);
+        if (stats.isSymbolicLink()) fs.unlinkSync(step.path);
+        else if (stats.isDirectory()) FileLib.Directory.deleteDirectory(step.path);
+        else FileLib.File.deleteFile(step.path);
+        break;
+      }
+      case 'symlink':
+        FileLib.Directory.create(path.dirname(step.path));
+        fs.symlinkSync(step.target, step.path);
+        break;
+      case 'append':
+        FileLib.File.create(step.path);
+        FileLib.File.writeAppend(step.path, step.content);
+        break;
+      case 'write':
+        FileLib.Directory.create(path.dirname(step.path));
+        fs.writeFileSync(step.path, step.content, { mode: step.mode });
+        if (step.mode !== undefined) fs.chmodSync(step.path, step.mode);
+        // Remembered to tell hand edits from content dotsx wrote itself
+        StateLib.setWritten(step.path, getPathState(step.path));
+        break;
+      case 'chmod':
+        fs.chmodSync(step.path, step.mode);
+        break;
+      case 'chown':
+        execSync(SudoLib.toCommand(step), { stdio: 'pipe' });
+        break;
+      case 'exec':
+        execSync(step.command, { stdio: 'pipe' });
+        break;
+    }
+  }
+
+  /**
+   * Execute steps in order, those the current user lacks the permissions for are run through sudo.
+   * Consecutive elevated steps share a single sudo session.
+   */
+  export function runSteps(steps: PlanStep[]) {
+    let elevated: PlanStep[] = [];
+    const flush = () => {
+      SudoLib.run(elevated);
+      // Like executeStep, remember what dotsx wrote itself
+      for (const step of elevated) {
+        if (step.op === 'write') StateLib.setWritten(step.path, getPathState(step.path));
+      }
+      elevated = [];
+    };
+
+    for (const step of steps) {
+      if (SudoLib.needsElevation(step)) {
+        elevated.push(step);
+        continue;
+      }
+      flush();
+      executeStep(step);
+    }
+    flush();
+  }
+
+  /**
+   * Paths that currently exist and that the steps would delete or overwrite
+   */
+  export function getOverwrittenPaths(steps: PlanStep[]): string[] {
+    return steps
+      .flatMap((step) => {
+        if (step.op === 'remove' || step.op === 'write') return [step.path];
+        return step.op === 'copy' ? [step.to] : [];
+      })
+      .filter((p) => getPathState(p) !== 'missing');
+  }
+
+  /**
+   * Execute steps, snapshotting everything they delete or overwrite into a backup first
+   * @param reason - Recorded in the backup manifest
+   * @returns The backup snapshot, null if nothing was overwritten
+   */
+  export function executeSteps(steps: PlanStep[], reason = 'dotsx'): BackupSnapshot | null {
+    const snapshot = BackupLib.planSnapshot(getOverwrittenPaths(steps), reason);
+    // Root-only paths are backed up in the sudo session replacing them
+    runSteps([...snapshot.steps, ...steps]);
+    return snapshot.backup;
+  }
+
+  /**
+   * Format a step as a diff-like line
+   * @example formatStep({ op: 'remove', path: '/home/user/.zshrc' }) // '- remove  /home/user/.zshrc'
+   */
+  export function formatStep(step: PlanStep): string {
+    switch (step.op) {
+      case 'copy':
+        return `+ copy    ${step.from} → ${step.to}${step.ignore ? ` (ignoring ${step.ignore.join(', ')})` : ''}`;
+      case 'remove':
+        return `- remove  ${step.path}`;
+      case 'symlink':
+        return `+ symlink ${step.path} → ${step.target}`;
+      case 'append':
+        return `~ append  ${step.path}\n    + ${step.content}`;
+      case 'write':
+        return `+ write   ${step.path} (${step.content.toString().split('\n').length} lines)`;
+      case 'chmod':
+        return `~ chmod   ${step.path} (${step.mode.toString(8)})`;
+      case 'chown':
+        return `~ chown   ${step.path} (${step.owner}${step.group ? `:${step.group}` : ''})`;
+      case 'exec':
+        return `$ ${step.command}`;
+    }
+  }
+
+  export function format(plan: Plan): string {
+    if (plan.actions.length === 0) return 'No changes, everything is up to date';
+
+    const lines: string[] = [];
+    for (const category of ['symlinks', 'bin', 'packages'] as const) {
+      const actions = plan.actions.filter((action) => action.category === category);
+      if (actions.length === 0) continue;
+
+      lines.push(`[${category}]`);
+      for (const action of actions) {
+        lines.push(`  ${action.title}`);
+        lines.push(...action.steps.map((step) => `    ${formatStep(step).replace(/\n/g, '\n    ')}`));
+      }
+    }
+
+    const stepCount = plan.actions.reduce((count, action) => count + action.steps.length, 0);
+    lines.push('', `Plan: ${plan.actions.length} action(s), ${stepCount} step(s)`);
+
+    return lines.join('\n');
+  }
+
+  export function save(plan: Plan, filePath: string) {
+    FileLib.Directory.create(path.dirname(filePath));
+    fs.writeFileSync(filePath, JSON.stringify(plan, null, 2));
+  }
+
+  export function load(filePath: string): Plan {
+    if (!FileLib.isFile(filePath)) {
+      throw new Error(`Plan file not found: ${filePath}`);
+    }
+
+    const plan = JSON.parse(FileLib.File.read(filePath)) as Plan;
+    if (!Array.isArray(plan.actions) || typeof plan.preconditions !== 'object') {
+      throw new Error(`Invalid plan file: ${filePath}`);
+    }
+    return plan;
+  }
+}
@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import { SECRET_EXTENSION } from './constants';
+import { FileLib } from './file';
+import { IgnoreLib } from './ignore';
+
+export type ScanRuleId = 'private-key' | 'aws-access-key' | 'github-token' | 'openai-key' | 'password' | 'high-entropy';
+
+interface ScanRule {
+  id: ScanRuleId;
+  label: string;
+  /** First capture group, or the whole match, is the leaked value */
+  regex: RegExp;
+}
+
+/**
+ * A line added by the staged changes that looks like a secret
+ * @example { file: 'debian/symlinks/__home__/.npmrc', line: 1, rule: 'github-token', value: 'ghp_…' }
+ */
+export interface ScanFinding {
+  /** Path relative to the repository */
+  file: string;
+  line: number;
+  rule: ScanRuleId;
+  /** Redacted, the report must not leak what it found */
+  value: string;
+}
+
+/** Most specific first, a line is reported once, for the first rule it matches */
+const RULES: ScanRule[] = [
+  { id: 'private-key', label: 'Private key', regex: /-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----/ },
+  { id: 'aws-access-key', label: 'AWS access key', regex: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/ },
+  { id: 'github-token', label: 'GitHub token', regex: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/ },
+  { id: 'openai-key', label: 'API key', regex: /\b(sk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,})/ },
+  // Template variables and shell expansions are where the password should be, not the password itself
+  {
+    id: 'password',
+    label: 'Password',
+    regex: /\b(?:password|passwd|pwd)["']?\s*[=:]\s*["']?((?!\$|\{\{|<)[^\s"',;]{4,})/i,
+  },
+];
+
+/** Shortest token checked for entropy, and the bits per character above which it looks random */
+const ENTROPY_MIN_LENGTH = 32;
+const ENTROPY_THRESHOLD = 4.5;
+const TOKEN_PATTERN = /[A-Za-z0-9+/=_-]{32,}/g;
+
+export namespace ScanLib {
+  /**
+   * Lines added by a `git diff -U0` output, by file
+   * @returns Added lines with their number in the new version of each file
+   */
+  export function parseDiff(diff: string): Array<{ file: string; line: number; text: string }> {
+    const added: Array<{ file: string; line: number; text: string }> = [];
+    let file: string | null = null;
+    let line = 0;
+    // Between `diff --git` and the first hunk, where an added line like `+++ x` is a file header
+    let isHeader = false;
+
+    for (const row of diff.split('\n')) {
+      if (row.startsWith('diff --git ')) {
+        isHeader = true;
+        file = null;
+      } else if (isHeader && row.startsWith('+++ ')) {
+        // Deleted files have no new version
+        file = row === '+++ /dev/null' ? null : row.slice(6);
+      } else if (row.startsWith('@@')) {
+        isHeader = false;
+        line = Number(/\+(\d+)/.exec(row)?.[1] ?? 0);
+      } else if (!isHeader && row.startsWith('+') && file) {
+        added.push({ file, line, text: row.slice(1) });
+        line++;
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Check lines added by the staged changes, encrypted secrets are skipped
+   * @param allowlist - Entries of `.dotsxallow`, see isAllowed
+   */
+  export function scanDiff(diff: string, allowlist: string[] = []): ScanFinding[] {
+    const findings: ScanFinding[] = [];
+
+    for (const { file, line, text } of parseDiff(diff)) {
+      if (file.endsWith(SECRET_EXTENSION)) continue;
+
+      const finding = scanLine(text);
+      if (!finding) continue;
+      if (isAllowed(file, finding.rule, allowlist)) continue;
+      findings.push({ file, line, ...finding });
+    }
+
+    return findings;
+  }
+
+  export function scanLine(text: string): Pick<ScanFinding, 'rule' | 'value'> | null {
+    for (const rule of RULES) {
+      const match = rule.regex.exec(text);
+      if (match) return { rule: rule.id, value: redact(match[1] ?? match[0]) };
+    }
+
+    for (const token of text.match(TOKEN_PATTERN) ?? []) {
+      // Words and paths have letters only, or a low entropy
+      if (/[0-9]/.test(token) && /[A-Za-z]/.test(token) && getEntropy(token) >= ENTROPY_THRESHOLD) {
+        return { rule: 'high-entropy', value: redact(token) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Shannon entropy, in bits per character
+   * @example getEntropy('aaaa') // 0
+   */
+  export function getEntropy(value: string): number {
+    if (value.length < ENTROPY_MIN_LENGTH) return 0;
+
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / value.length;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy;
+  }
+
+  /**
+   * Entries are gitignore-style patterns relative to the repository, optionally restricted to one rule
+   * @example isAllowed('debian/symlinks/__home__/.npmrc', 'password', ['/debian/symlinks/__home__/.npmrc:password']) // true
+   */
+  export function isAllowed(file: string, rule: ScanRuleId, allowlist: string[]): boolean {
+    return allowlist.some((entry) => {
+      const separator = entry.lastIndexOf(':');
+      const entryRule = entry.slice(separator + 1);
+      const isRestricted = separator > 0 && (entryRule === 'high-entropy' || RULES.some((r) => r.id === entryRule));
+      if (isRestricted && entryRule !== rule) return false;
+
+      return IgnoreLib.isIgnored(file, IgnoreLib.parse([isRestricted ? entry.slice(0, separator) : entry]));
+    });
+  }
+
+  /**
+   * Allow the rules a file was reported for, the file stays checked for any other kind of secret
+   */
+  export function allow(allowPath: string, findings: ScanFinding[]) {
+    const current = FileLib.isFile(allowPath) ? FileLib.File.read(allowPath) : '';
+    const entries = [...new Set(findings.map((finding) => `/${finding.file}:${finding.rule}`))].filter(
+      (entry) => !current.split('\n').includes(entry),
+    );
+    if (entries.length === 0) return;
+
+    const separator = current && !current.endsWith('\n') ? '\n' : '';
+    fs.appendFileSync(allowPath, `${separator}${entries.join('\n')}\n`);
+  }
+
+  /**
+   * @example format(findings) // '  debian/symlinks/__home__/.npmrc:1  GitHub token (ghp_…)'
+   */
+  export function format(findings: ScanFinding[]): string {
+    return findings.map(({ file, line, rule, value }) => `  ${file}:${line}  ${getLabel(rule)} (${value})`).join('\n');
+  }
+
+  export function getLabel(rule: ScanRuleId): string {
+    return RULES.find((r) => r.id === rule)?.label ?? 'High-entropy string';
+  }
+
+  function redact(value: string): string {
+    return value.length > 8 ? `${value.slice(0, 4)}…` : '…';
+  }
+}
@@ -0,0 +1,146 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { resolveDotsxKeyPath, SECRET_EXTENSION } from './constants';
+import { FileLib } from './file';
+
+/** Where the key comes from: `DOTSX_PASSPHRASE`, or a random keyfile at `~/.dotsx-key` */
+export type SecretKeySource = 'passphrase' | 'keyfile';
+
+export interface SecretKey {
+  source: SecretKeySource;
+  secret: string;
+}
+
+/**
+ * Content of a `*.dotsx.enc` file, AES-256-GCM with a key derived by scrypt
+ * @example { version: 1, source: 'keyfile', salt: '...', iv: '...', tag: '...', data: '...' }
+ */
+interface EncryptedFile {
+  version: 1;
+  /** Key needed to decrypt, to tell the user which one is missing */
+  source: SecretKeySource;
+  /** Base64 values */
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+export namespace SecretLib {
+  export function isSecret(dotsxPath: string): boolean {
+    return dotsxPath.endsWith(SECRET_EXTENSION);
+  }
+
+  /**
+   * @example toSecretPath('/home/user/.dotsx/debian/symlinks/__home__/.npmrc') // '.../__home__/.npmrc.dotsx.enc'
+   */
+  export function toSecretPath(dotsxPath: string): string {
+    return isSecret(dotsxPath) ? dotsxPath : `${dotsxPath}${SECRET_EXTENSION}`;
+  }
+
+  /**
+   * @example toDecryptedPath('/home/user/.npmrc.dotsx.enc') // '/home/user/.npmrc'
+   */
+  export function toDecryptedPath(secretPath: string): string {
+    return isSecret(secretPath) ? secretPath.slice(0, -SECRET_EXTENSION.length) : secretPath;
+  }
+
+  /**
+   * The key of this machine, `DOTSX_PASSPHRASE` winning over the keyfile
+   * @returns null if neither is set
+   */
+  export function resolveKey(): SecretKey | null {
+    if (process.env.DOTSX_PASSPHRASE) return { source: 'passphrase', secret: process.env.DOTSX_PASSPHRASE };
+
+    const keyPath = resolveDotsxKeyPath();
+    if (FileLib.isFile(keyPath)) return { source: 'keyfile', secret: FileLib.File.read(keyPath).trim() };
+    return null;
+  }
+
+  export function requireKey(): SecretKey {
+    const key = resolveKey();
+    if (!key) {
+      throw new Error(`No secret key, set DOTSX_PASSPHRASE or copy the keyfile to ${resolveDotsxKeyPath()}`);
+    }
+    return key;
+  }
+
+  export function generateKey(): SecretKey {
+    return { source: 'keyfile', secret: randomBytes(32).toString('base64') };
+  }
+
+  /**
+   * Write a keyfile readable by the current user only
+   * @param overwrite - Refused by default, a lost key makes every secret unreadable
+   */
+  export function saveKeyfile(key: SecretKey, keyPath = resolveDotsxKeyPath(), overwrite = false) {
+    if (FileLib.isExists(keyPath) && !overwrite) {
+      throw new Error(`Keyfile already exists: ${keyPath}`);
+    }
+
+    FileLib.Directory.create(path.dirname(keyPath));
+    fs.writeFileSync(keyPath, `${key.secret}\n`, { mode: 0o600 });
+    fs.chmodSync(keyPath, 0o600);
+  }
+
+  export function encrypt(plaintext: Buffer, key: SecretKey): string {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, deriveKey(key, salt), iv);
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    const file: EncryptedFile = {
+      version: 1,
+      source: key.source,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    return `${JSON.stringify(file, null, 2)}\n`;
+  }
+
+  export function decrypt(content: string, key: SecretKey): Buffer {
+    let file: EncryptedFile;
+    try {
+      file = JSON.parse(content) as EncryptedFile;
+    } catch {
+      throw new Error('Not a dotsx encrypted file');
+    }
+    if (file.version !== 1) {
+      throw new Error(`Unsupported encrypted file version: ${file.version}`);
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, deriveKey(key, fromBase64(file.salt)), fromBase64(file.iv));
+      decipher.setAuthTag(fromBase64(file.tag));
+      return Buffer.concat([decipher.update(fromBase64(file.data)), decipher.final()]);
+    } catch {
+      // GCM authentication fails the same way for a wrong key and for tampered content
+      throw new Error(`Wrong ${file.source}, or the file was modified`);
+    }
+  }
+
+  /**
+   * @returns Decrypted content, as bytes since secrets like keystores are not always text
+   */
+  export function read(secretPath: string, key: SecretKey): Buffer {
+    return decrypt(FileLib.File.read(secretPath), key);
+  }
+
+  export function write(secretPath: string, plaintext: Buffer, key: SecretKey) {
+    FileLib.Directory.create(path.dirname(secretPath));
+    fs.writeFileSync(secretPath, encrypt(plaintext, key));
+  }
+
+  function deriveKey(key: SecretKey, salt: Buffer): Buffer {
+    return scryptSync(key.secret, salt, 32);
+  }
+
+  function fromBase64(value: string): Buffer {
+    return Buffer.from(value, 'base64');
+  }
+}
@@ -0,0 +1,93 @@
+import { resolveDotsxStatePath } from './constants';
+import { FileLib } from './file';
+
+/**
+ * @example { written: { '/home/user/.gitconfig': 'file:3f2a9c0d1e4b5a67' }, disabledGroups: ['cursor'], keptGroups: [], appliedPackages: { apt: ['git'] } }
+ */
+export interface DotsxState {
+  /** State of each path right after dotsx last wrote it, see PlanLib.getPathState */
+  written: Record<string, string>;
+  /** Apps, by suggestion name, whose links are left alone on this machine */
+  disabledGroups: string[];
+  /** Uninstalled apps, by suggestion name, whose links were left as is, not asked about again while uninstalled */
+  keptGroups: string[];
+  /** Package lists by package manager name, as of the last `dotsx apply`, to tell the packages dropped since */
+  appliedPackages: Record<string, string[]>;
+}
+
+const EMPTY_STATE: DotsxState = { written: {}, disabledGroups: [], keptGroups: [], appliedPackages: {} };
+
+export namespace StateLib {
+  export function read(): DotsxState {
+    const statePath = resolveDotsxStatePath();
+    if (!FileLib.isFile(statePath)) return EMPTY_STATE;
+
+    try {
+      const state = JSON.parse(FileLib.File.read(statePath)) as Partial<DotsxState>;
+      return { ...EMPTY_STATE, ...state };
+    } catch {
+      // Mostly a cache of what dotsx wrote, a corrupt file must not block every command
+      return EMPTY_STATE;
+    }
+  }
+
+  export function write(state: DotsxState) {
+    const statePath = resolveDotsxStatePath();
+    FileLib.File.create(statePath);
+    FileLib.File.write(statePath, `${JSON.stringify(state, null, 2)}\n`);
+  }
+
+  export function getWritten(p: string): string | undefined {
+    return read().written[p];
+  }
+
+  /**
+   * Remember the state of a path dotsx just wrote, to detect later hand edits
+   */
+  export function setWritten(p: string, pathState: string) {
+    const state = read();
+    write({ ...state, written: { ...state.written, [p]: pathState } });
+  }
+
+  export function getDisabledGroups(): string[] {
+    return read().disabledGroups;
+  }
+
+  /**
+   * Disable or re-enable the links of an app on this machine
+   * @param group - Suggestion name, e.g. 'cursor'
+   */
+  export function setGroupDisabled(group: string, disabled: boolean) {
+    const state = read();
+    const others = state.disabledGroups.filter((g) => g !== group);
+    write({ ...state, disabledGroups: disabled ? [...others, group] : others });
+  }
+
+  export function getKeptGroups(): string[] {
+    return read().keptGroups;
+  }
+
+  /**
+   * Remember the uninstalled apps whose links are left as is on this machine
+   * @param groups - Suggestion names, e.g. ['cursor']
+   */
+  export function setKeptGroups(groups: string[]) {
+    write({ ...read(), keptGroups: groups });
+  }
+
+  /**
+   * Packages of a package manager's list as of the last `dotsx apply`, none before the first one
+   */
+  export function getAppliedPackages(packageManager: string): string[] {
+    return read().appliedPackages[packageManager] ?? [];
+  }
+
+  /**
+   * Remember the package lists a plan was applied with
+   * @param lists - Packages by package manager name, e.g. { apt: ['git', 'curl'] }
+   */
+  export function setAppliedPackages(lists: Record<string, string[]>) {
+    const state = read();
+    write({ ...state, appliedPackages: { ...state.appliedPackages, ...lists } });
+  }
+}
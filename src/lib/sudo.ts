@@ -0,0 +1,164 @@
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { log } from '@clack/prompts';
+import type { PlanStep } from './plan';
+
+/** POSIX portable user and group names, or numeric ids, never anything a shell would interpret */
+const NAME_PATTERN = /^[A-Za-z0-9._][A-Za-z0-9._-]*$/;
+
+export namespace SudoLib {
+  export const isRoot = () => process.getuid?.() === 0;
+
+  /**
+   * Quote a string for `sh`
+   * @example quote("it's") // 'it'\''s'
+   */
+  export function quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+
+  /**
+   * A path can be created or deleted by the current user if its nearest existing parent is writable
+   */
+  export function canWrite(p: string): boolean {
+    let dir = path.dirname(p);
+    while (!fs.existsSync(dir) && dir !== path.dirname(dir)) dir = path.dirname(dir);
+    return isAccessible(dir, fs.constants.W_OK);
+  }
+
+  /**
+   * A path can be read by the current user if it, and everything inside a directory, is readable
+   */
+  export function canRead(p: string): boolean {
+    if (!fs.existsSync(p)) return true;
+    if (!fs.lstatSync(p).isDirectory()) return isAccessible(p, fs.constants.R_OK);
+    if (!isAccessible(p, fs.constants.R_OK | fs.constants.X_OK)) return false;
+    return fs.readdirSync(p).every((item) => canRead(path.join(p, item)));
+  }
+
+  /**
+   * The attributes of a path can be read by the current user if its parent directories can be searched,
+   * e.g. not `/root/.bashrc`
+   */
+  export function canReach(p: string): boolean {
+    return isAccessible(path.dirname(p), fs.constants.X_OK);
+  }
+
+  /**
+   * Whether the current user lacks the permissions a step needs, e.g. to replace `/etc/hosts`
+   */
+  export function needsElevation(step: PlanStep): boolean {
+    if (isRoot()) return false;
+
+    switch (step.op) {
+      case 'copy':
+        return !canRead(step.from) || !canWrite(step.to);
+      case 'remove':
+      case 'symlink':
+        return !canWrite(step.path);
+      case 'append':
+      case 'write':
+        return fs.existsSync(step.path) ? !isAccessible(step.path, fs.constants.W_OK) : !canWrite(step.path);
+      case 'chmod':
+        // A missing path is created by an elevated step before it, as root
+        return !fs.existsSync(step.path) || fs.statSync(step.path).uid !== process.getuid?.();
+      case 'chown':
+        return true;
+      case 'exec':
+        // Commands that need root carry their own sudo, like package installs
+        return false;
+    }
+  }
+
+  /**
+   * Translate a step to a shell command run as root
+   * @example toCommand({ op: 'remove', path: '/etc/hosts' }) // "rm -rf '/etc/hosts'"
+   */
+  export function toCommand(step: PlanStep): string {
+    switch (step.op) {
+      case 'copy': {
+        if (step.ignore?.length) {
+          throw new Error(`Ignore patterns are not supported with sudo: ${step.from}`);
+        }
+
+        const copy =
+          fs.existsSync(step.from) && fs.statSync(step.from).isDirectory()
+            ? `mkdir -p ${quote(step.to)} && cp -R ${quote(`${step.from}/.`)} ${quote(step.to)}`
+            : `mkdir -p ${quote(path.dirname(step.to))} && cp ${quote(step.from)} ${quote(step.to)}`;
+
+        // A copy into a user directory, like dotsx, must stay owned by the user
+        if (!canWrite(step.to)) return copy;
+        return `${copy} && chown -R ${process.getuid?.()}:${process.getgid?.()} ${quote(step.to)}`;
+      }
+      case 'remove':
+        return `rm -rf ${quote(step.path)}`;
+      case 'symlink':
+        return `mkdir -p ${quote(path.dirname(step.path))} && ln -s ${quote(step.target)} ${quote(step.path)}`;
+      case 'append':
+        return `printf '%s\\n' ${quote(step.content)} >> ${quote(step.path)}`;
+      case 'write': {
+        // Bytes a shell string cannot hold, like NUL, go through base64
+        const content =
+          typeof step.content === 'string'
+            ? `printf '%s' ${quote(step.content)}`
+            : `printf '%s' ${quote(step.content.toString('base64'))} | base64 -d`;
+        const write = `mkdir -p ${quote(path.dirname(step.path))} && ${content} > ${quote(step.path)}`;
+        return step.mode === undefined
+          ? write
+          : `umask 077 && ${write} && chmod ${step.mode.toString(8)} ${quote(step.path)}`;
+      }
+      case 'chmod':
+        return `chmod ${step.mode.toString(8)} ${quote(step.path)}`;
+      case 'chown': {
+        for (const name of [step.owner, step.group ?? '']) {
+          if (name && !NAME_PATTERN.test(name)) throw new Error(`Invalid user or group name: ${name}`);
+        }
+        const owner = step.group ? `${step.owner}:${step.group}` : step.owner;
+        return `chown ${quote(owner)} ${quote(step.path)}`;
+      }
+      case 'exec':
+        return step.command;
+    }
+  }
+
+  /**
+   * Shell script running steps in order, stopping at the first failure
+   */
+  export function toScript(steps: PlanStep[]): string {
+    return ['set -e', ...steps.map(toCommand)].join('\n');
+  }
+
+  /**
+   * Run steps as root in a single `sudo` session, prompting for the password at most once
+   */
+  export function run(steps: PlanStep[]) {
+    if (steps.length === 0) return;
+
+    log.info(`sudo is needed for ${[...new Set(steps.map(getPath))].join(', ')}`);
+    // Read from stdin, as an argument a large write would exceed the system limit (E2BIG). sudo asks on the tty
+    execSync('sudo sh -s', { input: toScript(steps), stdio: ['pipe', 'inherit', 'inherit'] });
+  }
+
+  /**
+   * Run a command reading what the current user cannot as root, prompting for the password if needed
+   * @returns The command output
+   */
+  export function output(command: string): string {
+    return execSync(`sudo sh -c ${quote(command)}`, { stdio: ['inherit', 'pipe', 'inherit'] }).toString();
+  }
+
+  function getPath(step: PlanStep): string {
+    if (step.op === 'exec') return step.command;
+    return step.op === 'copy' ? step.to : step.path;
+  }
+
+  function isAccessible(p: string, mode: number): boolean {
+    try {
+      fs.accessSync(p, mode);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,17 +1,139 @@
-import { spinner } from '@clack/prompts';
-import { type Suggestion, suggestions } from '@/suggestions';
+import fs from 'node:fs';
+import path from 'node:path';
+import { styleText } from 'node:util';
+import { log, spinner } from '@clack/prompts';
+import { SUGGESTION_TYPES, type Suggestion, suggestions } from '@/suggestions';
 import type { KnownLinuxDistro, OsFamily } from '@/types';
+import { resolveDotsxSuggestionsPath } from './constants';
 import { FileLib } from './file';
 import type { OsInfo } from './system';
 
 export interface FoundPath {
   suggestedPath: string;
   type: 'file' | 'directory';
+  /** Shown next to the path in the prompt */
+  hint?: string;
 }
 
 type ExistingPaths = Record<string, FoundPath[]>;
 
+/** Suggestion of this OS with none of its paths on the system */
+export interface MissingSuggestion {
+  name: string;
+  hint: string;
+  paths: string[];
+}
+
+/** Option of the path picker, a null value stands for a missing suggestion that cannot be linked */
+export interface GroupedOption<T> {
+  value: T | null;
+  label: string;
+  hint?: string;
+}
+
+export interface LoadedSuggestions {
+  suggestions: Suggestion[];
+  /** One message per invalid suggestion, left out of the valid ones */
+  errors: string[];
+}
+
+type OsKey = OsFamily | KnownLinuxDistro;
+
+const OS_FAMILIES: readonly string[] = ['linux', 'windows', 'macos', 'bsd', 'unix', 'unknown'] satisfies OsFamily[];
+
+/** Family of an OS key, every known distro being a Linux one */
+const getFamily = (os: OsKey): OsFamily => (OS_FAMILIES.includes(os) ? (os as OsFamily) : 'linux');
+
+/** Where desktop entries or app bundles of installed apps live, apps cannot be told apart elsewhere */
+const DESKTOP_DIRS: Partial<Record<OsFamily, string[]>> = {
+  linux: [
+    '$XDG_DATA_HOME/applications',
+    '/usr/share/applications',
+    '/usr/local/share/applications',
+    '/var/lib/flatpak/exports/share/applications',
+    '/var/lib/snapd/desktop/applications',
+  ],
+  macos: ['/Applications', '~/Applications'],
+};
+
+/** Last suggestions file read, by path, modification time and size, checked for every link of a run */
+let lastRead: { key: string; loaded: LoadedSuggestions } | null = null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Why a user-defined suggestion is invalid
+ * @returns null if it has the shape of a built-in one
+ */
+const getSuggestionError = (value: unknown): string | null => {
+  if (!isRecord(value)) return 'not an object';
+  if (typeof value.name !== 'string' || !/^[\w-]+$/.test(value.name)) {
+    return 'name must be letters, digits, - or _';
+  }
+  if (!SUGGESTION_TYPES.includes(value.type as Suggestion['type'])) {
+    return `type must be one of ${SUGGESTION_TYPES.join(', ')}`;
+  }
+  if (typeof value.hint !== 'string') return 'hint must be a string';
+  if (!isRecord(value.pathsToCheck) || !Object.values(value.pathsToCheck).every(isStringArray)) {
+    return 'pathsToCheck must map OS names to lists of paths';
+  }
+  if (value.shareWith !== undefined && typeof value.shareWith !== 'string') return 'shareWith must be a string';
+  if (
+    value.appDirs !== undefined &&
+    (!isRecord(value.appDirs) || !Object.values(value.appDirs).every((dir) => typeof dir === 'string'))
+  ) {
+    return 'appDirs must map OS names to paths';
+  }
+  if (value.binaries !== undefined && !isStringArray(value.binaries)) return 'binaries must be a list of names';
+  if (value.desktopEntries !== undefined && !isStringArray(value.desktopEntries)) {
+    return 'desktopEntries must be a list of names';
+  }
+  return null;
+};
+
 export namespace SuggestionLib {
+  /**
+   * Paths of a suggestion on an OS, the distro ones replacing the family ones, or extending them where listing `...`
+   * @example getPathsToCheck({ pathsToCheck: { linux: ['~/.a'], nixos: ['~/.b', '...'] } }, 'nixos') // ['~/.b', '~/.a']
+   * @returns undefined if the suggestion has no paths on this OS
+   */
+  export function getPathsToCheck(suggestion: Suggestion, os: OsKey): string[] | undefined {
+    const familyPaths = suggestion.pathsToCheck[getFamily(os)];
+    const distroPaths = getFamily(os) === os ? undefined : suggestion.pathsToCheck[os];
+    if (!distroPaths) return familyPaths;
+    return distroPaths.flatMap((p) => (p === '...' ? (familyPaths ?? []) : [p]));
+  }
+
+  /**
+   * Whether the app of a suggestion is installed: one of its binaries is in PATH, or it has a desktop entry
+   * @returns true where dotsx cannot tell, e.g. on Windows
+   */
+  export function isInstalled(suggestion: Suggestion, os: OsKey): boolean {
+    const desktopDirs = DESKTOP_DIRS[getFamily(os)];
+    if (!desktopDirs) return true;
+
+    const pathDirs = (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+    const binaries = suggestion.binaries ?? [suggestion.name];
+    if (binaries.some((binary) => pathDirs.some((dir) => FileLib.File.isExecutable(path.join(dir, binary))))) {
+      return true;
+    }
+
+    return (suggestion.desktopEntries ?? []).some((entry) =>
+      desktopDirs.some((dir) => FileLib.isExists(path.join(FileLib.expand(dir), entry))),
+    );
+  }
+
+  /**
+   * Directory of an app on an OS, the distro one taking precedence over the family one
+   */
+  export function getAppDir(suggestion: Suggestion, os: OsKey): string | undefined {
+    return suggestion.appDirs?.[os] ?? suggestion.appDirs?.[getFamily(os)];
+  }
+
   /**
    * Scan system for existing suggested paths based on current OS
    */
@@ -23,7 +145,7 @@ export namespace SuggestionLib {
 
     try {
       availableSuggestions.forEach((suggestion) => {
-        const paths = suggestion.pathsToCheck[osInfo.family];
+        const paths = getPathsToCheck(suggestion, osInfo.distro || osInfo.family);
         if (!paths) return;
 
         const foundPaths: FoundPath[] = [];
@@ -51,21 +173,89 @@ export namespace SuggestionLib {
     }
   }
 
+  /**
+   * Validate user-defined suggestions, a JSON array of objects shaped like the built-in ones
+   */
+  export function parseSuggestions(content: string): LoadedSuggestions {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return { suggestions: [], errors: [error instanceof Error ? error.message : String(error)] };
+    }
+    if (!Array.isArray(parsed)) return { suggestions: [], errors: ['expected an array of suggestions'] };
+
+    const loaded: LoadedSuggestions = { suggestions: [], errors: [] };
+    parsed.forEach((value, index) => {
+      const error = getSuggestionError(value);
+      if (!error) loaded.suggestions.push(value as Suggestion);
+      else
+        loaded.errors.push(
+          `${isRecord(value) && typeof value.name === 'string' ? value.name : `#${index + 1}`}: ${error}`,
+        );
+    });
+    return loaded;
+  }
+
+  /**
+   * Read the suggestions of `~/.dotsx/suggestions.json`, a missing or empty file has none
+   */
+  export function readUserSuggestions(filePath = resolveDotsxSuggestionsPath()): LoadedSuggestions {
+    if (!FileLib.isFile(filePath)) return { suggestions: [], errors: [] };
+
+    const stats = fs.statSync(filePath);
+    const key = `${filePath}:${stats.mtimeMs}:${stats.size}`;
+    if (lastRead?.key !== key) {
+      const content = FileLib.File.read(filePath).trim();
+      lastRead = { key, loaded: content ? parseSuggestions(content) : { suggestions: [], errors: [] } };
+    }
+    return lastRead.loaded;
+  }
+
+  /**
+   * Warn about the user-defined suggestions left out because they are invalid
+   */
+  export function warnInvalidSuggestions() {
+    for (const error of readUserSuggestions().errors) {
+      log.warn(`Skipped in ${path.basename(resolveDotsxSuggestionsPath())}: ${error}`);
+    }
+  }
+
+  /**
+   * Built-in suggestions merged with the valid user-defined ones, which replace built-ins of the same name
+   */
+  export function getSuggestions(): Suggestion[] {
+    const userSuggestions = readUserSuggestions().suggestions;
+    const builtIns = Object.values(suggestions).filter((s) => !userSuggestions.some((u) => u.name === s.name));
+    return [...builtIns, ...userSuggestions];
+  }
+
   /**
    * Get all suggestions available for current OS
    */
-  export function getSuggestionsByOs(os: OsFamily | KnownLinuxDistro) {
-    return Object.values(suggestions).filter((suggestion) => suggestion.pathsToCheck[os]);
+  export function getSuggestionsByOs(os: OsKey) {
+    return getSuggestions().filter((suggestion) => getPathsToCheck(suggestion, os));
   }
 
   /**
    * Get all existing suggested paths for current OS
    */
   export function getAllExistingPaths(osInfo: OsInfo): Record<string, FoundPath[]> {
-    const availableSuggestions = getSuggestionsByOs(osInfo.family);
+    const availableSuggestions = getSuggestionsByOs(osInfo.distro || osInfo.family);
     return getExistingSuggestedPaths(availableSuggestions, osInfo);
   }
 
+  /**
+   * Get the suggestions of this OS with none of their paths on the system
+   * @param existingPaths - Existing suggested paths, by suggestion name
+   */
+  export function getMissingSuggestions(osInfo: OsInfo, existingPaths: ExistingPaths): MissingSuggestion[] {
+    const os = osInfo.distro || osInfo.family;
+    return getSuggestionsByOs(os)
+      .filter((s) => !existingPaths[s.name])
+      .map((s) => ({ name: s.name, hint: s.hint, paths: getPathsToCheck(s, os) ?? [] }));
+  }
+
   /**
    * Filter out paths that are already symlinked
    * @param existingPaths - All existing suggested paths
@@ -88,24 +278,121 @@ export namespace SuggestionLib {
     return filtered;
   }
 
+  /**
+   * Group system paths by the suggestion they belong to, or whose app directory holds them,
+   * paths matching no suggestion go to 'other'
+   * @example groupBySuggestion(['/home/user/.zshrc', '/etc/hosts'], 'linux') // { zsh: ['/home/user/.zshrc'], other: ['/etc/hosts'] }
+   */
+  export function groupBySuggestion(systemPaths: string[], os: OsKey): Record<string, string[]> {
+    const availableSuggestions = getSuggestionsByOs(os);
+    const groups: Record<string, string[]> = {};
+
+    for (const systemPath of systemPaths) {
+      const suggestion = availableSuggestions.find((s) => {
+        const appDir = getAppDir(s, os);
+        return [...(getPathsToCheck(s, os) ?? []), ...(appDir ? [appDir] : [])].some((suggestedPath) => {
+          const expandedPath = FileLib.expand(suggestedPath);
+          return systemPath === expandedPath || systemPath.startsWith(`${expandedPath}/`);
+        });
+      });
+
+      const name = suggestion?.name ?? 'other';
+      groups[name] = [...(groups[name] ?? []), systemPath];
+    }
+
+    return groups;
+  }
+
+  /**
+   * Path of the suggestion shared with, at the same position as a suggested path
+   * @example getSharedPath('/home/user/.config/Cursor/User/settings.json', 'linux') // '/home/user/.config/Code/User/settings.json'
+   * @returns null if the path belongs to no suggestion sharing its files
+   */
+  export function getSharedPath(systemPath: string, os: OsKey): string | null {
+    for (const suggestion of getSuggestionsByOs(os)) {
+      const index = getPathsToCheck(suggestion, os)?.findIndex((p) => FileLib.expand(p) === systemPath) ?? -1;
+      if (index === -1 || !suggestion.shareWith) continue;
+
+      const shared = getSuggestions().find((s) => s.name === suggestion.shareWith);
+      const sharedPath = shared && getPathsToCheck(shared, os)?.[index];
+      return sharedPath ? FileLib.expand(sharedPath) : null;
+    }
+    return null;
+  }
+
+  /**
+   * Whether a path is written relative to an app, e.g. `vscode:User/settings.json`
+   */
+  export function isAppPath(inputPath: string): boolean {
+    const [, name] = inputPath.match(/^([\w-]+):/) ?? [];
+    return getSuggestions().some((s) => s.name === name && s.appDirs);
+  }
+
+  /**
+   * Resolve an app path to the location of the app on an OS
+   * @example resolveAppPath('vscode:User/settings.json', 'macos') // '/Users/me/Library/Application Support/Code/User/settings.json'
+   * @returns null if the app has no known location on this OS
+   */
+  export function resolveAppPath(appPath: string, os: OsKey): string | null {
+    const [name = '', ...rest] = appPath.split(':');
+    const suggestion = getSuggestions().find((s) => s.name === name);
+    const appDir = suggestion && getAppDir(suggestion, os);
+    return appDir ? path.resolve(FileLib.expand(appDir), rest.join(':')) : null;
+  }
+
+  /**
+   * App path of a system path inside the directory of a known app on an OS
+   * @example toAppPath('/home/me/.config/Code/User/settings.json', 'linux') // 'vscode:User/settings.json'
+   * @returns null outside of every app directory
+   */
+  export function toAppPath(systemPath: string, os: OsKey): string | null {
+    for (const suggestion of getSuggestionsByOs(os)) {
+      const appDir = getAppDir(suggestion, os);
+      if (!appDir) continue;
+
+      const relPath = path.relative(FileLib.expand(appDir), systemPath);
+      if (relPath && !relPath.startsWith('..') && !path.isAbsolute(relPath)) return `${suggestion.name}:${relPath}`;
+    }
+    return null;
+  }
+
+  /**
+   * Where the content of an app path is stored, the same for every OS
+   * @example toAppDotsxPath('vscode:User/settings.json', '/home/me/.dotsx/common/symlinks') // '/home/me/.dotsx/common/symlinks/__app__/vscode/User/settings.json'
+   */
+  export function toAppDotsxPath(appPath: string, symlinksDir: string): string {
+    const [name = '', ...rest] = appPath.split(':');
+    return path.resolve(symlinksDir, '__app__', name, rest.join(':'));
+  }
+
   /**
    * Build grouped options for groupMultiselect prompt
    * @param existingPaths - Paths grouped by suggestion name
    * @param valueMapper - Optional function to transform the value (default: returns path string)
+   * @param missing - Suggestions listed after the found ones, greyed out with their hint and a null value
    */
   export function buildGroupedOptions<T = string>(
     existingPaths: ExistingPaths,
     valueMapper?: (path: FoundPath) => T,
-  ): Record<string, Array<{ value: T; label: string }>> {
-    const options: Record<string, Array<{ value: T; label: string }>> = {};
+    missing: MissingSuggestion[] = [],
+  ): Record<string, GroupedOption<T>[]> {
+    const options: Record<string, GroupedOption<T>[]> = {};
 
     Object.entries(existingPaths).forEach(([suggestionName, paths]) => {
       options[suggestionName] = paths.map((p) => ({
         value: valueMapper ? valueMapper(p) : (p.suggestedPath as T),
         label: p.suggestedPath,
+        ...(p.hint ? { hint: p.hint } : {}),
       }));
     });
 
+    // clack has no disabled options, selecting one of these links nothing
+    for (const suggestion of missing) {
+      options[suggestion.name] = [
+        { value: null, label: styleText('dim', suggestion.paths.join(', ')), hint: suggestion.hint },
+      ];
+    }
+
     return options;
   }
 }
@@ -1,7 +1,33 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { log } from '@clack/prompts';
+import { DiffLib } from './diff';
 import { FileLib } from './file';
+import { IgnoreLib } from './ignore';
+import { type PathAttributes, PermissionLib } from './permission';
+import { PlanLib, type PlanStep } from './plan';
+import { StateLib } from './state';
+
+/** Which copy wins when the system and dotsx versions differ */
+export type ConflictSide = 'system' | 'dotsx';
+
+/**
+ * Side of a copy mode link changed since the last sync
+ * - synced: both copies are identical
+ * - system / dotsx: only this side changed, it is copied over the other one
+ * - both: both sides changed, a version to keep must be chosen
+ */
+export type CopyChange = 'synced' | 'system' | 'dotsx' | 'both';
+
+/**
+ * How a symlinked system path drifted from its dotsx path, e.g. after an editor or installer replaced the symlink
+ * - linked: the symlink is correct
+ * - missing: nothing at the system path, a dangling symlink included
+ * - changed: a real file or directory whose content differs from dotsx
+ * - identical: a real file or directory with the dotsx content
+ * - elsewhere: a symlink to another path
+ */
+export type LinkDrift = 'linked' | 'missing' | 'changed' | 'identical' | 'elsewhere';
 
 export namespace SymlinkLib {
   export function getFileSymlinkPath(inputPath: string): string {
@@ -17,12 +43,35 @@ export namespace SymlinkLib {
   }
 
   /**
-   * Creates a safe symlink with backup.
-   * @param dotsxOsPath - dotsx OS path (e.g., /home/user/.dotsx/ubuntu/symlinks)
+   * Classify what is at the system path of a symlink mode link
+   * @param ignore - Patterns of directory files not compared
+   */
+  export function getDrift(systemPath: string, dotsxPath: string, ignore: string[] = []): LinkDrift {
+    if (isSymLinkContentCorrect(dotsxPath, systemPath)) return 'linked';
+
+    const systemState = PlanLib.getPathState(systemPath);
+    if (systemState === 'missing' || !FileLib.isExists(systemPath)) return 'missing';
+    if (systemState.startsWith('symlink:')) return 'elsewhere';
+
+    // Without dotsx content to compare with, everything on the system is new
+    if (!FileLib.isExists(dotsxPath)) return 'changed';
+    return DiffLib.isSame(dotsxPath, systemPath, IgnoreLib.parse(ignore)) ? 'identical' : 'changed';
+  }
+
+  /**
+   * Compute the steps needed to symlink a system path to its dotsx path, without touching the filesystem
    * @param systemPath - System file path (e.g., /home/user/.zshrc)
    * @param dotsxPath - dotsx content path (e.g., /home/user/.dotsx/ubuntu/symlinks/__home__/.zshrc)
+   * @param keep - Version kept when both exist, the system one is moved over dotsx by default
+   * @param ignore - Gitignore-style patterns left out when a directory is moved into dotsx
+   * @returns Steps to execute, empty if the symlink is already correct
    */
-  export function safeSymlink(systemPath: string, dotsxPath: string) {
+  export function planSymlink(
+    systemPath: string,
+    dotsxPath: string,
+    keep: ConflictSide = 'system',
+    ignore: string[] = [],
+  ): PlanStep[] {
     const systemExists = FileLib.isExists(systemPath);
     const dotsxExists = FileLib.isExists(dotsxPath);
 
@@ -30,68 +79,206 @@ export namespace SymlinkLib {
       throw new Error(`Neither system path nor dotsx path exists: ${systemPath}`);
     }
 
-    if (isSymLinkContentCorrect(dotsxPath, systemPath)) {
-      log.info(`Symlink already correct: ${FileLib.display(systemPath)}`);
-      return;
+    if (dotsxPath.startsWith(`${systemPath}${path.sep}`)) {
+      throw new Error(`Cannot link ${systemPath}: it contains the dotsx path`);
     }
 
+    if (isSymLinkContentCorrect(dotsxPath, systemPath)) return [];
+
+    const steps: PlanStep[] = [];
+    let systemRemoved = false;
+
     if (systemExists) {
       let sourceToMove = systemPath;
 
       if (FileLib.isSymLink(systemPath)) {
-        try {
-          const symlinkTarget = fs.readlinkSync(systemPath);
-          const resolvedPath = path.resolve(path.dirname(systemPath), symlinkTarget);
-
-          if (FileLib.isExists(resolvedPath)) {
-            sourceToMove = resolvedPath;
-            log.info(`Following symlink to actual content: ${FileLib.display(resolvedPath)}`);
-          }
-
-          fs.unlinkSync(systemPath);
-        } catch (error) {
-          log.warning(`Could not resolve symlink ${FileLib.display(systemPath)}: ${error}`);
-          // If we can't resolve it, just delete the broken symlink
-          fs.unlinkSync(systemPath);
+        const resolvedPath = path.resolve(path.dirname(systemPath), fs.readlinkSync(systemPath));
+        if (FileLib.isExists(resolvedPath)) {
+          sourceToMove = resolvedPath;
         }
+
+        steps.push({ op: 'remove', path: systemPath });
+        systemRemoved = true;
       }
 
-      // Move content to dotsx (only if source is not already the dotsx path)
-      if (sourceToMove !== dotsxPath && FileLib.isExists(sourceToMove)) {
-        // Create parent directory for dotsx path
-        FileLib.Directory.create(path.dirname(dotsxPath));
-
-        if (FileLib.isFile(sourceToMove)) {
-          FileLib.File.copy(sourceToMove, dotsxPath);
-          FileLib.File.deleteFile(sourceToMove);
-        } else if (FileLib.isDirectory(sourceToMove)) {
-          FileLib.Directory.copy(sourceToMove, dotsxPath);
-          FileLib.Directory.deleteDirectory(sourceToMove);
-        }
+      // Move content to dotsx (only if source is not already the dotsx path, nor discarded for the dotsx version)
+      const keepDotsx = keep === 'dotsx' && dotsxExists;
+      if (sourceToMove !== dotsxPath && FileLib.isExists(sourceToMove) && !keepDotsx) {
+        // Ignored files are left out of dotsx, the removed original stays in the backup
+        const ignored = FileLib.isDirectory(sourceToMove) && ignore.length > 0 ? { ignore } : {};
+        steps.push({ op: 'copy', from: sourceToMove, to: dotsxPath, ...ignored });
+        steps.push({ op: 'remove', path: sourceToMove });
+        if (sourceToMove === systemPath) systemRemoved = true;
       }
-    } else {
+    }
+
+    // Ensure systemPath doesn't exist before creating symlink, broken symlinks included
+    if (!systemRemoved && PlanLib.getPathState(systemPath) !== 'missing') {
+      steps.push({ op: 'remove', path: systemPath });
+    }
+
+    steps.push({ op: 'symlink', target: dotsxPath, path: systemPath });
+    return steps;
+  }
+
+  /**
+   * Detect content that linking would move over a different, existing dotsx copy
+   * @returns The system content path (the symlink target if the system path is a foreign symlink), null without conflict
+   */
+  export function getConflict(systemPath: string, dotsxPath: string, ignore: string[] = []): string | null {
+    if (!FileLib.isExists(dotsxPath) || FileLib.isSymLink(dotsxPath)) return null;
+
+    const copyStep = planSymlink(systemPath, dotsxPath).find((step) => step.op === 'copy');
+    if (!copyStep || copyStep.op !== 'copy') return null;
+
+    return DiffLib.isSame(dotsxPath, copyStep.from, IgnoreLib.parse(ignore)) ? null : copyStep.from;
+  }
+
+  /**
+   * Compute the steps needed to replace a symlink with a real copy of its dotsx content
+   * @param removeFromDotsx - Also delete the content from dotsx once restored
+   * @param attributes - Mode and ownership given back to the restored copy
+   * @returns Steps to execute
+   */
+  export function planUnlink(
+    systemPath: string,
+    dotsxPath: string,
+    removeFromDotsx = false,
+    attributes?: PathAttributes,
+  ): PlanStep[] {
+    if (!FileLib.isExists(dotsxPath)) {
+      throw new Error(`Nothing to restore, dotsx path is missing: ${dotsxPath}`);
+    }
+
+    const steps: PlanStep[] = [];
+    const systemState = PlanLib.getPathState(systemPath);
+
+    if (systemState !== 'missing') {
+      // Only a symlink can be replaced, real content on the system is never overwritten
+      if (!systemState.startsWith('symlink:')) {
+        throw new Error(`${systemPath} is not a symlink, refusing to overwrite it`);
+      }
+      steps.push({ op: 'remove', path: systemPath });
+    }
+
+    steps.push({ op: 'copy', from: dotsxPath, to: systemPath });
+    // The restored copy gets the mode and owner of the dotsx copy, not those recorded
+    if (attributes) steps.push(...PermissionLib.planRestore(systemPath, attributes));
+    if (removeFromDotsx) steps.push({ op: 'remove', path: dotsxPath });
+
+    return steps;
+  }
+
+  /**
+   * Compare both copies of a copy mode link with their content at the last sync
+   */
+  export function getCopyChange(systemPath: string, dotsxPath: string): CopyChange {
+    const systemState = PlanLib.getPathState(systemPath);
+    const dotsxState = PlanLib.getPathState(dotsxPath);
+
+    if (systemState === 'missing' || systemState.startsWith('symlink:')) return 'dotsx';
+    if (dotsxState === 'missing') return 'system';
+
+    if (systemState === dotsxState) {
+      // Both sides agree, whoever wrote them: this is the new base
+      if (StateLib.getWritten(systemPath) !== systemState) StateLib.setWritten(systemPath, systemState);
+      return 'synced';
+    }
+
+    const base = StateLib.getWritten(systemPath);
+    if (base === systemState) return 'dotsx';
+    if (base === dotsxState) return 'system';
+    return 'both';
+  }
+
+  /**
+   * Compute the steps needed to sync a copy mode link in the direction of the changed side, without touching the filesystem
+   * @param keep - Version kept when both sides changed, throws if unset in that case
+   * @param attributes - Mode and ownership given to the system copy when dotsx is copied over it
+   * @returns Steps to execute, empty if both copies are identical
+   */
+  export function planCopy(
+    systemPath: string,
+    dotsxPath: string,
+    keep?: ConflictSide,
+    attributes?: PathAttributes,
+  ): PlanStep[] {
+    const systemState = PlanLib.getPathState(systemPath);
+    if (systemState === 'missing' && !FileLib.isExists(dotsxPath)) {
+      throw new Error(`Neither system path nor dotsx path exists: ${systemPath}`);
+    }
+    if (systemState.startsWith('directory:') || FileLib.isDirectory(dotsxPath)) {
+      throw new Error(`Copy mode only supports files: ${systemPath}`);
+    }
+
+    const change = getCopyChange(systemPath, dotsxPath);
+    if (change === 'synced') return [];
+    if (change === 'both' && !keep) {
+      throw new Error(
+        `${FileLib.display(systemPath)} changed on both sides since the last sync, choose which version to keep`,
+      );
+    }
+
+    if (change === 'system' || (change === 'both' && keep === 'system')) {
+      return [{ op: 'copy', from: systemPath, to: dotsxPath }];
+    }
+
+    // A symlink left from symlink mode would make the copy write through to dotsx
+    const steps: PlanStep[] = systemState.startsWith('symlink:') ? [{ op: 'remove', path: systemPath }] : [];
+    steps.push({ op: 'copy', from: dotsxPath, to: systemPath });
+    if (attributes) steps.push(...PermissionLib.planRestore(systemPath, attributes));
+    return steps;
+  }
+
+  /**
+   * Sync a copy mode link, keeping the system file as a real copy of its dotsx file
+   * @param keep - Version kept when both sides changed, required in that case
+   * @param attributes - Mode and ownership given to the system copy when dotsx is copied over it
+   */
+  export function safeCopy(systemPath: string, dotsxPath: string, keep?: ConflictSide, attributes?: PathAttributes) {
+    const steps = planCopy(systemPath, dotsxPath, keep, attributes);
+
+    if (steps.length === 0) {
+      log.info(`Copy already in sync: ${FileLib.display(systemPath)}`);
+      return;
+    }
+
+    const backup = PlanLib.executeSteps(steps, `copy ${systemPath}`);
+    if (backup) log.info(`Backup saved: ${backup.id}`);
+    StateLib.setWritten(systemPath, PlanLib.getPathState(systemPath));
+  }
+
+  /**
+   * Creates a safe symlink, moving the system content into dotsx first.
+   * @param systemPath - System file path (e.g., /home/user/.zshrc)
+   * @param dotsxPath - dotsx content path (e.g., /home/user/.dotsx/ubuntu/symlinks/__home__/.zshrc)
+   * @param keep - Version kept when both exist with different content, required in that case
+   * @param ignore - Gitignore-style patterns left out when a directory is moved into dotsx
+   */
+  export function safeSymlink(systemPath: string, dotsxPath: string, keep?: ConflictSide, ignore: string[] = []) {
+    if (!keep && getConflict(systemPath, dotsxPath, ignore)) {
+      throw new Error(`${FileLib.display(systemPath)} differs from its dotsx copy, choose which version to keep`);
+    }
+
+    const steps = planSymlink(systemPath, dotsxPath, keep, ignore);
+
+    if (steps.length === 0) {
+      log.info(`Symlink already correct: ${FileLib.display(systemPath)}`);
+      return;
+    }
+
+    if (!FileLib.isExists(systemPath)) {
       // Sync scenario: systemPath missing, dotsxPath exists
       log.info(`System path missing, recreating symlink from dotsx: ${FileLib.display(systemPath)}`);
     }
 
-    // Ensure parent directory exists for system symlink
-    FileLib.Directory.create(path.dirname(systemPath));
-
-    // Ensure systemPath doesn't exist before creating symlink
-    // Check for broken symlinks first (lstatSync works even on broken symlinks)
-    try {
-      const stats = fs.lstatSync(systemPath);
-      if (stats.isSymbolicLink()) {
-        fs.unlinkSync(systemPath);
-      } else if (stats.isFile()) {
-        FileLib.File.deleteFile(systemPath);
-      } else if (stats.isDirectory()) {
-        FileLib.Directory.deleteDirectory(systemPath);
+    for (const step of steps) {
+      if (step.op === 'copy' && step.from !== systemPath) {
+        log.info(`Following symlink to actual content: ${FileLib.display(step.from)}`);
       }
-    } catch {
-      // Path doesn't exist, which is fine
     }
 
-    fs.symlinkSync(dotsxPath, systemPath);
+    const backup = PlanLib.executeSteps(steps, `link ${systemPath}`);
+    if (backup) log.info(`Backup saved: ${backup.id}`);
   }
 }
@@ -1,4 +1,4 @@
-import { execSync } from 'node:child_process';
+import { execSync, spawnSync } from 'node:child_process';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
@@ -52,35 +52,73 @@ export namespace SystemLib {
     return null;
   }
 
-  export function getOsInfo(): OsInfo {
-    const platform = os.platform();
-    const release = os.release();
-
+  /**
+   * OS family alone, without the distro and release lookups of getOsInfo
+   */
+  export function getOsFamily(platform: NodeJS.Platform = os.platform()): OsFamily {
     switch (platform) {
-      case 'linux': {
-        const distro = getLinuxDistro();
-        return { platform, family: 'linux', distro, release };
-      }
-      case 'darwin': {
-        let darwinRelease: string;
-        try {
-          darwinRelease = execSync('sw_vers -productVersion').toString().trim();
-        } catch {
-          darwinRelease = release;
-        }
-        return { platform, family: 'macos', release: darwinRelease, distro: null };
-      }
+      case 'linux':
+        return 'linux';
+      case 'darwin':
+        return 'macos';
       case 'win32':
-        return { platform, family: 'windows', release, distro: null };
+        return 'windows';
       case 'freebsd':
       case 'openbsd':
       case 'netbsd':
-        return { platform, family: 'bsd', release, distro: null };
+        return 'bsd';
       case 'aix':
       case 'sunos':
-        return { platform, family: 'unix', release, distro: null };
+        return 'unix';
       default:
-        return { platform, family: 'unknown', release, distro: null };
+        return 'unknown';
+    }
+  }
+
+  /**
+   * Distro on Linux when known, OS family otherwise, without the release lookups of getOsInfo
+   */
+  export function getOsName(): OsFamily | KnownLinuxDistro {
+    const family = getOsFamily();
+    return (family === 'linux' && getLinuxDistro()) || family;
+  }
+
+  export function getOsInfo(): OsInfo {
+    const platform = os.platform();
+    const release = os.release();
+    const family = getOsFamily(platform);
+
+    if (family === 'linux') {
+      return { platform, family, distro: getLinuxDistro(), release };
+    }
+    if (family === 'macos') {
+      let darwinRelease: string;
+      try {
+        darwinRelease = execSync('sw_vers -productVersion').toString().trim();
+      } catch {
+        darwinRelease = release;
+      }
+      return { platform, family, release: darwinRelease, distro: null };
+    }
+    return { platform, family, release, distro: null };
+  }
+
+  /**
+   * Short hostname, e.g. 'laptop' for 'laptop.local'
+   */
+  export function getHostname(): string {
+    return os.hostname().split('.')[0] || os.hostname();
+  }
+
+  /**
+   * Open files in an editor command, which may carry arguments like `code --wait`, the paths never going through the shell
+   * @example openEditor('vi', ['/home/user/.dotsx/debian/symlinks/__home__/.zshrc'])
+   */
+  export function openEditor(editor: string, paths: string[]) {
+    const result = spawnSync('sh', ['-c', `${editor} "$@"`, 'sh', ...paths], { stdio: 'inherit' });
+    if (result.error) throw result.error;
+    if (result.status !== 0) {
+      throw new Error(`${editor} exited with code ${result.status}`);
     }
   }
 
@@ -88,7 +126,7 @@ export namespace SystemLib {
     return {
       ...getOsInfo(),
       arch: os.arch(),
-      hostname: os.hostname(),
+      hostname: getHostname(),
       shell: detectShell(),
       rcFile: getRcFilePath() ?? 'unknown',
     };
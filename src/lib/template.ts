@@ -0,0 +1,186 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ConfigLib } from './config';
+import { type DotsxLayerPath, TEMPLATE_EXTENSION } from './constants';
+import { FileLib } from './file';
+import { PlanLib, type PlanStep } from './plan';
+import { StateLib } from './state';
+import { SystemLib } from './system';
+
+/** Variables available to templates, e.g. { os: 'linux', distro: 'debian', hostname: 'laptop', arch: 'x64', email: '...' } */
+export type TemplateContext = Record<string, string>;
+
+/**
+ * - rendered: the system file matches the template
+ * - missing: not rendered on this machine, nothing or a symlink is at the system path
+ * - outdated: the template or its variables changed since the last render
+ * - edited: the system file was changed by hand since dotsx rendered it, or was never written by dotsx
+ */
+export type TemplateStatus = 'rendered' | 'missing' | 'outdated' | 'edited';
+
+/** `{{ name }}`, `{{#if cond}}`, `{{else}}`, `{{/if}}` or `{{> include}}` */
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+/** Block tags alone on their line do not leave an empty line behind */
+const STANDALONE_BLOCK_PATTERN = /^[ \t]*(\{\{\s*(?:#if\s[^}]*|else|\/if)\s*\}\})[ \t]*\r?\n/gm;
+const COMPARISON_PATTERN = /^([\w.-]+)\s*(==|!=)\s*"([^"]*)"$/;
+const TRUTHY_PATTERN = /^(!?)([\w.-]+)$/;
+
+interface Block {
+  /** Whether the enclosing blocks output anything */
+  parentActive: boolean;
+  condition: boolean;
+  inElse: boolean;
+}
+
+export namespace TemplateLib {
+  export function isTemplate(dotsxPath: string): boolean {
+    return dotsxPath.endsWith(TEMPLATE_EXTENSION);
+  }
+
+  /**
+   * @example toTemplatePath('/home/user/.dotsx/debian/symlinks/__home__/.gitconfig') // '.../__home__/.gitconfig.dotsx.tmpl'
+   */
+  export function toTemplatePath(dotsxPath: string): string {
+    return isTemplate(dotsxPath) ? dotsxPath : `${dotsxPath}${TEMPLATE_EXTENSION}`;
+  }
+
+  /**
+   * @example toRenderedPath('/home/user/.gitconfig.dotsx.tmpl') // '/home/user/.gitconfig'
+   */
+  export function toRenderedPath(templatePath: string): string {
+    return isTemplate(templatePath) ? templatePath.slice(0, -TEMPLATE_EXTENSION.length) : templatePath;
+  }
+
+  /**
+   * Built-in machine variables, on top of the `vars` of every layer config
+   */
+  export function getContext(layers: DotsxLayerPath[]): TemplateContext {
+    const osInfo = SystemLib.getOsInfo();
+    const vars: TemplateContext = Object.assign({}, ...layers.map((layer) => ConfigLib.read(layer.config).vars));
+
+    return {
+      ...vars,
+      os: osInfo.family,
+      distro: osInfo.distro ?? '',
+      hostname: SystemLib.getHostname(),
+      arch: os.arch(),
+    };
+  }
+
+  /**
+   * Render a template file, includes are resolved relative to the including file
+   * @example render('~/.dotsx/common/symlinks/__home__/.gitconfig.dotsx.tmpl', { email: 'me@example.com' })
+   */
+  export function render(templatePath: string, context: TemplateContext, includeStack: string[] = []): string {
+    const fullPath = path.resolve(templatePath);
+    if (includeStack.includes(fullPath)) {
+      throw new Error(`Template include cycle: ${[...includeStack, fullPath].map(FileLib.display).join(' → ')}`);
+    }
+    if (!FileLib.isFile(fullPath)) {
+      throw new Error(`Template not found: ${FileLib.display(fullPath)}`);
+    }
+
+    const source = FileLib.File.read(fullPath).replace(STANDALONE_BLOCK_PATTERN, '$1');
+    const fail = (message: string) => new Error(`${message} in ${FileLib.display(fullPath)}`);
+
+    const blocks: Block[] = [];
+    const isActive = () => blocks.every((block) => block.parentActive && block.condition !== block.inElse);
+    let output = '';
+    let lastIndex = 0;
+
+    for (const match of source.matchAll(TAG_PATTERN)) {
+      const tag = match[1] ?? '';
+      if (isActive()) output += source.slice(lastIndex, match.index);
+      lastIndex = match.index + match[0].length;
+
+      if (tag.startsWith('#if ')) {
+        const active = isActive();
+        const condition = active && evaluate(tag.slice(4).trim(), context);
+        blocks.push({ parentActive: active, condition, inElse: false });
+      } else if (tag === 'else') {
+        const block = blocks[blocks.length - 1];
+        if (!block || block.inElse) throw fail('Unexpected {{else}}');
+        block.inElse = true;
+      } else if (tag === '/if') {
+        if (!blocks.pop()) throw fail('Unexpected {{/if}}');
+      } else if (isActive()) {
+        // Variables and includes of a skipped branch are never resolved
+        output += resolveTag(tag, fullPath, context, includeStack);
+      }
+    }
+
+    if (blocks.length > 0) throw fail('Missing {{/if}}');
+    return output + source.slice(lastIndex);
+  }
+
+  function resolveTag(tag: string, fullPath: string, context: TemplateContext, includeStack: string[]): string {
+    if (tag.startsWith('>')) {
+      const includePath = path.resolve(path.dirname(fullPath), tag.slice(1).trim());
+      return render(includePath, context, [...includeStack, fullPath]);
+    }
+
+    if (!/^[\w.-]+$/.test(tag)) {
+      throw new Error(`Invalid template tag "{{ ${tag} }}" in ${FileLib.display(fullPath)}`);
+    }
+
+    const value = context[tag];
+    if (value === undefined) {
+      throw new Error(`Unknown template variable "${tag}" in ${FileLib.display(fullPath)}`);
+    }
+    return value;
+  }
+
+  /**
+   * @example evaluate('os == "linux"', { os: 'linux' }) // true
+   * evaluate('!work', {}) // true, unset variables are empty
+   */
+  function evaluate(condition: string, context: TemplateContext): boolean {
+    const comparison = condition.match(COMPARISON_PATTERN);
+    if (comparison) {
+      const [, name = '', operator, expected] = comparison;
+      return ((context[name] ?? '') === expected) === (operator === '==');
+    }
+
+    const truthy = condition.match(TRUTHY_PATTERN);
+    if (truthy) {
+      const [, negate, name = ''] = truthy;
+      return Boolean(context[name]) !== (negate === '!');
+    }
+
+    throw new Error(`Invalid template condition "${condition}"`);
+  }
+
+  /**
+   * Compare the system file with its rendered template and with what dotsx last wrote there
+   */
+  export function getStatus(systemPath: string, rendered: string | Buffer): TemplateStatus {
+    if (FileLib.isSymLink(systemPath) || !FileLib.isFile(systemPath)) return 'missing';
+    if (fs.readFileSync(systemPath).equals(Buffer.from(rendered))) return 'rendered';
+
+    return StateLib.getWritten(systemPath) === PlanLib.getPathState(systemPath) ? 'outdated' : 'edited';
+  }
+
+  /**
+   * Compute the steps needed to write the rendered template to the system path
+   * @param force - Overwrite hand edits made since the last render
+   * @param mode - Permission bits of the written file, e.g. 0o600 for decrypted secrets
+   * @returns Steps to execute, empty if the system file is up to date
+   */
+  export function planRender(systemPath: string, rendered: string | Buffer, force = false, mode?: number): PlanStep[] {
+    const status = getStatus(systemPath, rendered);
+    if (status === 'rendered') return [];
+    if (status === 'edited' && !force) {
+      throw new Error(`${FileLib.display(systemPath)} was edited by hand since it was rendered, update its template`);
+    }
+
+    const steps: PlanStep[] = [];
+    // A symlink or directory left at the system path is replaced, a file is overwritten
+    const systemState = PlanLib.getPathState(systemPath);
+    if (systemState !== 'missing' && !systemState.startsWith('file:')) {
+      steps.push({ op: 'remove', path: systemPath });
+    }
+    steps.push({ op: 'write', path: systemPath, content: rendered, ...(mode === undefined ? {} : { mode }) });
+    return steps;
+  }
+}
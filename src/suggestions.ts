@@ -1,23 +1,42 @@
 import type { KnownLinuxDistro, OsFamily } from './types';
 
-type SuggestionType = 'ide' | 'terminal' | 'ai' | 'others';
+export const SUGGESTION_TYPES = ['ide', 'terminal', 'ai', 'others'] as const;
+
+type SuggestionType = (typeof SUGGESTION_TYPES)[number];
 
 export interface Suggestion {
   name: string;
   type: SuggestionType;
+  /** Shown next to the suggestion when none of its paths exist, e.g. 'VSCode is not installed' */
   hint: string;
+  /** Paths by OS family, a distro entry replacing the family one, or extending it where it lists `...` */
   pathsToCheck: Partial<Record<OsFamily | KnownLinuxDistro, string[]>>;
+  /** Suggestion whose paths, in the same order, may share one dotsx copy with these, e.g. Cursor and VSCode */
+  shareWith?: string;
+  /** Base directory of the app on each OS, resolving app paths like `vscode:User/settings.json`, a distro one first */
+  appDirs?: Partial<Record<OsFamily | KnownLinuxDistro, string>>;
+  /** Executables in PATH telling the app is installed, its name when unset */
+  binaries?: string[];
+  /** Desktop entries on Linux or app bundles on macOS telling the app is installed, e.g. `code.desktop` */
+  desktopEntries?: string[];
 }
 
 const vscodeSuggestion: Suggestion = {
   name: 'vscode',
   type: 'ide',
   hint: 'VSCode is not installed',
+  shareWith: 'cursor',
+  binaries: ['code'],
+  desktopEntries: ['code.desktop', 'Visual Studio Code.app'],
+  appDirs: {
+    linux: '$XDG_CONFIG_HOME/Code',
+    macos: '~/Library/Application Support/Code',
+  },
   pathsToCheck: {
     linux: [
-      '~/.config/Code/User/settings.json',
-      '~/.config/Code/User/keybindings.json',
-      '~/.config/Code/User/snippets',
+      '$XDG_CONFIG_HOME/Code/User/settings.json',
+      '$XDG_CONFIG_HOME/Code/User/keybindings.json',
+      '$XDG_CONFIG_HOME/Code/User/snippets',
     ],
     macos: [
       '~/Library/Application Support/Code/User/settings.json',
@@ -31,11 +50,18 @@ const cursorSuggestion: Suggestion = {
   name: 'cursor',
   type: 'ide',
   hint: 'Cursor is not installed',
+  shareWith: 'vscode',
+  binaries: ['cursor'],
+  desktopEntries: ['cursor.desktop', 'Cursor.app'],
+  appDirs: {
+    linux: '$XDG_CONFIG_HOME/Cursor',
+    macos: '~/Library/Application Support/Cursor',
+  },
   pathsToCheck: {
     linux: [
-      '~/.config/Cursor/User/settings.json',
-      '~/.config/Cursor/User/keybindings.json',
-      '~/.config/Cursor/User/snippets',
+      '$XDG_CONFIG_HOME/Cursor/User/settings.json',
+      '$XDG_CONFIG_HOME/Cursor/User/keybindings.json',
+      '$XDG_CONFIG_HOME/Cursor/User/snippets',
     ],
     macos: [
       '~/Library/Application Support/Cursor/User/settings.json',
@@ -79,6 +105,7 @@ const claudeCodeSuggestion: Suggestion = {
   name: 'claude-code',
   type: 'ai',
   hint: 'Claude Code is not configured',
+  binaries: ['claude'],
   pathsToCheck: {
     linux: [
       '~/.claude/CLAUDE.md',
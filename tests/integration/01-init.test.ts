@@ -83,7 +83,7 @@ describe('Integration: Init Flow', () => {
 
       // Check symlinks were created in dotsx
       const dotsxTestrc = path.join(env.dotsxPath.symlinks, '__home__', '.testrc');
-      const dotsxTestJson = path.join(env.dotsxPath.symlinks, '__home__', '.config', 'test.json');
+      const dotsxTestJson = path.join(env.dotsxPath.symlinks, '__xdg_config__', 'test.json');
 
       assertFileExists(dotsxTestrc);
       assertFileExists(dotsxTestJson);
@@ -181,7 +181,7 @@ describe('Integration: Init Flow', () => {
 
       await initCommand.createSymlinksForSelectedPaths(selectedPaths, env.dotsxPath);
 
-      const dotsxFile = path.join(env.dotsxPath.symlinks, '__home__', '.config/app/settings.json');
+      const dotsxFile = path.join(env.dotsxPath.symlinks, '__xdg_config__', 'app/settings.json');
       assertFileExists(dotsxFile);
 
       // Check content
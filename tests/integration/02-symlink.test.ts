@@ -1,7 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import fs from 'node:fs';
 import path from 'node:path';
+import { backupCommand } from '@/commands/backup';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
 import { symlinkCommand } from '@/commands/symlink';
+import { BackupLib } from '@/lib/backup';
 import { FileLib } from '@/lib/file';
 import { SymlinkLib } from '@/lib/symlink';
 import {
@@ -279,12 +282,228 @@ describe('Integration: Symlink Management', () => {
       const links = await symlinkCommand.checkStatus(env.dotsxPath);
       expect(links.incorrectSymlinks.length).toBe(1);
 
-      // Fix symlink
-      SymlinkLib.safeSymlink(testFile, dotsxPath);
+      // Fix symlink, the foreign target differs from dotsx so a version must be chosen
+      SymlinkLib.safeSymlink(testFile, dotsxPath, 'dotsx');
 
       // Check is now correct
       const isCorrect = SymlinkLib.isSymLinkContentCorrect(dotsxPath, testFile);
       expect(isCorrect).toBe(true);
+      expect(fs.readFileSync(dotsxPath, 'utf8')).toBe('correct');
+    });
+  });
+
+  describe('Link manifest', () => {
+    it('should record added links in dotsx.config.json', () => {
+      createFakeFiles(env.homeDir, { '.zshrc': '# zsh' });
+      fs.chmodSync(path.join(env.homeDir, '.zshrc'), 0o644);
+
+      symlinkCommand.linkPath(env.dotsxPath, path.join(env.homeDir, '.zshrc'));
+
+      const config = JSON.parse(fs.readFileSync(env.dotsxPath.config, 'utf8'));
+      expect(config.links).toEqual([
+        {
+          systemPath: '~/.zshrc',
+          dotsxPath: '__home__/.zshrc',
+          kind: 'file',
+          options: { attributes: { mode: '644' } },
+        },
+      ]);
+    });
+
+    it('should only list links from the manifest', () => {
+      fs.writeFileSync(env.dotsxPath.config, JSON.stringify({ links: [] }));
+      const untracked = path.join(env.dotsxPath.symlinks, '__home__', '.config', 'snippets', 'a.json');
+      FileLib.Directory.create(path.dirname(untracked));
+      fs.writeFileSync(untracked, '{}');
+
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+    });
+
+    it('should migrate an existing tree once', () => {
+      const dotsxFile = path.join(env.dotsxPath.symlinks, '__home__', '.zshrc');
+      FileLib.Directory.create(path.dirname(dotsxFile));
+      fs.writeFileSync(dotsxFile, '# zsh');
+
+      const links = symlinkCommand.getSymlinks(env.dotsxPath);
+
+      expect(links).toEqual([{ systemPath: path.join(env.homeDir, '.zshrc'), dotsxPath: dotsxFile, layer: 'debian' }]);
+      const config = JSON.parse(fs.readFileSync(env.dotsxPath.config, 'utf8'));
+      expect(config.links).toHaveLength(1);
+      expect(config.links[0].kind).toBe('file');
+    });
+  });
+
+  describe('Untracking links', () => {
+    it('should restore a real file and drop it from the manifest', () => {
+      const systemPath = path.join(env.homeDir, '.zshrc');
+      createFakeFiles(env.homeDir, { '.zshrc': '# zsh' });
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, systemPath);
+
+      symlinkCommand.unlinkPath(env.dotsxPath, systemPath);
+
+      expect(fs.lstatSync(systemPath).isFile()).toBe(true);
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('# zsh');
+      assertFileExists(dotsxPath);
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+    });
+
+    it('should restore a directory and remove it from dotsx when asked', () => {
+      const systemPath = path.join(env.homeDir, '.config', 'snippets');
+      createFakeFiles(env.homeDir, { '.config/snippets/ts.json': '{}' });
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, systemPath);
+
+      symlinkCommand.unlinkPath(env.dotsxPath, systemPath, true);
+
+      expect(fs.lstatSync(systemPath).isDirectory()).toBe(true);
+      expect(fs.readFileSync(path.join(systemPath, 'ts.json'), 'utf8')).toBe('{}');
+      expect(fs.existsSync(dotsxPath)).toBe(false);
+    });
+
+    it('should refuse untracked paths', () => {
+      expect(() => symlinkCommand.unlinkPath(env.dotsxPath, path.join(env.homeDir, '.nope'))).toThrow(
+        'Not tracked by dotsx',
+      );
+    });
+  });
+
+  describe('Copy mode', () => {
+    it('should track a real copy and sync edits of either side', async () => {
+      const systemPath = path.join(env.homeDir, '.config', 'Code', 'User', 'settings.json');
+      createFakeFiles(env.homeDir, { '.config/Code/User/settings.json': '{}' });
+
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, systemPath, undefined, env.dotsxPath, 'copy');
+
+      expect(fs.lstatSync(systemPath).isFile()).toBe(true);
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([
+        { systemPath, dotsxPath, layer: 'debian', mode: 'copy', attributes: expect.any(Object) },
+      ]);
+
+      fs.writeFileSync(systemPath, '{ "editor.fontSize": 14 }');
+      const links = await symlinkCommand.checkStatus(env.dotsxPath);
+      expect(symlinkCommand.repairLinks(links.incorrectSymlinks)).toBe(1);
+      expect(fs.readFileSync(dotsxPath, 'utf8')).toBe('{ "editor.fontSize": 14 }');
+
+      fs.writeFileSync(dotsxPath, '{ "editor.fontSize": 16 }');
+      expect(symlinkCommand.syncCopies(env.dotsxPath)).toBe(1);
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('{ "editor.fontSize": 16 }');
+    });
+
+    it('should leave copies changed on both sides to the user', () => {
+      const systemPath = path.join(env.homeDir, '.zshrc');
+      createFakeFiles(env.homeDir, { '.zshrc': '# zsh' });
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, systemPath, undefined, env.dotsxPath, 'copy');
+
+      fs.writeFileSync(systemPath, '# system');
+      fs.writeFileSync(dotsxPath, '# dotsx');
+
+      expect(symlinkCommand.syncCopies(env.dotsxPath)).toBe(0);
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('# system');
+    });
+
+    it('should keep the system copy when untracked', () => {
+      const systemPath = path.join(env.homeDir, '.zshrc');
+      createFakeFiles(env.homeDir, { '.zshrc': '# zsh' });
+      symlinkCommand.linkPath(env.dotsxPath, systemPath, undefined, env.dotsxPath, 'copy');
+
+      symlinkCommand.unlinkPath(env.dotsxPath, systemPath);
+
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('# zsh');
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+    });
+  });
+
+  describe('Paths outside home', () => {
+    it('should record the mode and restore it when untracked', () => {
+      const systemPath = path.join(env.tmpDir, 'etc', 'hosts');
+      createFakeFiles(env.tmpDir, { 'etc/hosts': '127.0.0.1 localhost' });
+      fs.chmodSync(systemPath, 0o640);
+
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, systemPath);
+      expect(dotsxPath).toBe(path.join(env.dotsxPath.symlinks, env.tmpDir, 'etc', 'hosts'));
+      // The owner is only recorded when it is not the current user
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)[0]?.attributes).toEqual({ mode: '640' });
+
+      // Git only keeps the executable bit, a clone gets the default mode
+      fs.chmodSync(dotsxPath, 0o644);
+      symlinkCommand.unlinkPath(env.dotsxPath, systemPath);
+
+      expect(fs.lstatSync(systemPath).isFile()).toBe(true);
+      expect(fs.statSync(systemPath).mode & 0o777).toBe(0o640);
+    });
+  });
+
+  describe('Permissions', () => {
+    const mode = (p: string) => fs.statSync(p).mode & 0o777;
+
+    beforeEach(() => {
+      createFakeFiles(env.homeDir, { '.ssh/config': 'Host *', '.ssh/known_hosts': '' });
+      fs.chmodSync(path.join(env.homeDir, '.ssh'), 0o700);
+      fs.chmodSync(path.join(env.homeDir, '.ssh', 'config'), 0o600);
+      fs.chmodSync(path.join(env.homeDir, '.ssh', 'known_hosts'), 0o644);
+    });
+
+    it('should keep the modes of a directory moved into dotsx', () => {
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.ssh');
+
+      const [link] = symlinkCommand.getSymlinks(env.dotsxPath);
+      expect(link?.attributes).toEqual({ mode: '700' });
+      expect(link?.fileAttributes).toEqual({ config: { mode: '600' } });
+      expect(mode(dotsxPath)).toBe(0o700);
+      expect(mode(path.join(dotsxPath, 'config'))).toBe(0o600);
+    });
+
+    it('should report and restore modes reset by a clone', async () => {
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.ssh');
+      fs.chmodSync(dotsxPath, 0o755);
+      fs.chmodSync(path.join(dotsxPath, 'config'), 0o644);
+
+      const issues: DoctorIssue[] = [];
+      doctorCommand.checkAttributes(issues, env.dotsxPath);
+      expect(issues.map((issue) => issue.message)).toEqual([
+        'Wrong permissions: ~/.ssh should be 700, ~/.ssh/config should be 600 [debian]',
+      ]);
+
+      expect(symlinkCommand.restoreAttributes(env.dotsxPath)).toBe(1);
+      expect(mode(dotsxPath)).toBe(0o700);
+      expect(mode(path.join(dotsxPath, 'config'))).toBe(0o600);
+      expect(symlinkCommand.restoreAttributes(env.dotsxPath)).toBe(0);
+    });
+
+    it('should record new files with a non-default mode without overwriting recorded ones', () => {
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.ssh');
+      fs.writeFileSync(path.join(dotsxPath, 'id_ed25519'), 'key');
+      fs.chmodSync(path.join(dotsxPath, 'id_ed25519'), 0o600);
+      fs.chmodSync(path.join(dotsxPath, 'config'), 0o644);
+
+      expect(symlinkCommand.recordAttributes(env.dotsxPath)).toBe(1);
+      expect(symlinkCommand.recordAttributes(env.dotsxPath)).toBe(0);
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)[0]?.fileAttributes).toEqual({
+        config: { mode: '600' },
+        id_ed25519: { mode: '600' },
+      });
+    });
+  });
+
+  describe('Backups', () => {
+    it('should back up a system file replaced by the dotsx version and restore it', () => {
+      const systemPath = path.join(env.homeDir, '.zshrc');
+      const dotsxPath = FileLib.toDotsxPath(systemPath, env.dotsxPath.symlinks);
+      createFakeFiles(env.homeDir, { '.zshrc': '# local' });
+      FileLib.Directory.create(path.dirname(dotsxPath));
+      fs.writeFileSync(dotsxPath, '# dotsx');
+      fs.writeFileSync(env.dotsxPath.config, JSON.stringify({ links: [] }));
+
+      SymlinkLib.safeSymlink(systemPath, dotsxPath, 'dotsx');
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('# dotsx');
+
+      const [backup] = BackupLib.list();
+      expect(backup?.entries.map((entry) => entry.originalPath)).toContain(systemPath);
+
+      backupCommand.restore(backup?.id ?? '');
+
+      expect(fs.lstatSync(systemPath).isFile()).toBe(true);
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('# local');
+      expect(BackupLib.list()).toHaveLength(2);
     });
   });
 });
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { binCommand } from '@/commands/bin';
+import { cliCommand } from '@/commands/cli';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
+import { packageCommand } from '@/commands/packages';
+import { planCommand } from '@/commands/plan';
+import { symlinkCommand } from '@/commands/symlink';
+import { EXIT_FAILURE } from '@/lib/cli';
+import { ConfigLib } from '@/lib/config';
+import { type DotsxLayerPath, type DotsxOsPath, resolveDotsxOsPath } from '@/lib/constants';
+import { FileLib } from '@/lib/file';
+import { PlanLib } from '@/lib/plan';
+import { StateLib } from '@/lib/state';
+import type { OsInfo } from '@/lib/system';
+import type { PackageManager } from '@/packages';
+import { cleanupTestEnv, createDotsxStructure, createFakeFiles, createTestEnv, type TestEnv } from './setup';
+
+describe('Integration: Layers', () => {
+  let env: TestEnv;
+  let common: DotsxLayerPath;
+
+  beforeEach(() => {
+    env = createTestEnv('layers');
+    createDotsxStructure(env);
+    common = env.dotsxPath.layers[0] as DotsxLayerPath;
+  });
+
+  afterEach(() => {
+    mock.restore();
+    cleanupTestEnv(env);
+  });
+
+  it('should resolve the common layer before the OS one', () => {
+    expect(env.dotsxPath.layers.map((layer) => layer.name)).toEqual(['common', 'debian']);
+    expect(common.symlinks).toBe(path.join(env.dotsxDir, 'common', 'symlinks'));
+  });
+
+  describe('Symlinks', () => {
+    it('should link into the common layer', () => {
+      createFakeFiles(env.homeDir, { '.tmux.conf': 'set -g mouse on' });
+
+      const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.tmux.conf', undefined, common);
+
+      expect(dotsxPath).toBe(path.join(common.symlinks, '__home__', '.tmux.conf'));
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([
+        {
+          systemPath: path.join(env.homeDir, '.tmux.conf'),
+          dotsxPath,
+          layer: 'common',
+          attributes: expect.any(Object),
+        },
+      ]);
+    });
+
+    it('should let the OS layer override a common link', () => {
+      createFakeFiles(env.homeDir, { '.zshrc': '# common' });
+      symlinkCommand.linkPath(env.dotsxPath, '~/.zshrc', undefined, common);
+
+      const osDotsxPath = FileLib.toDotsxPath(path.join(env.homeDir, '.zshrc'), env.dotsxPath.symlinks);
+      FileLib.Directory.create(path.dirname(osDotsxPath));
+      fs.writeFileSync(osDotsxPath, '# debian');
+      fs.writeFileSync(
+        env.dotsxPath.config,
+        JSON.stringify({
+          links: [{ systemPath: '~/.zshrc', dotsxPath: '__home__/.zshrc', kind: 'file', options: {} }],
+        }),
+      );
+
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([
+        { systemPath: path.join(env.homeDir, '.zshrc'), dotsxPath: osDotsxPath, layer: 'debian' },
+      ]);
+    });
+
+    it('should drop an untracked link from every layer', () => {
+      createFakeFiles(env.homeDir, { '.zshrc': '# common' });
+      symlinkCommand.linkPath(env.dotsxPath, '~/.zshrc', undefined, common);
+
+      symlinkCommand.unlinkPath(env.dotsxPath, '~/.zshrc');
+
+      expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+      expect(fs.readFileSync(path.join(env.homeDir, '.zshrc'), 'utf8')).toBe('# common');
+    });
+  });
+
+  describe('Host layer', () => {
+    let hostPath: DotsxOsPath;
+    let host: DotsxLayerPath;
+
+    beforeEach(() => {
+      hostPath = resolveDotsxOsPath('debian', 'laptop');
+      host = hostPath.layers[2] as DotsxLayerPath;
+    });
+
+    it('should resolve the host layer on top of the OS one', () => {
+      expect(hostPath.layers.map((layer) => layer.scope)).toEqual(['common', 'os', 'host']);
+      expect(host.symlinks).toBe(path.join(env.dotsxDir, 'debian', 'hosts', 'laptop', 'symlinks'));
+    });
+
+    it('should let the host layer override the OS one', () => {
+      createFakeFiles(env.homeDir, { '.gitconfig': '[user]' });
+      symlinkCommand.linkPath(hostPath, '~/.gitconfig');
+      fs.rmSync(path.join(env.homeDir, '.gitconfig'));
+
+      const hostDotsxPath = FileLib.toDotsxPath(path.join(env.homeDir, '.gitconfig'), host.symlinks);
+      FileLib.Directory.create(path.dirname(hostDotsxPath));
+      fs.writeFileSync(hostDotsxPath, '[user]\n  signingkey = laptop');
+      ConfigLib.write(host.config, {
+        links: [{ systemPath: '~/.gitconfig', dotsxPath: '__home__/.gitconfig', kind: 'file', options: {} }],
+      });
+
+      expect(symlinkCommand.getSymlinks(hostPath)).toEqual([
+        { systemPath: path.join(env.homeDir, '.gitconfig'), dotsxPath: hostDotsxPath, layer: 'debian/hosts/laptop' },
+      ]);
+    });
+
+    it('should report the layer of broken links in doctor', async () => {
+      createFakeFiles(env.homeDir, { '.monitors.xml': '<monitors/>' });
+      symlinkCommand.linkPath(hostPath, '~/.monitors.xml', undefined, host);
+      fs.rmSync(path.join(env.homeDir, '.monitors.xml'));
+
+      const issues: DoctorIssue[] = [];
+      await doctorCommand.checkSymlinks(issues, hostPath);
+
+      expect(issues.map((issue) => issue.message)).toEqual([
+        'Broken symlink: .monitors.xml (missing) [debian/hosts/laptop]',
+      ]);
+    });
+  });
+
+  describe('Bin scripts', () => {
+    it('should merge scripts, the OS one overriding the common one', () => {
+      FileLib.Directory.create(common.bin);
+      fs.writeFileSync(path.join(common.bin, 'deploy.sh'), '');
+      fs.writeFileSync(path.join(common.bin, 'backup.sh'), '');
+      fs.writeFileSync(path.join(env.dotsxPath.bin, 'deploy.sh'), '');
+
+      expect(binCommand.getScripts(env.dotsxPath)).toEqual([
+        { scriptName: 'backup', scriptPath: path.join(common.bin, 'backup.sh') },
+        { scriptName: 'deploy', scriptPath: path.join(env.dotsxPath.bin, 'deploy.sh') },
+      ]);
+    });
+
+    it('should re-alias a script overridden by the OS layer', () => {
+      const commonScript = path.join(common.bin, 'deploy.sh');
+      const osScript = path.join(env.dotsxPath.bin, 'deploy.sh');
+      FileLib.Directory.create(common.bin);
+      fs.writeFileSync(commonScript, '');
+      fs.writeFileSync(osScript, '');
+      fs.writeFileSync(env.dotsxPath.binAliases, '');
+      binCommand.addAlias(env.dotsxPath.binAliases, 'deploy', commonScript);
+
+      binCommand.setup(env.dotsxPath, [
+        { scriptName: 'deploy', scriptPath: osScript, isExecutable: true, hasAlias: false },
+      ]);
+
+      expect(binCommand.getScriptInFile(env.dotsxPath.binAliases)).toEqual([{ name: 'deploy', path: osScript }]);
+    });
+  });
+
+  describe('Packages', () => {
+    it('should merge package lists of every layer', () => {
+      const apt = { name: 'apt', fileList: 'apt.txt' } as PackageManager;
+      FileLib.Directory.create(common.packagesManager);
+      fs.writeFileSync(path.join(common.packagesManager, 'apt.txt'), 'git\ncurl\n');
+      fs.writeFileSync(path.join(env.dotsxPath.packagesManager, 'apt.txt'), 'curl\n# comment\ntmux\n');
+
+      const packagesManagerPaths = env.dotsxPath.layers.map((layer) => layer.packagesManager);
+
+      expect(packageCommand.readPackages(packagesManagerPaths, apt)).toEqual(['git', 'curl', 'tmux']);
+    });
+
+    it('should plan the removal of installed packages dropped from a list since it was applied', () => {
+      fs.writeFileSync(path.join(env.dotsxPath.packagesManager, 'apt.txt'), 'kept\nnew\n');
+      StateLib.setAppliedPackages({ apt: ['kept', 'dropped', 'uninstalled'] });
+      spyOn(packageCommand, 'isPackageInstalled').mockImplementation((pkg) => ['kept', 'dropped'].includes(pkg));
+
+      expect(packageCommand.planPackages('debian', [env.dotsxPath.packagesManager])).toEqual([
+        {
+          category: 'packages',
+          title: 'Install 1 apt package(s)',
+          steps: [{ op: 'exec', command: 'sudo apt install -y new' }],
+        },
+        {
+          category: 'packages',
+          title: 'Remove 1 apt package(s) dropped from the list',
+          steps: [{ op: 'exec', command: 'sudo apt remove -y dropped' }],
+        },
+      ]);
+    });
+
+    it('should remember the package lists of an applied plan', () => {
+      fs.writeFileSync(path.join(env.dotsxPath.packagesManager, 'apt.txt'), 'git\n');
+
+      planCommand.apply({ ...PlanLib.create('debian', []), packageLists: { apt: ['git'], snap: [] } });
+
+      expect(StateLib.getAppliedPackages('apt')).toEqual(['git']);
+      expect(StateLib.getAppliedPackages('brew')).toEqual([]);
+    });
+  });
+
+  describe('Plan', () => {
+    it('should refuse to apply a plan when a file inside a planned directory changed', async () => {
+      const nvim = path.join(env.homeDir, '.config', 'nvim');
+      createFakeFiles(nvim, { 'init.lua': '-- before' });
+      const planFile = path.join(env.tmpDir, 'dotsx.plan.json');
+      PlanLib.save(
+        PlanLib.create('debian', [{ category: 'symlinks', title: 'remove', steps: [{ op: 'remove', path: nvim }] }]),
+        planFile,
+      );
+
+      fs.writeFileSync(path.join(nvim, 'init.lua'), '-- edited');
+
+      const osInfo: OsInfo = { platform: 'linux', family: 'linux', distro: 'debian' };
+      expect(await cliCommand.execute(['apply', '--file', planFile], osInfo, env.dotsxPath)).toBe(EXIT_FAILURE);
+      expect(fs.readFileSync(path.join(nvim, 'init.lua'), 'utf8')).toBe('-- edited');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
+import { symlinkCommand } from '@/commands/symlink';
+import { ConfigLib } from '@/lib/config';
+import type { DotsxLayerPath } from '@/lib/constants';
+import { cleanupTestEnv, createDotsxStructure, createFakeFiles, createTestEnv, type TestEnv } from './setup';
+
+describe('Integration: Templates', () => {
+  let env: TestEnv;
+  let gitconfig: string;
+  let templatePath: string;
+
+  beforeEach(() => {
+    env = createTestEnv('templates');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, { '.gitconfig': '[user]\n  email = me@example.com\n' });
+    gitconfig = path.join(env.homeDir, '.gitconfig');
+    fs.chmodSync(gitconfig, 0o644);
+    templatePath = symlinkCommand.templatePath(env.dotsxPath, '~/.gitconfig');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  const setVars = (layer: DotsxLayerPath, vars: Record<string, string>) => {
+    ConfigLib.write(layer.config, { ...ConfigLib.read(layer.config), vars });
+  };
+
+  it('should copy the file as a template and keep the system file in place', () => {
+    expect(templatePath).toBe(path.join(env.dotsxPath.symlinks, '__home__', '.gitconfig.dotsx.tmpl'));
+    expect(fs.lstatSync(gitconfig).isFile()).toBe(true);
+    expect(ConfigLib.read(env.dotsxPath.config).links).toEqual([
+      {
+        systemPath: '~/.gitconfig',
+        dotsxPath: '__home__/.gitconfig.dotsx.tmpl',
+        kind: 'template',
+        options: { attributes: { mode: '644' } },
+      },
+    ]);
+  });
+
+  it('should re-render on sync with variables of every layer', async () => {
+    fs.writeFileSync(templatePath, '[user]\n  email = {{ email }}\n');
+    setVars(env.dotsxPath.layers[0] as DotsxLayerPath, { email: 'common@example.com' });
+    setVars(env.dotsxPath, { email: 'debian@example.com' });
+
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(links.incorrectSymlinks.map((link) => link.systemPath)).toEqual([gitconfig]);
+
+    expect(symlinkCommand.repairLinks(links.incorrectSymlinks)).toBe(1);
+    expect(fs.readFileSync(gitconfig, 'utf8')).toBe('[user]\n  email = debian@example.com\n');
+  });
+
+  it('should flag hand edits in doctor and only overwrite them when keeping dotsx', async () => {
+    fs.writeFileSync(gitconfig, '[user]\n  email = edited@example.com\n');
+
+    const issues: DoctorIssue[] = [];
+    await doctorCommand.checkSymlinks(issues, env.dotsxPath);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Rendered file edited by hand: ~/.gitconfig, move the edits to .gitconfig.dotsx.tmpl [debian]',
+    ]);
+
+    const { incorrectSymlinks } = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(symlinkCommand.repairLinks(incorrectSymlinks)).toBe(0);
+    expect(symlinkCommand.repairLinks(incorrectSymlinks.map((link) => ({ ...link, keep: 'dotsx' })))).toBe(1);
+    expect(fs.readFileSync(gitconfig, 'utf8')).toBe('[user]\n  email = me@example.com\n');
+  });
+
+  it('should report invalid templates in doctor', async () => {
+    fs.writeFileSync(templatePath, '{{ email }}');
+
+    const issues: DoctorIssue[] = [];
+    await doctorCommand.checkSymlinks(issues, env.dotsxPath);
+
+    expect(issues[0]?.message).toStartWith('Invalid template: Unknown template variable "email"');
+  });
+
+  it('should leave the rendered file in place when untracked', () => {
+    symlinkCommand.unlinkPath(env.dotsxPath, '~/.gitconfig', true);
+
+    expect(fs.readFileSync(gitconfig, 'utf8')).toBe('[user]\n  email = me@example.com\n');
+    expect(fs.existsSync(templatePath)).toBe(false);
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+  });
+});
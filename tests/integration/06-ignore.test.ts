@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
+import { symlinkCommand } from '@/commands/symlink';
+import { ConfigLib } from '@/lib/config';
+import { FileLib } from '@/lib/file';
+import { GitLib } from '@/lib/git';
+import {
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  exec,
+  initGitRepo,
+  type TestEnv,
+} from './setup';
+
+describe('Integration: Ignore patterns', () => {
+  let env: TestEnv;
+
+  beforeEach(() => {
+    env = createTestEnv('ignore');
+    createDotsxStructure(env);
+    fs.writeFileSync(path.join(env.dotsxDir, '.dotsxignore'), '# caches\n*.log\n');
+    createFakeFiles(env.homeDir, {
+      '.claude/settings.json': '{}',
+      '.claude/debug.log': 'noise',
+      '.claude/statsig/cache': 'noise',
+    });
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('should leave ignored files out when absorbing a directory', () => {
+    const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.claude');
+
+    expect(fs.existsSync(path.join(dotsxPath, 'settings.json'))).toBe(true);
+    expect(fs.existsSync(path.join(dotsxPath, 'debug.log'))).toBe(false);
+  });
+
+  it('should add per-link patterns to the manifest', () => {
+    symlinkCommand.linkPath(env.dotsxPath, '~/.claude');
+
+    symlinkCommand.ignoreLink(env.dotsxPath, '~/.claude', ['statsig/']);
+
+    expect(ConfigLib.read(env.dotsxPath.config).links?.[0]?.options.ignore).toEqual(['statsig/']);
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)[0]?.ignore).toEqual(['statsig/']);
+  });
+
+  it('should skip links matched by .dotsxignore', () => {
+    symlinkCommand.linkPath(env.dotsxPath, '~/.claude');
+    fs.appendFileSync(path.join(env.dotsxDir, '.dotsxignore'), '.claude/\n');
+
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+  });
+
+  it('should keep ignored files out of git and report those already committed', async () => {
+    initGitRepo(env);
+    const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.claude');
+    exec('git add . && git commit -qm init', env.dotsxDir);
+
+    // Written through the symlink after linking, then ignored
+    fs.writeFileSync(path.join(env.homeDir, '.claude', 'new.log'), 'noise');
+    symlinkCommand.ignoreLink(env.dotsxPath, '~/.claude', ['statsig/']);
+    GitLib.writeExcludes(env.dotsxDir, symlinkCommand.getGitExcludes(env.dotsxPath, env.dotsxDir));
+    exec('git add .', env.dotsxDir);
+
+    expect(exec('git diff --cached --name-only', env.dotsxDir)).not.toContain('new.log');
+
+    const issues: DoctorIssue[] = [];
+    await doctorCommand.checkIgnoredFiles(issues, env.dotsxPath);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      `Ignored but committed: ${FileLib.display(path.join(dotsxPath, 'statsig', 'cache'))}`,
+    ]);
+
+    await issues[0]?.fix?.();
+    expect(exec('git ls-files', env.dotsxDir)).not.toContain('statsig');
+    expect(fs.existsSync(path.join(dotsxPath, 'statsig', 'cache'))).toBe(true);
+  });
+
+  it('should keep hand-written excludes when rewriting the dotsx block', () => {
+    initGitRepo(env);
+    const excludePath = path.join(env.dotsxDir, '.git', 'info', 'exclude');
+    fs.writeFileSync(excludePath, '*.swp\n');
+
+    GitLib.writeExcludes(env.dotsxDir, ['/a/**/*.log']);
+    GitLib.writeExcludes(env.dotsxDir, ['/b/**/*.log']);
+
+    const content = fs.readFileSync(excludePath, 'utf8');
+    expect(content.startsWith('*.swp\n\n# dotsx:ignore begin')).toBe(true);
+    expect(content).toContain('/b/**/*.log');
+    expect(content).not.toContain('/a/**/*.log');
+  });
+});
@@ -1,6 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import fs from 'node:fs';
 import path from 'node:path';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
+import { symlinkCommand } from '@/commands/symlink';
 import { FileLib } from '@/lib/file';
 import { SymlinkLib } from '@/lib/symlink';
 import {
@@ -221,4 +223,72 @@ describe('Integration: Symlink Repair', () => {
       expect(dotsxMode & 0o777).toBe(originalMode & 0o777);
     });
   });
+
+  describe('Drift', () => {
+    it('should classify what replaced each symlink', async () => {
+      createFakeFiles(env.homeDir, { '.zshrc': 'zsh', '.vimrc': 'vim', '.tmux.conf': 'tmux', '.bashrc': 'bash' });
+      for (const name of ['.zshrc', '.vimrc', '.tmux.conf', '.bashrc']) {
+        symlinkCommand.linkPath(env.dotsxPath, `~/${name}`);
+        fs.rmSync(path.join(env.homeDir, name));
+      }
+      fs.writeFileSync(path.join(env.homeDir, '.vimrc'), 'vim');
+      fs.writeFileSync(path.join(env.homeDir, '.tmux.conf'), 'tmux edited by an installer');
+      fs.symlinkSync(path.join(env.tmpDir, 'other'), path.join(env.homeDir, '.bashrc'));
+      fs.writeFileSync(path.join(env.tmpDir, 'other'), 'bash');
+
+      const { incorrectSymlinks } = await symlinkCommand.checkStatus(env.dotsxPath);
+
+      expect(incorrectSymlinks.map((link) => [path.basename(link.systemPath), link.drift])).toEqual([
+        ['.zshrc', 'missing'],
+        ['.vimrc', 'identical'],
+        ['.tmux.conf', 'changed'],
+        ['.bashrc', 'elsewhere'],
+      ]);
+    });
+
+    it('should only fix drift losing nothing in doctor', async () => {
+      createFakeFiles(env.homeDir, { '.vimrc': 'vim', '.tmux.conf': 'tmux' });
+      symlinkCommand.linkPath(env.dotsxPath, '~/.vimrc');
+      symlinkCommand.linkPath(env.dotsxPath, '~/.tmux.conf');
+      fs.rmSync(path.join(env.homeDir, '.vimrc'));
+      fs.writeFileSync(path.join(env.homeDir, '.vimrc'), 'vim');
+      fs.rmSync(path.join(env.homeDir, '.tmux.conf'));
+      fs.writeFileSync(path.join(env.homeDir, '.tmux.conf'), 'tmux edited');
+
+      const issues: DoctorIssue[] = [];
+      await doctorCommand.checkSymlinks(issues, env.dotsxPath);
+
+      expect(issues.map((issue) => [issue.message, issue.fixable])).toEqual([
+        ['Broken symlink: .vimrc (replaced by an identical copy) [debian]', true],
+        ['Broken symlink: .tmux.conf (replaced by a copy with other content), run: dotsx symlink sync [debian]', false],
+      ]);
+
+      await issues[0]?.fix?.();
+      assertSymlink(path.join(env.dotsxPath.symlinks, '__home__', '.vimrc'), path.join(env.homeDir, '.vimrc'));
+    });
+
+    it('should absorb or discard a changed copy', async () => {
+      createFakeFiles(env.homeDir, { '.vimrc': 'vim', '.tmux.conf': 'tmux' });
+      for (const name of ['.vimrc', '.tmux.conf']) {
+        symlinkCommand.linkPath(env.dotsxPath, `~/${name}`);
+        fs.rmSync(path.join(env.homeDir, name));
+        fs.writeFileSync(path.join(env.homeDir, name), `${name} edited`);
+      }
+
+      const { incorrectSymlinks } = await symlinkCommand.checkStatus(env.dotsxPath);
+      const [vimrc, tmux] = incorrectSymlinks;
+      if (!vimrc || !tmux) throw new Error('expected two drifted links');
+
+      expect(
+        symlinkCommand.repairLinks([
+          { ...vimrc, keep: 'system' },
+          { ...tmux, keep: 'dotsx' },
+        ]),
+      ).toBe(2);
+
+      expect(fs.readFileSync(vimrc.dotsxPath, 'utf8')).toBe('.vimrc edited');
+      expect(fs.readFileSync(tmux.systemPath, 'utf8')).toBe('tmux');
+      assertSymlink(tmux.dotsxPath, tmux.systemPath);
+    });
+  });
 });
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { cliCommand } from '@/commands/cli';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
+import { secretCommand } from '@/commands/secret';
+import { symlinkCommand } from '@/commands/symlink';
+import { EXIT_FAILURE, EXIT_SUCCESS } from '@/lib/cli';
+import { ConfigLib } from '@/lib/config';
+import { GitLib } from '@/lib/git';
+import { ScanLib } from '@/lib/scan';
+import { type SecretKey, SecretLib } from '@/lib/secret';
+import type { OsInfo } from '@/lib/system';
+import {
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  exec,
+  initGitRepo,
+  type TestEnv,
+} from './setup';
+
+describe('Integration: Secrets', () => {
+  let env: TestEnv;
+  let key: SecretKey;
+  let npmrc: string;
+  let secretPath: string;
+
+  beforeEach(() => {
+    env = createTestEnv('secrets');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, { '.npmrc': '//registry.npmjs.org/:_authToken=abc123\n' });
+    npmrc = path.join(env.homeDir, '.npmrc');
+    fs.chmodSync(npmrc, 0o600);
+
+    key = SecretLib.generateKey();
+    SecretLib.saveKeyfile(key);
+    secretPath = secretCommand.addSecret(env.dotsxPath, '~/.npmrc', key);
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('should store the file encrypted and keep it in place', () => {
+    expect(secretPath).toBe(path.join(env.dotsxPath.symlinks, '__home__', '.npmrc.dotsx.enc'));
+    expect(fs.readFileSync(secretPath, 'utf8')).not.toContain('abc123');
+    expect(fs.lstatSync(npmrc).isFile()).toBe(true);
+    expect(ConfigLib.read(env.dotsxPath.config).links).toEqual([
+      {
+        systemPath: '~/.npmrc',
+        dotsxPath: '__home__/.npmrc.dotsx.enc',
+        kind: 'secret',
+        options: { attributes: { mode: '600' } },
+      },
+    ]);
+  });
+
+  it('should decrypt on sync with mode 600', async () => {
+    fs.rmSync(npmrc);
+
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(symlinkCommand.repairLinks(links.incorrectSymlinks)).toBe(1);
+
+    expect(fs.readFileSync(npmrc, 'utf8')).toBe('//registry.npmjs.org/:_authToken=abc123\n');
+    expect(fs.statSync(npmrc).mode & 0o777).toBe(0o600);
+  });
+
+  it('should decrypt a binary secret byte for byte', async () => {
+    const keystore = path.join(env.homeDir, '.keystore.p12');
+    const content = Buffer.from([0x30, 0x82, 0x00, 0xff, 0xfe, 0x0a]);
+    fs.writeFileSync(keystore, content);
+    secretCommand.addSecret(env.dotsxPath, '~/.keystore.p12', key);
+
+    fs.rmSync(keystore);
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(symlinkCommand.repairLinks(links.incorrectSymlinks)).toBe(1);
+
+    expect(fs.readFileSync(keystore)).toEqual(content);
+    expect((await symlinkCommand.checkStatus(env.dotsxPath)).incorrectSymlinks).toEqual([]);
+  });
+
+  it('should report a missing key and hand edits in doctor', async () => {
+    fs.writeFileSync(npmrc, '//registry.npmjs.org/:_authToken=edited\n');
+
+    let issues: DoctorIssue[] = [];
+    await doctorCommand.checkSymlinks(issues, env.dotsxPath);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Decrypted file edited by hand: ~/.npmrc, run: dotsx secret add ~/.npmrc [debian]',
+    ]);
+
+    fs.rmSync(path.join(env.homeDir, '.dotsx-key'));
+    issues = [];
+    await doctorCommand.checkSymlinks(issues, env.dotsxPath);
+    expect(issues[0]?.message).toContain('No secret key');
+  });
+
+  it('should edit a secret in an editor given its path as an argument', () => {
+    const originalVisual = process.env.VISUAL;
+    process.env.VISUAL = `sh -c 'printf "%s" "$0" > "$1"' 'token=def456'`;
+    try {
+      secretCommand.editSecret(env.dotsxPath, '~/.npmrc', key);
+    } finally {
+      process.env.VISUAL = originalVisual;
+      if (originalVisual === undefined) delete process.env.VISUAL;
+    }
+
+    expect(SecretLib.read(secretPath, key).toString()).toBe('token=def456');
+    expect(fs.readFileSync(npmrc, 'utf8')).toBe('token=def456');
+  });
+
+  it('should encrypt every secret with a new key on rotate', () => {
+    const newKey = SecretLib.generateKey();
+
+    expect(secretCommand.rotate(env.dotsxPath, key, newKey)).toBe(1);
+
+    expect(SecretLib.resolveKey()).toEqual(newKey);
+    expect(SecretLib.read(secretPath, newKey).toString()).toBe('//registry.npmjs.org/:_authToken=abc123\n');
+    expect(() => SecretLib.read(secretPath, key)).toThrow('Wrong keyfile');
+  });
+
+  it('should refuse to rotate to a keyfile while DOTSX_PASSPHRASE is set', () => {
+    process.env.DOTSX_PASSPHRASE = 'correct horse';
+    try {
+      expect(() => secretCommand.rotate(env.dotsxPath, key, SecretLib.generateKey())).toThrow(
+        'DOTSX_PASSPHRASE is set and would be used instead of the new keyfile',
+      );
+    } finally {
+      delete process.env.DOTSX_PASSPHRASE;
+    }
+
+    expect(SecretLib.resolveKey()).toEqual(key);
+    expect(SecretLib.read(secretPath, key).toString()).toBe('//registry.npmjs.org/:_authToken=abc123\n');
+  });
+
+  it('should rotate a passphrase to DOTSX_NEW_PASSPHRASE', async () => {
+    const passphrase: SecretKey = { source: 'passphrase', secret: 'correct horse' };
+    secretCommand.rotate(env.dotsxPath, key, passphrase);
+    const osInfo: OsInfo = { platform: 'linux', family: 'linux', distro: 'debian' };
+
+    process.env.DOTSX_PASSPHRASE = passphrase.secret;
+    try {
+      expect(await cliCommand.execute(['secret', 'rotate'], osInfo, env.dotsxPath)).toBe(EXIT_FAILURE);
+
+      process.env.DOTSX_NEW_PASSPHRASE = 'battery staple';
+      expect(await cliCommand.execute(['secret', 'rotate'], osInfo, env.dotsxPath)).toBe(EXIT_SUCCESS);
+    } finally {
+      delete process.env.DOTSX_PASSPHRASE;
+      delete process.env.DOTSX_NEW_PASSPHRASE;
+    }
+
+    expect(SecretLib.read(secretPath, { source: 'passphrase', secret: 'battery staple' }).toString()).toBe(
+      '//registry.npmjs.org/:_authToken=abc123\n',
+    );
+    expect(() => SecretLib.read(secretPath, passphrase)).toThrow('Wrong passphrase');
+  });
+
+  it('should refuse to rotate to the current key', () => {
+    expect(() => secretCommand.rotate(env.dotsxPath, key, key)).toThrow('The new keyfile is the current one');
+  });
+
+  it('should never commit a secret decrypted inside a symlinked directory', async () => {
+    initGitRepo(env);
+    createFakeFiles(env.homeDir, { '.claude/settings.json': '{}', '.claude/settings.local.json': '{"token":"abc"}' });
+    symlinkCommand.linkPath(env.dotsxPath, '~/.claude');
+    secretCommand.addSecret(env.dotsxPath, '~/.claude/settings.local.json', key);
+
+    await GitLib.addAll(env.dotsxDir, symlinkCommand.getDecryptedPaths(env.dotsxPath, env.dotsxDir));
+
+    const staged = exec('git diff --cached --name-only', env.dotsxDir);
+    expect(staged).toContain('settings.local.json.dotsx.enc');
+    expect(staged.split('\n').some((file) => file.endsWith('settings.local.json'))).toBe(false);
+  });
+
+  it('should find plaintext secrets in the staged changes but not encrypted ones', async () => {
+    initGitRepo(env);
+    createFakeFiles(env.homeDir, { '.pgpass': 'localhost:5432:*:me:password=hunter22\n' });
+    symlinkCommand.linkPath(env.dotsxPath, '~/.pgpass');
+
+    await GitLib.addAll(env.dotsxDir);
+
+    const findings = ScanLib.scanDiff(await GitLib.getStagedDiff(env.dotsxDir));
+    expect(findings).toEqual([{ file: 'debian/symlinks/__home__/.pgpass', line: 1, rule: 'password', value: '…' }]);
+  });
+});
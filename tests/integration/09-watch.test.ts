@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { symlinkCommand } from '@/commands/symlink';
+import { watchCommand } from '@/commands/watch';
+import {
+  assertSymlink,
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  type TestEnv,
+  wait,
+} from './setup';
+
+describe('Integration: Watch', () => {
+  let env: TestEnv;
+  let zshrc: string;
+  let dotsxZshrc: string;
+
+  beforeEach(() => {
+    env = createTestEnv('watch');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, { '.zshrc': 'zsh', '.claude/settings.json': '{}' });
+    zshrc = path.join(env.homeDir, '.zshrc');
+    dotsxZshrc = symlinkCommand.linkPath(env.dotsxPath, '~/.zshrc');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('should relink a missing symlink only when repairing', () => {
+    fs.rmSync(zshrc);
+
+    watchCommand.check(env.dotsxPath, [zshrc], { repair: false, commit: false }, new Map());
+    expect(fs.existsSync(zshrc)).toBe(false);
+
+    watchCommand.check(env.dotsxPath, [zshrc], { repair: true, commit: false }, new Map());
+    assertSymlink(dotsxZshrc, zshrc);
+  });
+
+  it('should leave a copy with other content to sync', () => {
+    fs.rmSync(zshrc);
+    fs.writeFileSync(zshrc, 'zsh edited by an installer');
+
+    watchCommand.check(env.dotsxPath, [zshrc], { repair: true, commit: false }, new Map());
+
+    expect(fs.lstatSync(zshrc).isFile()).toBe(true);
+    expect(fs.readFileSync(dotsxZshrc, 'utf8')).toBe('zsh');
+  });
+
+  it('should report new files of tracked directories once, ignored ones aside', () => {
+    symlinkCommand.linkPath(env.dotsxPath, '~/.claude');
+    symlinkCommand.ignoreLink(env.dotsxPath, '~/.claude', ['*.log']);
+    const known = watchCommand.listFiles(symlinkCommand.getSymlinks(env.dotsxPath));
+    const link = symlinkCommand.getSymlinks(env.dotsxPath).find((l) => l.systemPath.endsWith('.claude'));
+    if (!link) throw new Error('expected the .claude link');
+
+    fs.writeFileSync(path.join(env.homeDir, '.claude', 'agents.md'), '# agents');
+    fs.writeFileSync(path.join(env.homeDir, '.claude', 'debug.log'), 'noise');
+
+    expect(watchCommand.reportNewFiles(link, known)).toEqual(['agents.md']);
+    expect(watchCommand.reportNewFiles(link, known)).toEqual([]);
+  });
+
+  it('should repair as soon as a symlink is replaced', async () => {
+    const stop = watchCommand.start(env.dotsxPath, { repair: true, commit: false });
+    try {
+      fs.rmSync(zshrc);
+      fs.writeFileSync(zshrc, 'zsh');
+      await wait(1000);
+
+      assertSymlink(dotsxZshrc, zshrc);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -137,7 +137,7 @@ describe('Integration: Edge Cases', () => {
     it('should handle deeply nested paths', () => {
       createDotsxStructure(env);
 
-      const deepPath = path.join(env.homeDir, '.config/app/deeply/nested/config.json');
+      const deepPath = path.join(env.homeDir, '.app/deeply/nested/config.json');
       FileLib.Directory.create(path.dirname(deepPath));
       fs.writeFileSync(deepPath, '{}');
 
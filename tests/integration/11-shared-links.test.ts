@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { type DoctorIssue, doctorCommand } from '@/commands/doctor';
+import { symlinkCommand } from '@/commands/symlink';
+import { ConfigLib } from '@/lib/config';
+import {
+  assertSymlink,
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  type TestEnv,
+} from './setup';
+
+describe('Integration: Shared Links', () => {
+  let env: TestEnv;
+  let vscode: string;
+  let cursor: string;
+  let dotsxSettings: string;
+
+  beforeEach(() => {
+    env = createTestEnv('shared');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, {
+      '.config/Code/User/settings.json': '{ "editor.fontSize": 14 }',
+      '.config/Cursor/User/settings.json': '{ "editor.fontSize": 14 }',
+    });
+    vscode = path.join(env.homeDir, '.config/Code/User/settings.json');
+    cursor = path.join(env.homeDir, '.config/Cursor/User/settings.json');
+
+    dotsxSettings = symlinkCommand.linkPath(env.dotsxPath, vscode);
+    symlinkCommand.sharePath(env.dotsxPath, vscode, cursor);
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('should store the content once and link every system path to it', () => {
+    assertSymlink(dotsxSettings, vscode);
+    assertSymlink(dotsxSettings, cursor);
+    expect(fs.existsSync(path.join(env.dotsxPath.symlinks, '__xdg_config__/Cursor'))).toBe(false);
+
+    const [entry] = ConfigLib.read(env.dotsxPath.config).links ?? [];
+    expect(entry?.systemPath).toBe('$XDG_CONFIG_HOME/Code/User/settings.json');
+    expect(entry?.options.shareWith).toEqual(['$XDG_CONFIG_HOME/Cursor/User/settings.json']);
+  });
+
+  it('should require a choice when the shared path has other content', () => {
+    createFakeFiles(env.homeDir, { '.config/VSCodium/User/settings.json': '{ "editor.fontSize": 16 }' });
+    const vscodium = path.join(env.homeDir, '.config/VSCodium/User/settings.json');
+
+    expect(() => symlinkCommand.sharePath(env.dotsxPath, vscode, vscodium)).toThrow('differs from its dotsx copy');
+    expect(() => symlinkCommand.sharePath(env.dotsxPath, vscode, cursor)).toThrow('Already tracked by dotsx');
+
+    symlinkCommand.sharePath(env.dotsxPath, vscode, vscodium, 'dotsx');
+    assertSymlink(dotsxSettings, vscodium);
+  });
+
+  it('should check and repair each system path on its own', async () => {
+    fs.rmSync(cursor);
+
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(links.correctSymlinks.map((link) => link.systemPath)).toEqual([vscode]);
+    expect(links.incorrectSymlinks.map((link) => link.systemPath)).toEqual([cursor]);
+
+    const issues: DoctorIssue[] = [];
+    await doctorCommand.checkSymlinks(issues, env.dotsxPath);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Broken symlink: $XDG_CONFIG_HOME/Code/User/settings.json → ~/.config/Cursor/User/settings.json (missing) [debian]',
+    ]);
+
+    expect(symlinkCommand.repairLinks(links.incorrectSymlinks)).toBe(1);
+    assertSymlink(dotsxSettings, cursor);
+  });
+
+  it('should keep the shared content while another system path links to it', () => {
+    symlinkCommand.unlinkPath(env.dotsxPath, vscode, true);
+
+    expect(fs.lstatSync(vscode).isFile()).toBe(true);
+    assertSymlink(dotsxSettings, cursor);
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([
+      expect.objectContaining({ systemPath: cursor, dotsxPath: dotsxSettings }),
+    ]);
+
+    symlinkCommand.unlinkPath(env.dotsxPath, cursor, true);
+    expect(fs.existsSync(dotsxSettings)).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import path from 'node:path';
+import { symlinkCommand } from '@/commands/symlink';
+import { ConfigLib } from '@/lib/config';
+import {
+  assertSymlink,
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  type TestEnv,
+} from './setup';
+
+describe('Integration: XDG Paths', () => {
+  let env: TestEnv;
+
+  beforeEach(() => {
+    env = createTestEnv('xdg');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, { '.config/nvim/init.lua': 'vim.o.number = true' });
+  });
+
+  afterEach(() => {
+    delete process.env.XDG_CONFIG_HOME;
+    cleanupTestEnv(env);
+  });
+
+  it('should store XDG content under a token and the system path as a variable', () => {
+    const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '$XDG_CONFIG_HOME/nvim');
+
+    expect(dotsxPath).toBe(path.join(env.dotsxPath.symlinks, '__xdg_config__', 'nvim'));
+    assertSymlink(dotsxPath, path.join(env.homeDir, '.config/nvim'));
+    expect(ConfigLib.read(env.dotsxPath.config).links).toEqual([
+      expect.objectContaining({ systemPath: '$XDG_CONFIG_HOME/nvim', dotsxPath: '__xdg_config__/nvim' }),
+    ]);
+  });
+
+  it('should link the same content to the XDG directory of another machine', async () => {
+    const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, '~/.config/nvim');
+    process.env.XDG_CONFIG_HOME = path.join(env.homeDir, 'cfg');
+    const systemPath = path.join(env.homeDir, 'cfg/nvim');
+
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(links.incorrectSymlinks).toEqual([expect.objectContaining({ systemPath, drift: 'missing' })]);
+
+    expect(symlinkCommand.repairLinks(links.incorrectSymlinks)).toBe(1);
+    assertSymlink(dotsxPath, systemPath);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import path from 'node:path';
+import { symlinkCommand } from '@/commands/symlink';
+import { ConfigLib } from '@/lib/config';
+import {
+  assertSymlink,
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  type TestEnv,
+} from './setup';
+
+describe('Integration: App Paths', () => {
+  let env: TestEnv;
+
+  beforeEach(() => {
+    env = createTestEnv('app-paths');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, { '.config/Code/User/settings.json': '{}' });
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('should store app content once and the system path as an app path', () => {
+    const common = env.dotsxPath.layers.find((l) => l.scope === 'common');
+    if (!common) throw new Error('expected the common layer');
+
+    const dotsxPath = symlinkCommand.linkPath(env.dotsxPath, 'vscode:User/settings.json', undefined, common);
+
+    expect(dotsxPath).toBe(path.join(common.symlinks, '__app__/vscode/User/settings.json'));
+    assertSymlink(dotsxPath, path.join(env.homeDir, '.config/Code/User/settings.json'));
+    expect(ConfigLib.read(common.config).links).toEqual([
+      expect.objectContaining({
+        systemPath: 'vscode:User/settings.json',
+        dotsxPath: '__app__/vscode/User/settings.json',
+      }),
+    ]);
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([
+      expect.objectContaining({ systemPath: path.join(env.homeDir, '.config/Code/User/settings.json'), dotsxPath }),
+    ]);
+  });
+
+  it('should untrack an app path', () => {
+    symlinkCommand.linkPath(env.dotsxPath, 'vscode:User/settings.json');
+
+    symlinkCommand.unlinkPath(env.dotsxPath, 'vscode:User/settings.json');
+
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)).toEqual([]);
+  });
+});
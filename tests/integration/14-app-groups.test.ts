@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { planCommand } from '@/commands/plan';
+import { symlinkCommand } from '@/commands/symlink';
+import { watchCommand } from '@/commands/watch';
+import { FileLib } from '@/lib/file';
+import { PlanLib } from '@/lib/plan';
+import { StateLib } from '@/lib/state';
+import {
+  assertSymlink,
+  cleanupTestEnv,
+  createDotsxStructure,
+  createFakeFiles,
+  createTestEnv,
+  type TestEnv,
+} from './setup';
+
+describe('Integration: App Groups', () => {
+  let env: TestEnv;
+  let claudeSettings: string;
+
+  beforeEach(() => {
+    env = createTestEnv('app-groups');
+    createDotsxStructure(env);
+    createFakeFiles(env.homeDir, { '.zshrc': 'zsh', '.claude/settings.json': '{}', '.notes': 'notes' });
+    claudeSettings = path.join(env.homeDir, '.claude/settings.json');
+
+    symlinkCommand.linkPath(env.dotsxPath, '~/.zshrc');
+    symlinkCommand.linkPath(env.dotsxPath, '~/.claude/settings.json');
+    symlinkCommand.linkPath(env.dotsxPath, '~/.notes');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  // Only the stubs are in PATH, claude may be installed on the machine running the tests
+  const uninstallClaude = () => {
+    fs.rmSync(path.join(env.tmpDir, 'bin/claude'));
+    process.env.PATH = path.join(env.tmpDir, 'bin');
+  };
+
+  it('should group links by app', () => {
+    const groups = symlinkCommand.groupLinks(symlinkCommand.getSymlinks(env.dotsxPath));
+
+    expect(Object.keys(groups).sort()).toEqual(['claude-code', 'other', 'zsh']);
+    expect(groups['claude-code']?.map((link) => link.systemPath)).toEqual([claudeSettings]);
+  });
+
+  it('should skip the links of a disabled app without removing them', async () => {
+    symlinkCommand.setGroupEnabled(env.dotsxPath, 'claude-code', false);
+    fs.rmSync(claudeSettings);
+
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+
+    expect(links.incorrectSymlinks).toEqual([]);
+    expect(symlinkCommand.getActiveSymlinks(env.dotsxPath)).toHaveLength(2);
+    expect(symlinkCommand.getSymlinks(env.dotsxPath)).toHaveLength(3);
+    expect(StateLib.getDisabledGroups()).toEqual(['claude-code']);
+  });
+
+  it('should relink every link of an app when enabled again', async () => {
+    symlinkCommand.setGroupEnabled(env.dotsxPath, 'claude-code', false);
+    fs.rmSync(claudeSettings);
+
+    expect(await symlinkCommand.enableGroups(env.dotsxPath, ['claude-code'])).toBe(0);
+
+    assertSymlink(path.join(env.dotsxPath.symlinks, '__home__/.claude/settings.json'), claudeSettings);
+    expect(StateLib.getDisabledGroups()).toEqual([]);
+  });
+
+  it('should leave the links of an uninstalled app as is', async () => {
+    uninstallClaude();
+    fs.rmSync(claudeSettings);
+
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+
+    expect(links.uninstalledSymlinks.map((link) => link.systemPath)).toEqual([claudeSettings]);
+    expect(links.incorrectSymlinks).toEqual([]);
+    expect(fs.existsSync(claudeSettings)).toBe(false);
+  });
+
+  it('should not ask again about an uninstalled app left as is', async () => {
+    uninstallClaude();
+    const links = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(Object.keys(symlinkCommand.getUnansweredGroups(links.uninstalledSymlinks))).toEqual(['claude-code']);
+
+    StateLib.setKeptGroups(['claude-code']);
+
+    expect(symlinkCommand.getUnansweredGroups(links.uninstalledSymlinks)).toEqual({});
+  });
+
+  it('should ask again about an app left as is once it was installed', async () => {
+    StateLib.setKeptGroups(['claude-code']);
+
+    const installed = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(symlinkCommand.getUnansweredGroups(installed.uninstalledSymlinks)).toEqual({});
+    expect(StateLib.getKeptGroups()).toEqual([]);
+
+    uninstallClaude();
+    const uninstalled = await symlinkCommand.checkStatus(env.dotsxPath);
+    expect(Object.keys(symlinkCommand.getUnansweredGroups(uninstalled.uninstalledSymlinks))).toEqual(['claude-code']);
+  });
+
+  it('should neither plan nor apply the links of an uninstalled app', () => {
+    uninstallClaude();
+    fs.rmSync(claudeSettings);
+    const zshrc = path.join(env.homeDir, '.zshrc');
+    fs.rmSync(zshrc);
+
+    const plan = PlanLib.create('debian', planCommand.planSymlinks(env.dotsxPath));
+
+    expect(plan.actions.map((action) => action.title)).toEqual([`Link ${FileLib.display(zshrc)}`]);
+    expect(planCommand.apply(plan)).toBe(0);
+    expect(fs.lstatSync(zshrc).isSymbolicLink()).toBe(true);
+    expect(fs.existsSync(claudeSettings)).toBe(false);
+  });
+
+  it('should not repair the links of an uninstalled app when watching', () => {
+    uninstallClaude();
+    fs.rmSync(claudeSettings);
+
+    watchCommand.check(env.dotsxPath, [claudeSettings], { repair: true, commit: false }, new Map());
+
+    expect(fs.existsSync(claudeSettings)).toBe(false);
+  });
+
+  it('should reject an unknown app', () => {
+    expect(() => symlinkCommand.setGroupEnabled(env.dotsxPath, 'nope', false)).toThrow('Unknown app: nope');
+  });
+});
@@ -4,6 +4,7 @@ import os from 'node:os';
 import path from 'node:path';
 import { type DotsxOsPath, resolveDotsxOsPath } from '@/lib/constants';
 import { FileLib } from '@/lib/file';
+import { suggestions } from '@/suggestions';
 
 export interface TestEnv {
   tmpDir: string;
@@ -25,14 +26,25 @@ export function createTestEnv(testName: string): TestEnv {
   const homeDir = path.join(tmpDir, 'home');
   const dotsxDir = path.join(tmpDir, 'dotsx');
 
+  const binDir = path.join(tmpDir, 'bin');
+
   fs.mkdirSync(homeDir, { recursive: true });
   fs.mkdirSync(dotsxDir, { recursive: true });
+  fs.mkdirSync(binDir, { recursive: true });
+
+  // Every built-in app is installed, whatever this machine has
+  for (const suggestion of Object.values(suggestions)) {
+    for (const binary of suggestion.binaries ?? [suggestion.name]) {
+      fs.writeFileSync(path.join(binDir, binary), '#!/bin/sh\n', { mode: 0o755 });
+    }
+  }
 
   // Save original env
   const originalEnv = {
     HOME: process.env.HOME,
     DOTSX_PATH: process.env.DOTSX_PATH,
     SHELL: process.env.SHELL,
+    PATH: process.env.PATH,
     homedir: os.homedir,
   };
 
@@ -40,6 +52,7 @@ export function createTestEnv(testName: string): TestEnv {
   process.env.HOME = homeDir;
   process.env.DOTSX_PATH = dotsxDir;
   process.env.SHELL = process.env.SHELL || '/bin/bash';
+  process.env.PATH = `${binDir}${path.delimiter}${process.env.PATH ?? ''}`;
 
   // Patch os.homedir() to return test homeDir
   // @ts-ignore - Monkey patching for tests
@@ -65,6 +78,7 @@ export function cleanupTestEnv(env: TestEnv): void {
   process.env.HOME = env.originalEnv.HOME;
   process.env.DOTSX_PATH = env.originalEnv.DOTSX_PATH;
   process.env.SHELL = env.originalEnv.SHELL;
+  process.env.PATH = env.originalEnv.PATH;
 
   // Restore os.homedir
   if (env.originalEnv.homedir) {
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { BackupLib, type BackupSnapshot } from '@/lib/backup';
+import { PlanLib, type PlanStep } from '@/lib/plan';
+import { SudoLib } from '@/lib/sudo';
+
+describe('BackupLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-backup');
+  const backupDir = path.join(testDir, 'backups');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+    process.env.DOTSX_BACKUP_PATH = backupDir;
+  });
+
+  afterEach(() => {
+    mock.restore();
+    delete process.env.DOTSX_BACKUP_PATH;
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('snapshot', () => {
+    it('should copy files and directories with a manifest', () => {
+      const file = path.join(testDir, 'file.txt');
+      const dir = path.join(testDir, 'dir');
+      fs.writeFileSync(file, 'content');
+      fs.mkdirSync(dir);
+      fs.writeFileSync(path.join(dir, 'nested.txt'), 'nested');
+
+      const backup = BackupLib.snapshot([file, dir], 'test');
+
+      expect(backup?.reason).toBe('test');
+      expect(backup?.entries.map((entry) => entry.type)).toEqual(['file', 'directory']);
+
+      const snapshotDir = path.join(backupDir, backup?.id ?? '');
+      expect(fs.readFileSync(path.join(snapshotDir, 'files', file), 'utf8')).toBe('content');
+      expect(fs.readFileSync(path.join(snapshotDir, 'files', dir, 'nested.txt'), 'utf8')).toBe('nested');
+      expect(JSON.parse(fs.readFileSync(path.join(snapshotDir, 'manifest.json'), 'utf8'))).toEqual(backup);
+    });
+
+    it('should copy what the user cannot read through sudo', () => {
+      const sudoers = path.join(testDir, 'sudoers');
+      fs.writeFileSync(sudoers, 'root ALL=(ALL) ALL');
+
+      // As a user who cannot read it, sudo running the steps as a plain shell
+      spyOn(SudoLib, 'canRead').mockImplementation((p) => p !== sudoers);
+      const run = spyOn(SudoLib, 'run').mockImplementation((steps: PlanStep[]) => {
+        execSync(`sh -c ${SudoLib.quote(['set -e', ...steps.map(SudoLib.toCommand)].join('\n'))}`, { stdio: 'pipe' });
+      });
+
+      const backup = BackupLib.snapshot([sudoers], 'test');
+
+      const backupPath = path.join(backupDir, backup?.id ?? '', 'files', sudoers);
+      expect(run).toHaveBeenCalledWith([{ op: 'copy', from: sudoers, to: backupPath }]);
+      expect(fs.readFileSync(backupPath, 'utf8')).toBe('root ALL=(ALL) ALL');
+      expect(backup?.entries).toEqual([
+        { originalPath: sudoers, backupPath: path.join('files', sudoers), type: 'file' },
+      ]);
+    });
+
+    it('should record symlinks with their target', () => {
+      const link = path.join(testDir, 'link');
+      fs.symlinkSync('/nonexistent/target', link);
+
+      const backup = BackupLib.snapshot([link], 'test');
+
+      expect(backup?.entries).toEqual([{ originalPath: link, type: 'symlink', target: '/nonexistent/target' }]);
+    });
+
+    it('should return null when no path exists', () => {
+      expect(BackupLib.snapshot([path.join(testDir, 'missing')], 'test')).toBeNull();
+      expect(fs.existsSync(backupDir)).toBe(false);
+    });
+
+    it('should never reuse a snapshot directory', () => {
+      const file = path.join(testDir, 'file.txt');
+      fs.writeFileSync(file, 'content');
+
+      const first = BackupLib.snapshot([file], 'first');
+      const second = BackupLib.snapshot([file], 'second');
+
+      expect(first?.id).not.toBe(second?.id);
+    });
+  });
+
+  describe('list', () => {
+    it('should list backups newest first', () => {
+      const file = path.join(testDir, 'file.txt');
+      fs.writeFileSync(file, 'content');
+
+      BackupLib.snapshot([file], 'first');
+      BackupLib.snapshot([file], 'second');
+
+      expect(BackupLib.list().map((backup) => backup.reason)).toEqual(['second', 'first']);
+    });
+
+    it('should return an empty list without backups', () => {
+      expect(BackupLib.list()).toEqual([]);
+    });
+  });
+
+  describe('find', () => {
+    it('should throw for unknown backups', () => {
+      expect(() => BackupLib.find('nope')).toThrow('Backup not found: nope');
+    });
+  });
+
+  describe('planRestore', () => {
+    it('should put files and symlinks back in place', () => {
+      const file = path.join(testDir, 'file.txt');
+      const link = path.join(testDir, 'link');
+      fs.writeFileSync(file, 'original');
+      fs.symlinkSync(file, link);
+
+      const backup = BackupLib.snapshot([file, link], 'test') as BackupSnapshot;
+      fs.writeFileSync(file, 'overwritten');
+      fs.rmSync(link);
+
+      PlanLib.executeSteps(BackupLib.planRestore(backup));
+
+      expect(fs.readFileSync(file, 'utf8')).toBe('original');
+      expect(fs.readlinkSync(link)).toBe(file);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test';
+import { CliLib } from '@/lib/cli';
+
+describe('CliLib', () => {
+  describe('parse', () => {
+    it('should split command, action and args', () => {
+      const result = CliLib.parse(['symlink', 'add', '~/.zshrc', '~/.bashrc']);
+      expect(result.command).toBe('symlink');
+      expect(result.action).toBe('add');
+      expect(result.args).toEqual(['~/.zshrc', '~/.bashrc']);
+    });
+
+    it('should return undefined command for empty argv', () => {
+      const result = CliLib.parse([]);
+      expect(result.command).toBeUndefined();
+      expect(result.action).toBeUndefined();
+      expect(result.args).toEqual([]);
+    });
+
+    it('should parse message flag with short alias', () => {
+      expect(CliLib.parse(['git', 'sync', '-m', 'my message']).flags.message).toBe('my message');
+      expect(CliLib.parse(['git', 'sync', '--message', 'other']).flags.message).toBe('other');
+    });
+
+    it('should parse boolean flags', () => {
+      const result = CliLib.parse(['doctor', '--fix', '-h']);
+      expect(result.flags.fix).toBe(true);
+      expect(result.flags.help).toBe(true);
+    });
+
+    it('should default boolean flags to false', () => {
+      const result = CliLib.parse(['doctor']);
+      expect(result.flags.fix).toBe(false);
+      expect(result.flags.help).toBe(false);
+      expect(result.flags.message).toBeUndefined();
+    });
+
+    it('should throw on unknown flag', () => {
+      expect(() => CliLib.parse(['doctor', '--unknown'])).toThrow();
+    });
+
+    it('should throw when a string flag has no value', () => {
+      expect(() => CliLib.parse(['git', 'sync', '-m'])).toThrow();
+    });
+  });
+
+  describe('formatUsage', () => {
+    it('should align descriptions', () => {
+      const output = CliLib.formatUsage({ short: 'First', 'much longer': 'Second' });
+      const lines = output.split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toBe('  dotsx short        First');
+      expect(lines[1]).toBe('  dotsx much longer  Second');
+    });
+  });
+});
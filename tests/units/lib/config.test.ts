@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ConfigLib } from '@/lib/config';
+
+describe('ConfigLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-config');
+  const configPath = path.join(testDir, 'dotsx.config.json');
+  const symlinksDir = path.join(testDir, 'symlinks');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(symlinksDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('read', () => {
+    it('should return empty config for missing file', () => {
+      expect(ConfigLib.read(configPath)).toEqual({});
+    });
+
+    it('should return empty config for empty file', () => {
+      fs.writeFileSync(configPath, '');
+      expect(ConfigLib.read(configPath)).toEqual({});
+    });
+
+    it('should throw on invalid JSON', () => {
+      fs.writeFileSync(configPath, '{ invalid');
+      expect(() => ConfigLib.read(configPath)).toThrow('Invalid dotsx.config.json');
+    });
+  });
+
+  describe('create', () => {
+    it('should create an empty manifest', () => {
+      ConfigLib.create(configPath);
+      expect(ConfigLib.read(configPath)).toEqual({ links: [] });
+    });
+
+    it('should not overwrite an existing config', () => {
+      fs.writeFileSync(configPath, '{"links": [], "custom": true}');
+      ConfigLib.create(configPath);
+      expect(ConfigLib.read(configPath)).toEqual({ links: [], custom: true } as any);
+    });
+  });
+
+  describe('toLinkEntry', () => {
+    it('should store portable paths and file kind', () => {
+      const systemPath = path.join(os.homedir(), '.zshrc');
+      const dotsxPath = path.join(symlinksDir, '__home__', '.zshrc');
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.writeFileSync(dotsxPath, '');
+
+      expect(ConfigLib.toLinkEntry(systemPath, dotsxPath, symlinksDir)).toEqual({
+        systemPath: '~/.zshrc',
+        dotsxPath: '__home__/.zshrc',
+        kind: 'file',
+        options: {},
+      });
+    });
+
+    it('should detect directory kind', () => {
+      const dotsxPath = path.join(symlinksDir, 'etc', 'app');
+      fs.mkdirSync(dotsxPath, { recursive: true });
+
+      const entry = ConfigLib.toLinkEntry('/etc/app', dotsxPath, symlinksDir);
+
+      expect(entry.systemPath).toBe('/etc/app');
+      expect(entry.kind).toBe('directory');
+    });
+  });
+
+  describe('resolveLinkEntry', () => {
+    it('should resolve absolute paths', () => {
+      const resolved = ConfigLib.resolveLinkEntry(
+        { systemPath: '~/.zshrc', dotsxPath: '__home__/.zshrc', kind: 'file', options: {} },
+        symlinksDir,
+      );
+
+      expect(resolved.systemPath).toBe(path.join(os.homedir(), '.zshrc'));
+      expect(resolved.dotsxPath).toBe(path.join(symlinksDir, '__home__', '.zshrc'));
+    });
+  });
+
+  describe('upsertLink and removeLink', () => {
+    it('should add a link once per system path', () => {
+      const entry = { systemPath: '~/.zshrc', dotsxPath: '__home__/.zshrc', kind: 'file' as const, options: {} };
+
+      ConfigLib.upsertLink(configPath, entry);
+      ConfigLib.upsertLink(configPath, { ...entry, options: { updated: true } });
+
+      const links = ConfigLib.read(configPath).links;
+      expect(links).toHaveLength(1);
+      expect(links?.[0]?.options).toEqual({ updated: true });
+    });
+
+    it('should remove a link by absolute system path', () => {
+      ConfigLib.upsertLink(configPath, {
+        systemPath: '~/.zshrc',
+        dotsxPath: '__home__/.zshrc',
+        kind: 'file',
+        options: {},
+      });
+
+      expect(ConfigLib.removeLink(configPath, path.join(os.homedir(), '.zshrc'))).toBe(true);
+      expect(ConfigLib.removeLink(configPath, path.join(os.homedir(), '.zshrc'))).toBe(false);
+      expect(ConfigLib.read(configPath).links).toEqual([]);
+    });
+  });
+
+  describe('shareLink', () => {
+    const entry = {
+      systemPath: '$XDG_CONFIG_HOME/Code/User/settings.json',
+      dotsxPath: '__xdg_config__/Code/User/settings.json',
+      kind: 'file' as const,
+      options: { mode: 'copy' as const },
+    };
+
+    it('should add system paths to a tracked link only', () => {
+      ConfigLib.upsertLink(configPath, entry);
+
+      expect(
+        ConfigLib.shareLink(configPath, '~/.config/Code/User/settings.json', '~/.config/Cursor/User/settings.json'),
+      ).toBe(true);
+      expect(ConfigLib.shareLink(configPath, '~/.zshrc', '~/.zshrc.local')).toBe(false);
+
+      const [link] = ConfigLib.read(configPath).links ?? [];
+      expect(link?.options).toEqual({ mode: 'copy', shareWith: ['$XDG_CONFIG_HOME/Cursor/User/settings.json'] });
+      expect(link && ConfigLib.getSystemPaths(link)).toEqual([
+        '$XDG_CONFIG_HOME/Code/User/settings.json',
+        '$XDG_CONFIG_HOME/Cursor/User/settings.json',
+      ]);
+    });
+
+    it('should keep a shared link tracked when one of its system paths is removed', () => {
+      ConfigLib.upsertLink(configPath, entry);
+      ConfigLib.shareLink(configPath, entry.systemPath, '~/.config/Cursor/User/settings.json');
+      ConfigLib.shareLink(configPath, entry.systemPath, '~/.config/VSCodium/User/settings.json');
+
+      expect(ConfigLib.removeLink(configPath, path.join(os.homedir(), '.config/Code/User/settings.json'))).toBe(true);
+      expect(ConfigLib.read(configPath).links).toEqual([
+        {
+          ...entry,
+          systemPath: '$XDG_CONFIG_HOME/Cursor/User/settings.json',
+          options: { mode: 'copy', shareWith: ['$XDG_CONFIG_HOME/VSCodium/User/settings.json'] },
+        },
+      ]);
+
+      ConfigLib.removeLink(configPath, '~/.config/VSCodium/User/settings.json');
+      expect(ConfigLib.read(configPath).links?.[0]?.options).toEqual({ mode: 'copy' });
+    });
+  });
+});
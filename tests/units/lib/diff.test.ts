@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DiffLib } from '@/lib/diff';
+
+describe('DiffLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-diff');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(testDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  describe('isSame', () => {
+    it('should compare files by content', () => {
+      expect(DiffLib.isSame(write('a', 'same'), write('b', 'same'))).toBe(true);
+      expect(DiffLib.isSame(write('c', 'one'), write('d', 'two'))).toBe(false);
+    });
+
+    it('should compare directories recursively', () => {
+      write('old/x/a.json', '{}');
+      write('new/x/a.json', '{}');
+      expect(DiffLib.isSame(path.join(testDir, 'old'), path.join(testDir, 'new'))).toBe(true);
+
+      write('new/x/b.json', '{}');
+      expect(DiffLib.isSame(path.join(testDir, 'old'), path.join(testDir, 'new'))).toBe(false);
+    });
+
+    it('should never match a file with a directory', () => {
+      write('dir/a', '');
+      expect(DiffLib.isSame(write('file', ''), path.join(testDir, 'dir'))).toBe(false);
+    });
+  });
+
+  describe('compareDirectories', () => {
+    it('should list files per side and changed files', () => {
+      write('old/only-old.json', '{}');
+      write('old/changed.json', '1');
+      write('old/same.json', '{}');
+      write('new/only-new.json', '{}');
+      write('new/changed.json', '2');
+      write('new/same.json', '{}');
+
+      const diff = DiffLib.compareDirectories(path.join(testDir, 'old'), path.join(testDir, 'new'));
+
+      expect(diff).toEqual({ onlyInOld: ['only-old.json'], onlyInNew: ['only-new.json'], changed: ['changed.json'] });
+      expect(DiffLib.formatDirectoryDiff(diff, 'dotsx', 'system')).toBe(
+        '- only-old.json (only in dotsx)\n+ only-new.json (only in system)\n~ changed.json (changed)',
+      );
+    });
+  });
+
+  describe('unified', () => {
+    it('should print hunks with context', () => {
+      const oldFile = write('old', 'a\nb\nc\nd\ne\nf\ng\nh\n');
+      const newFile = write('new', 'a\nb\nc\nD\ne\nf\ng\nh\n');
+
+      expect(DiffLib.unified(oldFile, newFile, 'dotsx', 'system')).toBe(
+        ['--- dotsx', '+++ system', '@@ -1,7 +1,7 @@', ' a', ' b', ' c', '-d', '+D', ' e', ' f', ' g'].join('\n'),
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const changed = [...lines];
+      changed[1] = 'first';
+      changed[18] = 'last';
+
+      const diff = DiffLib.unified(write('old', lines.join('\n')), write('new', changed.join('\n')));
+
+      expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual([
+        '@@ -1,5 +1,5 @@',
+        '@@ -16,5 +16,5 @@',
+      ]);
+    });
+
+    it('should only print headers for identical files', () => {
+      expect(DiffLib.unified(write('old', 'a'), write('new', 'a'), 'x', 'y')).toBe('--- x\n+++ y');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DiscoverLib } from '@/lib/discover';
+
+describe('DiscoverLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-discover');
+  const configDir = path.join(testDir, '.config');
+
+  const write = (relPath: string, content: string | Buffer) => {
+    const filePath = path.join(testDir, relPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('discover', () => {
+    it('should rank known config names and config files first', () => {
+      write('.gitconfig', '[user]\n  name = me');
+      write('.notes', 'some text');
+      write('.config/nvim/init.lua', 'vim.o.number = true');
+      write('.config/someapp/data.txt', 'data');
+      write('not-a-dotfile', 'ignored');
+
+      const found = DiscoverLib.discover([], testDir, configDir).map((p) => path.relative(testDir, p.systemPath));
+
+      expect(found).toEqual(['.config/nvim', '.gitconfig', '.config/someapp', '.notes']);
+    });
+
+    it('should skip caches, histories, credentials and binaries', () => {
+      write('.zsh_history', 'ls');
+      write('.cache/thing', 'cached');
+      write('.ssh/config', 'Host *');
+      write('.config/app.log', 'log');
+      write('.blob', Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0x01]));
+
+      expect(DiscoverLib.discover([], testDir, configDir)).toEqual([]);
+    });
+
+    it('should skip large directories', () => {
+      for (let i = 0; i < 501; i++) write(`.config/bigapp/${i}.json`, '{}');
+
+      expect(DiscoverLib.discover([], testDir, configDir)).toEqual([]);
+    });
+
+    it('should skip tracked paths, their content and the directories holding them', () => {
+      write('.zshrc', 'zsh');
+      write('.claude/settings.json', '{}');
+      write('.config/git/config', '[core]');
+      fs.symlinkSync(path.join(testDir, '.zshrc'), path.join(testDir, '.zshrc.link'));
+
+      const trackedPaths = [path.join(testDir, '.zshrc'), path.join(testDir, '.claude/settings.json'), configDir];
+
+      expect(DiscoverLib.discover(trackedPaths, testDir, configDir)).toEqual([]);
+    });
+  });
+
+  describe('rate', () => {
+    it('should explain the score', () => {
+      write('.config/alacritty/alacritty.toml', '[font]');
+
+      expect(DiscoverLib.rate(path.join(configDir, 'alacritty'))).toEqual({
+        systemPath: path.join(configDir, 'alacritty'),
+        type: 'directory',
+        score: 7,
+        reasons: ['known config', 'config files'],
+      });
+    });
+  });
+});
@@ -18,6 +18,8 @@ describe('FileLib', () => {
     if (fs.existsSync(testDir)) {
       fs.rmSync(testDir, { recursive: true });
     }
+    delete process.env.XDG_CONFIG_HOME;
+    delete process.env.DOTSX_TEST_DIR;
   });
 
   describe('isExists', () => {
@@ -99,6 +101,29 @@ describe('FileLib', () => {
     it('should return absolute paths unchanged', () => {
       expect(FileLib.expand('/absolute/path')).toBe('/absolute/path');
     });
+
+    it('should expand variables, with their default when unset', () => {
+      process.env.DOTSX_TEST_DIR = testDir;
+
+      expect(FileLib.expand('$DOTSX_TEST_DIR/app')).toBe(path.join(testDir, 'app'));
+      expect(FileLib.expand(`\${DOTSX_TEST_DIR}/app`)).toBe(path.join(testDir, 'app'));
+      expect(FileLib.expand(`\${DOTSX_UNSET:-~/app}/config`)).toBe(path.join(os.homedir(), 'app/config'));
+      expect(FileLib.expand('$HOME/.zshrc')).toBe(path.join(os.homedir(), '.zshrc'));
+      expect(FileLib.expand('$DOTSX_UNSET/app')).toBe('$DOTSX_UNSET/app');
+    });
+
+    it('should resolve XDG tokens and variables from the environment or their default', () => {
+      expect(FileLib.expand('__xdg_config__/nvim')).toBe(path.join(os.homedir(), '.config/nvim'));
+      expect(FileLib.expand('$XDG_DATA_HOME/fonts')).toBe(path.join(os.homedir(), '.local/share/fonts'));
+
+      process.env.XDG_CONFIG_HOME = testDir;
+      expect(FileLib.expand('__xdg_config__/nvim')).toBe(path.join(testDir, 'nvim'));
+      expect(FileLib.expand('$XDG_CONFIG_HOME/nvim')).toBe(path.join(testDir, 'nvim'));
+
+      // Relative values are ignored, as the XDG spec requires
+      process.env.XDG_CONFIG_HOME = 'relative';
+      expect(FileLib.expand('__xdg_config__')).toBe(path.join(os.homedir(), '.config'));
+    });
   });
 
   describe('display', () => {
@@ -109,6 +134,38 @@ describe('FileLib', () => {
     it('should return original path if no __home__/', () => {
       expect(FileLib.display('/etc/config')).toBe('/etc/config');
     });
+
+    it('should show XDG tokens as their variable', () => {
+      expect(FileLib.display('/dotsx/debian/symlinks/__xdg_config__/nvim')).toBe('$XDG_CONFIG_HOME/nvim');
+    });
+
+    it('should show app content as its app path', () => {
+      expect(FileLib.display('/dotsx/common/symlinks/__app__/vscode/User/settings.json')).toBe(
+        'vscode:User/settings.json',
+      );
+    });
+  });
+
+  describe('toManifestPath', () => {
+    it('should store paths relative to their XDG base directory', () => {
+      process.env.XDG_CONFIG_HOME = testDir;
+
+      expect(FileLib.toManifestPath(path.join(testDir, 'nvim/init.lua'))).toBe('$XDG_CONFIG_HOME/nvim/init.lua');
+      expect(FileLib.toManifestPath(path.join(os.homedir(), '.config/nvim'))).toBe('~/.config/nvim');
+      expect(FileLib.toManifestPath(path.join(os.homedir(), '.local/state/app'))).toBe('$XDG_STATE_HOME/app');
+      expect(FileLib.toManifestPath('/etc/hosts')).toBe('/etc/hosts');
+    });
+  });
+
+  describe('toPortablePath', () => {
+    it('should replace home directory with ~', () => {
+      const home = os.homedir();
+      expect(FileLib.toPortablePath(path.join(home, '.config/app'))).toBe('~/.config/app');
+    });
+
+    it('should return non-home paths unchanged', () => {
+      expect(FileLib.toPortablePath('/etc/hosts')).toBe('/etc/hosts');
+    });
   });
 
   describe('toDotsxPath', () => {
@@ -119,6 +176,14 @@ describe('FileLib', () => {
       expect(result).toBe(path.join(testDir, '__home__', '.zshrc'));
     });
 
+    it('should store XDG base directory content under a token', () => {
+      process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+
+      const result = FileLib.toDotsxPath(path.join(testDir, 'config/nvim/init.lua'), testDir);
+      expect(result).toBe(path.join(testDir, '__xdg_config__', 'nvim/init.lua'));
+      expect(FileLib.expand(path.relative(testDir, result))).toBe(path.join(testDir, 'config/nvim/init.lua'));
+    });
+
     it('should handle non-home paths', () => {
       const result = FileLib.toDotsxPath('/etc/config', testDir);
       expect(result).toBe(path.join(testDir, 'etc/config'));
@@ -314,6 +379,20 @@ describe('FileLib', () => {
     });
   });
 
+  describe('Directory.readFiles', () => {
+    it('should list files recursively', () => {
+      fs.mkdirSync(path.join(testDir, 'a', 'b'), { recursive: true });
+      fs.writeFileSync(path.join(testDir, 'root.txt'), '');
+      fs.writeFileSync(path.join(testDir, 'a', 'b', 'deep.txt'), '');
+
+      expect(FileLib.Directory.readFiles(testDir).sort()).toEqual(['a/b/deep.txt', 'root.txt']);
+    });
+
+    it('should return empty array for non-existing directory', () => {
+      expect(FileLib.Directory.readFiles('/non/existing')).toEqual([]);
+    });
+  });
+
   describe('Directory.copy', () => {
     it('should copy directory recursively', () => {
       const src = path.join(testDir, 'src');
@@ -1,4 +1,8 @@
 import { describe, expect, it } from 'bun:test';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { GitLib } from '@/lib/git';
 
 describe('GitLib', () => {
@@ -194,6 +198,47 @@ describe('GitLib', () => {
     });
   });
 
+  describe('commit', () => {
+    it('should commit messages with quotes and shell characters as is', async () => {
+      const repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dotsx-test-git-'));
+      try {
+        execSync('git init -q && git config user.name test && git config user.email test@example.com', {
+          cwd: repoDir,
+        });
+        fs.writeFileSync(path.join(repoDir, 'file'), 'content');
+        await GitLib.addAll(repoDir);
+
+        const message = `it's "quoted" $(touch pwned) \`touch pwned\``;
+        await GitLib.commit(repoDir, message);
+
+        expect(execSync('git log -1 --format=%B', { cwd: repoDir }).toString().trim()).toBe(message);
+        expect(fs.existsSync(path.join(repoDir, 'pwned'))).toBe(false);
+      } finally {
+        fs.rmSync(repoDir, { recursive: true });
+      }
+    });
+  });
+
+  describe('removeFromIndex', () => {
+    it('should untrack files whose names have quotes and shell characters', async () => {
+      const repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dotsx-test-git-'));
+      try {
+        const name = `.it's "$(touch pwned)"`;
+        execSync('git init -q', { cwd: repoDir });
+        fs.writeFileSync(path.join(repoDir, name), 'content');
+        await GitLib.addAll(repoDir);
+
+        await GitLib.removeFromIndex(repoDir, [name]);
+
+        expect(execSync('git ls-files', { cwd: repoDir }).toString()).toBe('');
+        expect(fs.existsSync(path.join(repoDir, name))).toBe(true);
+        expect(fs.existsSync(path.join(repoDir, 'pwned'))).toBe(false);
+      } finally {
+        fs.rmSync(repoDir, { recursive: true });
+      }
+    });
+  });
+
   describe('cloneRepository', () => {
     it('should validate URL before cloning', async () => {
       await expect(GitLib.cloneRepository('https://github.com/user/repo.git', '/tmp/test')).rejects.toThrow(
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { IgnoreLib } from '@/lib/ignore';
+
+describe('IgnoreLib', () => {
+  describe('parse', () => {
+    it('should skip blank lines and comments', () => {
+      const rules = IgnoreLib.parse(['# caches', '', '  *.log  ', '!keep.log', 'cache/']);
+
+      expect(rules.map(({ pattern, negate, directoryOnly }) => ({ pattern, negate, directoryOnly }))).toEqual([
+        { pattern: '*.log', negate: false, directoryOnly: false },
+        { pattern: '!keep.log', negate: true, directoryOnly: false },
+        { pattern: 'cache/', negate: false, directoryOnly: true },
+      ]);
+    });
+  });
+
+  describe('isIgnored', () => {
+    it('should match unanchored patterns at any depth', () => {
+      const rules = IgnoreLib.parse(['*.log']);
+
+      expect(IgnoreLib.isIgnored('debug.log', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('logs/today/debug.log', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('debug.log.json', rules)).toBe(false);
+    });
+
+    it('should anchor patterns containing a slash', () => {
+      const rules = IgnoreLib.parse(['/todos', 'projects/*.jsonl']);
+
+      expect(IgnoreLib.isIgnored('todos', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('nested/todos', rules)).toBe(false);
+      expect(IgnoreLib.isIgnored('projects/a.jsonl', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('projects/x/a.jsonl', rules)).toBe(false);
+    });
+
+    it('should ignore everything inside an ignored directory', () => {
+      const rules = IgnoreLib.parse(['cache/']);
+
+      expect(IgnoreLib.isIgnored('cache/data/blob.bin', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('cache', rules)).toBe(false);
+      expect(IgnoreLib.isIgnored('cache', rules, true)).toBe(true);
+    });
+
+    it('should support double star and negation, the last rule winning', () => {
+      const rules = IgnoreLib.parse(['**/node_modules/**', '*.lock', '!bun.lock']);
+
+      expect(IgnoreLib.isIgnored('a/node_modules/x/index.js', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('yarn.lock', rules)).toBe(true);
+      expect(IgnoreLib.isIgnored('bun.lock', rules)).toBe(false);
+    });
+
+    it('should ignore nothing without rules', () => {
+      expect(IgnoreLib.isIgnored('anything', [])).toBe(false);
+    });
+  });
+
+  describe('toGitExcludes', () => {
+    it('should anchor patterns to the tracked directory', () => {
+      expect(IgnoreLib.toGitExcludes(['# comment', '*.log', '/cache/', '!keep.log'], '/debian/symlinks/a')).toEqual([
+        '/debian/symlinks/a/**/*.log',
+        '/debian/symlinks/a/cache/',
+        '!/debian/symlinks/a/**/keep.log',
+      ]);
+    });
+  });
+});
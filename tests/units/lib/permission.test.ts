@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PermissionLib } from '@/lib/permission';
+import { SudoLib } from '@/lib/sudo';
+
+describe('PermissionLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-permission');
+  const filePath = path.join(testDir, 'netrc');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(filePath, 'machine example.com');
+    fs.chmodSync(filePath, 0o600);
+  });
+
+  afterEach(() => {
+    mock.restore();
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should read the mode and owner name', () => {
+    const attributes = PermissionLib.read(filePath);
+
+    expect(attributes.mode).toBe('600');
+    expect(attributes.owner).toBe(execSync('id -un').toString().trim());
+  });
+
+  it('should leave out the owner when it is the current user', () => {
+    expect(PermissionLib.record(filePath)).toEqual({ mode: '600' });
+  });
+
+  it('should record the non-default modes of a tree, skipping ignored paths', () => {
+    fs.mkdirSync(path.join(testDir, 'private'), { mode: 0o700 });
+    fs.chmodSync(path.join(testDir, 'private'), 0o700);
+    fs.writeFileSync(path.join(testDir, 'known_hosts'), '');
+    fs.chmodSync(path.join(testDir, 'known_hosts'), 0o644);
+    fs.writeFileSync(path.join(testDir, 'debug.log'), '');
+    fs.chmodSync(path.join(testDir, 'debug.log'), 0o600);
+
+    expect(PermissionLib.recordTree(testDir, (relPath) => relPath.endsWith('.log'))).toEqual({
+      netrc: { mode: '600' },
+      private: { mode: '700' },
+    });
+  });
+
+  it('should read what the user cannot reach as root', () => {
+    fs.mkdirSync(path.join(testDir, 'sudoers.d'));
+    fs.writeFileSync(path.join(testDir, 'sudoers.d', 'admins'), '');
+    fs.chmodSync(path.join(testDir, 'sudoers.d', 'admins'), 0o440);
+    fs.writeFileSync(path.join(testDir, 'sudoers.d', 'debug.log'), '');
+    fs.chmodSync(path.join(testDir, 'sudoers.d', 'debug.log'), 0o600);
+
+    // As a user who cannot, sudo running the command as a plain shell
+    spyOn(SudoLib, 'canReach').mockReturnValue(false);
+    spyOn(SudoLib, 'canRead').mockReturnValue(false);
+    const output = spyOn(SudoLib, 'output').mockImplementation((command) => execSync(command).toString());
+
+    expect(PermissionLib.read(filePath)).toEqual({
+      mode: '600',
+      owner: execSync('id -un').toString().trim(),
+      group: execSync('id -gn').toString().trim(),
+    });
+    expect(PermissionLib.record(filePath)).toEqual({ mode: '600' });
+    expect(PermissionLib.recordTree(testDir, (relPath) => relPath.endsWith('.log'))).toEqual({
+      netrc: { mode: '600' },
+      'sudoers.d/admins': { mode: '440' },
+    });
+    expect(output).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only plan the attributes that differ', () => {
+    const attributes = PermissionLib.read(filePath);
+
+    expect(PermissionLib.planRestore(filePath, attributes)).toEqual([]);
+    expect(PermissionLib.planRestore(filePath, { ...attributes, mode: '644' })).toEqual([
+      { op: 'chmod', path: filePath, mode: 0o644 },
+    ]);
+  });
+
+  it('should plan every attribute for a path created later', () => {
+    const missingPath = path.join(testDir, 'hosts');
+
+    expect(PermissionLib.planRestore(missingPath, { mode: '644' })).toEqual([
+      { op: 'chmod', path: missingPath, mode: 0o644 },
+    ]);
+    expect(PermissionLib.planRestore(missingPath, { mode: '644', owner: 'root', group: 'wheel' })).toEqual([
+      { op: 'chown', path: missingPath, owner: 'root', group: 'wheel' },
+      { op: 'chmod', path: missingPath, mode: 0o644 },
+    ]);
+  });
+});
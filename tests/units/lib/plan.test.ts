@@ -0,0 +1,271 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PlanLib, type PlanStep } from '@/lib/plan';
+import { StateLib } from '@/lib/state';
+import { SudoLib } from '@/lib/sudo';
+
+describe('PlanLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-plan');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+    process.env.DOTSX_BACKUP_PATH = path.join(testDir, 'backups');
+    process.env.DOTSX_STATE_PATH = path.join(testDir, 'state.json');
+  });
+
+  afterEach(() => {
+    mock.restore();
+    delete process.env.DOTSX_BACKUP_PATH;
+    delete process.env.DOTSX_STATE_PATH;
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('getPathState', () => {
+    it('should return missing for non-existing path', () => {
+      expect(PlanLib.getPathState(path.join(testDir, 'nope'))).toBe('missing');
+    });
+
+    it('should change when a file inside a directory changes', () => {
+      const nested = path.join(testDir, 'nested');
+      fs.mkdirSync(nested);
+      fs.writeFileSync(path.join(nested, 'file.txt'), 'a');
+      const before = PlanLib.getPathState(testDir);
+      fs.writeFileSync(path.join(nested, 'file.txt'), 'b');
+
+      expect(before.startsWith('directory:')).toBe(true);
+      expect(PlanLib.getPathState(testDir)).not.toBe(before);
+    });
+
+    it('should change when an entry of a directory is renamed', () => {
+      fs.writeFileSync(path.join(testDir, 'a.txt'), 'content');
+      const before = PlanLib.getPathState(testDir);
+      fs.renameSync(path.join(testDir, 'a.txt'), path.join(testDir, 'b.txt'));
+
+      expect(PlanLib.getPathState(testDir)).not.toBe(before);
+    });
+
+    it('should include symlink target', () => {
+      const link = path.join(testDir, 'link');
+      fs.symlinkSync('/some/target', link);
+      expect(PlanLib.getPathState(link)).toBe('symlink:/some/target');
+    });
+
+    it('should change when file content changes', () => {
+      const file = path.join(testDir, 'file.txt');
+      fs.writeFileSync(file, 'a');
+      const before = PlanLib.getPathState(file);
+      fs.writeFileSync(file, 'b');
+
+      expect(before.startsWith('file:')).toBe(true);
+      expect(PlanLib.getPathState(file)).not.toBe(before);
+    });
+  });
+
+  describe('create', () => {
+    it('should record preconditions for every touched path', () => {
+      const file = path.join(testDir, 'file.txt');
+      fs.writeFileSync(file, 'content');
+
+      const plan = PlanLib.create('debian', [
+        { category: 'bin', title: 'chmod', steps: [{ op: 'chmod', path: file, mode: 0o755 }] },
+        { category: 'packages', title: 'install', steps: [{ op: 'exec', command: 'true' }] },
+      ]);
+
+      expect(plan.os).toBe('debian');
+      expect(Object.keys(plan.preconditions)).toEqual([file]);
+    });
+  });
+
+  describe('getStalePaths', () => {
+    it('should return no path when nothing changed', () => {
+      const file = path.join(testDir, 'file.txt');
+      fs.writeFileSync(file, 'content');
+      const plan = PlanLib.create('debian', [
+        { category: 'bin', title: 'append', steps: [{ op: 'append', path: file, content: 'line' }] },
+      ]);
+
+      expect(PlanLib.getStalePaths(plan)).toEqual([]);
+    });
+
+    it('should return paths changed since the plan was computed', () => {
+      const file = path.join(testDir, 'file.txt');
+      const missing = path.join(testDir, 'missing.txt');
+      fs.writeFileSync(file, 'content');
+      const plan = PlanLib.create('debian', [
+        { category: 'symlinks', title: 'link', steps: [{ op: 'symlink', target: file, path: missing }] },
+      ]);
+
+      fs.writeFileSync(missing, 'created meanwhile');
+
+      expect(PlanLib.getStalePaths(plan)).toEqual([missing]);
+    });
+
+    it('should return a directory whose content changed since the plan was computed', () => {
+      const dir = path.join(testDir, 'nvim');
+      fs.mkdirSync(path.join(dir, 'lua'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'lua', 'init.lua'), 'a');
+      const plan = PlanLib.create('debian', [
+        { category: 'symlinks', title: 'remove', steps: [{ op: 'remove', path: dir }] },
+      ]);
+
+      fs.writeFileSync(path.join(dir, 'lua', 'init.lua'), 'b');
+
+      expect(PlanLib.getStalePaths(plan)).toEqual([dir]);
+    });
+  });
+
+  describe('executeStep', () => {
+    it('should copy a directory', () => {
+      const src = path.join(testDir, 'src');
+      const dest = path.join(testDir, 'nested', 'dest');
+      fs.mkdirSync(src);
+      fs.writeFileSync(path.join(src, 'a.txt'), 'a');
+
+      PlanLib.executeStep({ op: 'copy', from: src, to: dest });
+
+      expect(fs.readFileSync(path.join(dest, 'a.txt'), 'utf8')).toBe('a');
+    });
+
+    it('should remove a symlink without touching its target', () => {
+      const target = path.join(testDir, 'target');
+      const link = path.join(testDir, 'link');
+      fs.mkdirSync(target);
+      fs.writeFileSync(path.join(target, 'a.txt'), 'a');
+      fs.symlinkSync(target, link);
+
+      PlanLib.executeStep({ op: 'remove', path: link });
+
+      expect(fs.existsSync(link)).toBe(false);
+      expect(fs.existsSync(path.join(target, 'a.txt'))).toBe(true);
+    });
+
+    it('should append a line, creating the file', () => {
+      const file = path.join(testDir, 'rc', '.bashrc');
+
+      PlanLib.executeStep({ op: 'append', path: file, content: 'source aliases' });
+
+      expect(fs.readFileSync(file, 'utf8')).toBe('source aliases\n');
+    });
+
+    it('should write a file, remembering what was written', () => {
+      const file = path.join(testDir, 'rendered', '.gitconfig');
+
+      PlanLib.executeStep({ op: 'write', path: file, content: '[user]' });
+
+      expect(fs.readFileSync(file, 'utf8')).toBe('[user]');
+      expect(StateLib.getWritten(file)).toBe(PlanLib.getPathState(file));
+    });
+
+    it('should chmod a file', () => {
+      const file = path.join(testDir, 'script.sh');
+      fs.writeFileSync(file, '');
+
+      PlanLib.executeStep({ op: 'chmod', path: file, mode: 0o755 });
+
+      expect(fs.statSync(file).mode & 0o777).toBe(0o755);
+    });
+  });
+
+  describe('executeSteps', () => {
+    it('should back up removed and overwritten paths first', () => {
+      const file = path.join(testDir, 'file.txt');
+      const dest = path.join(testDir, 'dest.txt');
+      fs.writeFileSync(file, 'new');
+      fs.writeFileSync(dest, 'old');
+
+      const backup = PlanLib.executeSteps(
+        [
+          { op: 'copy', from: file, to: dest },
+          { op: 'remove', path: file },
+        ],
+        'test',
+      );
+
+      expect(fs.readFileSync(dest, 'utf8')).toBe('new');
+      expect(backup?.reason).toBe('test');
+      expect(backup?.entries.map((entry) => entry.originalPath)).toEqual([dest, file]);
+    });
+
+    it('should back up root-only paths in the sudo session replacing them', () => {
+      const sudoers = path.join(testDir, 'sudoers');
+      const dotsxPath = path.join(testDir, 'dotsx', 'sudoers');
+      fs.writeFileSync(sudoers, 'root ALL=(ALL) ALL');
+
+      // As a user who can neither read nor replace it, sudo running the steps as a plain shell
+      spyOn(SudoLib, 'canRead').mockImplementation((p) => p !== sudoers);
+      spyOn(SudoLib, 'needsElevation').mockImplementation((step) => PlanLib.getStepPaths(step).includes(sudoers));
+      const run = spyOn(SudoLib, 'run').mockImplementation((steps: PlanStep[]) => {
+        execSync(`sh -c ${SudoLib.quote(['set -e', ...steps.map(SudoLib.toCommand)].join('\n'))}`, { stdio: 'pipe' });
+      });
+
+      const backup = PlanLib.executeSteps(
+        [
+          { op: 'remove', path: sudoers },
+          { op: 'symlink', target: dotsxPath, path: sudoers },
+        ],
+        'test',
+      );
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run.mock.calls[0]?.[0].map((step) => step.op)).toEqual(['copy', 'remove', 'symlink']);
+      expect(fs.readlinkSync(sudoers)).toBe(dotsxPath);
+      const backupPath = path.join(testDir, 'backups', backup?.id ?? '', 'files', sudoers);
+      expect(fs.readFileSync(backupPath, 'utf8')).toBe('root ALL=(ALL) ALL');
+    });
+
+    it('should not back up anything when nothing is overwritten', () => {
+      const file = path.join(testDir, 'rc');
+
+      expect(PlanLib.executeSteps([{ op: 'append', path: file, content: 'line' }])).toBeNull();
+    });
+  });
+
+  describe('format', () => {
+    it('should report an empty plan', () => {
+      expect(PlanLib.format(PlanLib.create('debian', []))).toBe('No changes, everything is up to date');
+    });
+
+    it('should group actions by category', () => {
+      const plan = PlanLib.create('debian', [
+        {
+          category: 'packages',
+          title: 'Install 1 apt package(s)',
+          steps: [{ op: 'exec', command: 'apt install git' }],
+        },
+        { category: 'symlinks', title: 'Link .zshrc', steps: [{ op: 'remove', path: '/home/user/.zshrc' }] },
+      ]);
+
+      const output = PlanLib.format(plan);
+
+      expect(output.indexOf('[symlinks]')).toBeLessThan(output.indexOf('[packages]'));
+      expect(output).toContain('- remove  /home/user/.zshrc');
+      expect(output).toContain('$ apt install git');
+      expect(output).toContain('Plan: 2 action(s), 2 step(s)');
+    });
+  });
+
+  describe('save and load', () => {
+    it('should round-trip a plan', () => {
+      const file = path.join(testDir, 'plan.json');
+      const plan = PlanLib.create('debian', [
+        { category: 'packages', title: 'install', steps: [{ op: 'exec', command: 'true' }] },
+      ]);
+
+      PlanLib.save(plan, file);
+
+      expect(PlanLib.load(file)).toEqual(plan);
+    });
+
+    it('should throw on missing plan file', () => {
+      expect(() => PlanLib.load(path.join(testDir, 'nope.json'))).toThrow('Plan file not found');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SecretLib } from '@/lib/secret';
+
+describe('SecretLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-secret');
+  const keyPath = path.join(testDir, 'key');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+    process.env.DOTSX_KEY_PATH = keyPath;
+  });
+
+  afterEach(() => {
+    delete process.env.DOTSX_KEY_PATH;
+    delete process.env.DOTSX_PASSPHRASE;
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('paths', () => {
+    it('should add and strip the secret extension', () => {
+      expect(SecretLib.toSecretPath('/dotsx/__home__/.npmrc')).toBe('/dotsx/__home__/.npmrc.dotsx.enc');
+      expect(SecretLib.toSecretPath('/dotsx/__home__/.npmrc.dotsx.enc')).toBe('/dotsx/__home__/.npmrc.dotsx.enc');
+      expect(SecretLib.toDecryptedPath('/home/user/.npmrc.dotsx.enc')).toBe('/home/user/.npmrc');
+    });
+  });
+
+  describe('encrypt / decrypt', () => {
+    it('should round trip without leaking the plaintext', () => {
+      const key = SecretLib.generateKey();
+      const encrypted = SecretLib.encrypt(Buffer.from('token=abc123\n'), key);
+
+      expect(encrypted).not.toContain('abc123');
+      expect(SecretLib.decrypt(encrypted, key).toString()).toBe('token=abc123\n');
+    });
+
+    it('should round trip binary content', () => {
+      const key = SecretLib.generateKey();
+      const keystore = Buffer.from([0x30, 0x82, 0x00, 0xff, 0xfe, 0x0a]);
+
+      expect(SecretLib.decrypt(SecretLib.encrypt(keystore, key), key)).toEqual(keystore);
+    });
+
+    it('should reject a wrong key or a modified file', () => {
+      const key = SecretLib.generateKey();
+      const encrypted = SecretLib.encrypt(Buffer.from('token=abc123'), key);
+
+      expect(() => SecretLib.decrypt(encrypted, SecretLib.generateKey())).toThrow('Wrong keyfile');
+
+      const file = JSON.parse(encrypted);
+      file.data = Buffer.from('token=evil00').toString('base64');
+      expect(() => SecretLib.decrypt(JSON.stringify(file), key)).toThrow('the file was modified');
+      expect(() => SecretLib.decrypt('token=abc123', key)).toThrow('Not a dotsx encrypted file');
+    });
+  });
+
+  describe('keys', () => {
+    it('should prefer DOTSX_PASSPHRASE over the keyfile', () => {
+      expect(SecretLib.resolveKey()).toBeNull();
+      expect(() => SecretLib.requireKey()).toThrow('No secret key');
+
+      const key = SecretLib.generateKey();
+      SecretLib.saveKeyfile(key);
+      expect(SecretLib.resolveKey()).toEqual(key);
+
+      process.env.DOTSX_PASSPHRASE = 'correct horse';
+      expect(SecretLib.resolveKey()).toEqual({ source: 'passphrase', secret: 'correct horse' });
+    });
+
+    it('should write the keyfile for the current user only and never replace it by default', () => {
+      SecretLib.saveKeyfile(SecretLib.generateKey());
+
+      expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600);
+      expect(() => SecretLib.saveKeyfile(SecretLib.generateKey())).toThrow('Keyfile already exists');
+    });
+  });
+});
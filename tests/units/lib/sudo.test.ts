@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { PlanStep } from '@/lib/plan';
+import { SudoLib } from '@/lib/sudo';
+
+describe('SudoLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-sudo');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  // What sudo would run, without root
+  // Like SudoLib.run, without sudo
+  const runAsShell = (steps: PlanStep[]) => {
+    execSync('sh -s', { input: SudoLib.toScript(steps), stdio: 'pipe' });
+  };
+
+  describe('quote', () => {
+    it('should survive single quotes and shell characters', () => {
+      const value = `it's $HOME "quoted" \`cmd\``;
+
+      expect(execSync(`printf '%s' ${SudoLib.quote(value)}`).toString()).toBe(value);
+    });
+  });
+
+  describe('needsElevation', () => {
+    it('should not elevate paths the user can write', () => {
+      const filePath = path.join(testDir, 'missing', 'hosts');
+
+      expect(SudoLib.needsElevation({ op: 'symlink', target: '/dotsx/hosts', path: filePath })).toBe(false);
+      expect(SudoLib.needsElevation({ op: 'write', path: filePath, content: '' })).toBe(false);
+      expect(SudoLib.needsElevation({ op: 'exec', command: 'sudo apt install -y git' })).toBe(false);
+    });
+  });
+
+  describe('toCommand', () => {
+    it('should replace a file with a symlink like executeStep', () => {
+      const hostsPath = path.join(testDir, 'etc', 'hosts');
+      const dotsxPath = path.join(testDir, 'dotsx', 'etc', 'hosts');
+      fs.mkdirSync(path.dirname(hostsPath));
+      fs.writeFileSync(hostsPath, "127.0.0.1 it's-me");
+
+      runAsShell([
+        { op: 'copy', from: hostsPath, to: dotsxPath },
+        { op: 'remove', path: hostsPath },
+        { op: 'symlink', target: dotsxPath, path: hostsPath },
+        { op: 'chmod', path: dotsxPath, mode: 0o640 },
+      ]);
+
+      expect(fs.readlinkSync(hostsPath)).toBe(dotsxPath);
+      expect(fs.readFileSync(dotsxPath, 'utf8')).toBe("127.0.0.1 it's-me");
+      expect(fs.statSync(dotsxPath).mode & 0o777).toBe(0o640);
+    });
+
+    it('should copy directory contents and write files', () => {
+      const from = path.join(testDir, 'nginx');
+      const to = path.join(testDir, 'dotsx', 'nginx');
+      fs.mkdirSync(path.join(from, 'sites'), { recursive: true });
+      fs.writeFileSync(path.join(from, 'sites', 'default'), 'server {}');
+      fs.mkdirSync(to, { recursive: true });
+
+      runAsShell([
+        { op: 'copy', from, to },
+        { op: 'write', path: path.join(testDir, 'new', 'motd'), content: 'line 1\nline 2' },
+      ]);
+
+      expect(fs.readFileSync(path.join(to, 'sites', 'default'), 'utf8')).toBe('server {}');
+      expect(fs.readFileSync(path.join(testDir, 'new', 'motd'), 'utf8')).toBe('line 1\nline 2');
+    });
+
+    it('should write content larger than a command argument can be', () => {
+      const large = path.join(testDir, 'large.conf');
+      const content = 'x'.repeat(512 * 1024);
+
+      runAsShell([{ op: 'write', path: large, content }]);
+
+      expect(fs.readFileSync(large, 'utf8')).toBe(content);
+    });
+
+    it('should write bytes a shell string cannot hold', () => {
+      const keystore = path.join(testDir, 'keystore.p12');
+      const content = Buffer.from([0x30, 0x00, 0xff, 0x0a, 0x27]);
+
+      runAsShell([{ op: 'write', path: keystore, content, mode: 0o600 }]);
+
+      expect(fs.readFileSync(keystore)).toEqual(content);
+      expect(fs.statSync(keystore).mode & 0o777).toBe(0o600);
+    });
+
+    it('should quote the owner and refuse names a shell would interpret', () => {
+      const chown = { op: 'chown' as const, path: '/etc/hosts' };
+
+      expect(SudoLib.toCommand({ ...chown, owner: 'root', group: 'wheel' })).toBe("chown 'root:wheel' '/etc/hosts'");
+      expect(() => SudoLib.toCommand({ ...chown, owner: 'root', group: 'x;touch /tmp/pwned' })).toThrow(
+        'Invalid user or group name: x;touch /tmp/pwned',
+      );
+      expect(() => SudoLib.toCommand({ ...chown, owner: '$(id)' })).toThrow('Invalid user or group name');
+    });
+
+    it('should refuse ignore patterns', () => {
+      expect(() => SudoLib.toCommand({ op: 'copy', from: testDir, to: '/tmp/x', ignore: ['*.log'] })).toThrow(
+        'Ignore patterns are not supported with sudo',
+      );
+    });
+  });
+});
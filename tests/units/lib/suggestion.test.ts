@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
+import { styleText } from 'node:util';
 import { type FoundPath, SuggestionLib } from '@/lib/suggestion';
 import type { OsInfo } from '@/lib/system';
 import type { Suggestion } from '@/suggestions';
@@ -189,6 +190,228 @@ describe('SuggestionLib', () => {
     });
   });
 
+  describe('groupBySuggestion', () => {
+    it('should group paths and their children by suggestion', () => {
+      const home = os.homedir();
+      const result = SuggestionLib.groupBySuggestion(
+        [
+          path.join(home, '.zshrc'),
+          path.join(home, '.config/Cursor/User/settings.json'),
+          path.join(home, '.config/Cursor/User/snippets/ts.json'),
+          '/etc/hosts',
+        ],
+        'linux',
+      );
+
+      expect(result).toEqual({
+        zsh: [path.join(home, '.zshrc')],
+        cursor: [
+          path.join(home, '.config/Cursor/User/settings.json'),
+          path.join(home, '.config/Cursor/User/snippets/ts.json'),
+        ],
+        other: ['/etc/hosts'],
+      });
+    });
+
+    it('should handle no paths', () => {
+      expect(SuggestionLib.groupBySuggestion([], 'linux')).toEqual({});
+    });
+  });
+
+  describe('getSharedPath', () => {
+    it('should return the path at the same position in the suggestion shared with', () => {
+      const home = os.homedir();
+
+      expect(SuggestionLib.getSharedPath(path.join(home, '.config/Cursor/User/snippets'), 'linux')).toBe(
+        path.join(home, '.config/Code/User/snippets'),
+      );
+      expect(SuggestionLib.getSharedPath(path.join(home, '.config/Code/User/settings.json'), 'linux')).toBe(
+        path.join(home, '.config/Cursor/User/settings.json'),
+      );
+      expect(SuggestionLib.getSharedPath(path.join(home, '.zshrc'), 'linux')).toBeNull();
+    });
+  });
+
+  describe('getPathsToCheck', () => {
+    const suggestion: Suggestion = {
+      name: 'test',
+      type: 'terminal',
+      hint: 'Test',
+      pathsToCheck: { linux: ['~/.testrc'], nixos: ['~/.nix-testrc'], fedora: ['~/.fedora-testrc', '...'] },
+      appDirs: { linux: '~/.config/test', nixos: '~/.nix-config/test' },
+    };
+
+    it('should fall back to the family paths without a distro entry', () => {
+      expect(SuggestionLib.getPathsToCheck(suggestion, 'debian')).toEqual(['~/.testrc']);
+      expect(SuggestionLib.getPathsToCheck(suggestion, 'linux')).toEqual(['~/.testrc']);
+      expect(SuggestionLib.getPathsToCheck(suggestion, 'macos')).toBeUndefined();
+    });
+
+    it('should replace the family paths with the distro ones', () => {
+      expect(SuggestionLib.getPathsToCheck(suggestion, 'nixos')).toEqual(['~/.nix-testrc']);
+    });
+
+    it('should extend the family paths where the distro ones list ...', () => {
+      expect(SuggestionLib.getPathsToCheck(suggestion, 'fedora')).toEqual(['~/.fedora-testrc', '~/.testrc']);
+    });
+
+    it('should prefer the app directory of the distro', () => {
+      expect(SuggestionLib.getAppDir(suggestion, 'nixos')).toBe('~/.nix-config/test');
+      expect(SuggestionLib.getAppDir(suggestion, 'debian')).toBe('~/.config/test');
+    });
+
+    it('should offer the family suggestions on a distro', () => {
+      expect(SuggestionLib.getSuggestionsByOs('arch').map((s) => s.name)).toEqual(
+        SuggestionLib.getSuggestionsByOs('linux').map((s) => s.name),
+      );
+    });
+  });
+
+  describe('parseSuggestions', () => {
+    it('should keep valid suggestions and report invalid ones', () => {
+      const result = SuggestionLib.parseSuggestions(
+        JSON.stringify([
+          { name: 'nvim', type: 'terminal', hint: 'Neovim', pathsToCheck: { linux: ['~/.config/nvim'] } },
+          { name: 'alacritty', type: 'terminal', hint: 'Alacritty', pathsToCheck: { linux: '~/.alacritty.toml' } },
+          { name: 'tool', type: 'internal', hint: 'Internal tool', pathsToCheck: {} },
+          'nope',
+        ]),
+      );
+
+      expect(result.suggestions.map((s) => s.name)).toEqual(['nvim']);
+      expect(result.errors).toEqual([
+        'alacritty: pathsToCheck must map OS names to lists of paths',
+        'tool: type must be one of ide, terminal, ai, others',
+        '#4: not an object',
+      ]);
+    });
+
+    it('should report a file that is not an array of suggestions', () => {
+      expect(SuggestionLib.parseSuggestions('{}').errors).toEqual(['expected an array of suggestions']);
+      expect(SuggestionLib.parseSuggestions('[').errors).toHaveLength(1);
+    });
+  });
+
+  describe('getSuggestions', () => {
+    afterEach(() => {
+      delete process.env.DOTSX_PATH;
+    });
+
+    it('should merge user suggestions with the built-in ones, replacing those of the same name', () => {
+      process.env.DOTSX_PATH = testDir;
+      fs.writeFileSync(
+        path.join(testDir, 'suggestions.json'),
+        JSON.stringify([
+          { name: 'nvim', type: 'terminal', hint: 'Neovim', pathsToCheck: { linux: ['~/.config/nvim'] } },
+          { name: 'zsh', type: 'terminal', hint: 'Zsh', pathsToCheck: { linux: ['~/.zshrc.local'] } },
+        ]),
+      );
+
+      const linux = SuggestionLib.getSuggestionsByOs('linux');
+
+      expect(linux.find((s) => s.name === 'nvim')?.pathsToCheck.linux).toEqual(['~/.config/nvim']);
+      expect(linux.filter((s) => s.name === 'zsh').map((s) => s.pathsToCheck.linux)).toEqual([['~/.zshrc.local']]);
+      expect(linux.some((s) => s.name === 'vscode')).toBe(true);
+    });
+
+    it('should read the suggestions file again once it changed', () => {
+      process.env.DOTSX_PATH = testDir;
+      const filePath = path.join(testDir, 'suggestions.json');
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify([{ name: 'nvim', type: 'terminal', hint: 'Neovim', pathsToCheck: {} }]),
+      );
+      expect(SuggestionLib.getSuggestions().some((s) => s.name === 'nvim')).toBe(true);
+
+      fs.writeFileSync(filePath, '[]');
+      expect(SuggestionLib.getSuggestions().some((s) => s.name === 'nvim')).toBe(false);
+    });
+
+    it('should only have built-in suggestions without a suggestions file', () => {
+      process.env.DOTSX_PATH = testDir;
+
+      expect(SuggestionLib.getSuggestions().map((s) => s.name)).toContain('claude-code');
+      expect(SuggestionLib.readUserSuggestions().errors).toEqual([]);
+    });
+  });
+
+  describe('isInstalled', () => {
+    const originalPath = process.env.PATH;
+    const editor: Suggestion = {
+      name: 'editor',
+      type: 'ide',
+      hint: 'Editor',
+      pathsToCheck: { linux: [] },
+      binaries: ['editor-bin'],
+      desktopEntries: ['editor.desktop'],
+    };
+
+    beforeEach(() => {
+      process.env.PATH = testDir;
+      process.env.XDG_DATA_HOME = testDir;
+    });
+
+    afterEach(() => {
+      process.env.PATH = originalPath;
+      delete process.env.XDG_DATA_HOME;
+    });
+
+    it('should find an executable binary in PATH', () => {
+      fs.writeFileSync(path.join(testDir, 'editor-bin'), '#!/bin/sh\n', { mode: 0o755 });
+
+      expect(SuggestionLib.isInstalled(editor, 'linux')).toBe(true);
+      expect(SuggestionLib.isInstalled({ ...editor, binaries: undefined }, 'linux')).toBe(false);
+    });
+
+    it('should find a desktop entry', () => {
+      fs.mkdirSync(path.join(testDir, 'applications'));
+      fs.writeFileSync(path.join(testDir, 'applications/editor.desktop'), '[Desktop Entry]');
+
+      expect(SuggestionLib.isInstalled(editor, 'debian')).toBe(true);
+    });
+
+    it('should tell an app without binary nor desktop entry apart, except where it cannot', () => {
+      fs.writeFileSync(path.join(testDir, 'editor-bin'), 'not executable', { mode: 0o644 });
+
+      expect(SuggestionLib.isInstalled(editor, 'linux')).toBe(false);
+      expect(SuggestionLib.isInstalled(editor, 'windows')).toBe(true);
+    });
+  });
+
+  describe('app paths', () => {
+    const home = os.homedir();
+
+    it('should only recognize apps with known directories', () => {
+      expect(SuggestionLib.isAppPath('vscode:User/settings.json')).toBe(true);
+      expect(SuggestionLib.isAppPath('zsh:.zshrc')).toBe(false);
+      expect(SuggestionLib.isAppPath('~/.zshrc')).toBe(false);
+    });
+
+    it('should resolve an app path on each OS', () => {
+      expect(SuggestionLib.resolveAppPath('vscode:User/settings.json', 'linux')).toBe(
+        path.join(home, '.config/Code/User/settings.json'),
+      );
+      expect(SuggestionLib.resolveAppPath('vscode:User/settings.json', 'macos')).toBe(
+        path.join(home, 'Library/Application Support/Code/User/settings.json'),
+      );
+      expect(SuggestionLib.resolveAppPath('vscode:User/settings.json', 'windows')).toBeNull();
+    });
+
+    it('should turn a path inside an app directory into an app path', () => {
+      expect(SuggestionLib.toAppPath(path.join(home, '.config/Cursor/User/keybindings.json'), 'linux')).toBe(
+        'cursor:User/keybindings.json',
+      );
+      expect(SuggestionLib.toAppPath(path.join(home, '.config/Code'), 'linux')).toBeNull();
+      expect(SuggestionLib.toAppPath(path.join(home, '.zshrc'), 'linux')).toBeNull();
+    });
+
+    it('should store app content under the app name', () => {
+      expect(SuggestionLib.toAppDotsxPath('vscode:User/settings.json', '/dotsx/common/symlinks')).toBe(
+        '/dotsx/common/symlinks/__app__/vscode/User/settings.json',
+      );
+    });
+  });
+
   describe('buildGroupedOptions', () => {
     it('should build grouped options with default value mapper', () => {
       const existingPaths = {
@@ -239,5 +462,33 @@ describe('SuggestionLib', () => {
 
       expect(Object.keys(result)).toEqual(['group1', 'group2', 'group3']);
     });
+
+    it('should list missing suggestions after the found ones, greyed out with their hint', () => {
+      const existingPaths = { zsh: [{ suggestedPath: '~/.zshrc', type: 'file' as const }] };
+      const missing = [{ name: 'tmux', hint: 'Tmux is not installed', paths: ['~/.tmux.conf', '~/.config/tmux'] }];
+
+      const result = SuggestionLib.buildGroupedOptions(existingPaths, undefined, missing);
+
+      expect(Object.keys(result)).toEqual(['zsh', 'tmux']);
+      expect(result.tmux).toEqual([
+        { value: null, label: styleText('dim', '~/.tmux.conf, ~/.config/tmux'), hint: 'Tmux is not installed' },
+      ]);
+    });
+  });
+
+  describe('getMissingSuggestions', () => {
+    it('should return the suggestions of the OS without existing paths', () => {
+      const osInfo: OsInfo = { platform: 'linux', family: 'linux', distro: 'debian' };
+      const existingPaths = { zsh: [{ suggestedPath: '~/.zshrc', type: 'file' as const }] };
+
+      const missing = SuggestionLib.getMissingSuggestions(osInfo, existingPaths);
+
+      expect(missing.map((s) => s.name)).not.toContain('zsh');
+      expect(missing.find((s) => s.name === 'tmux')).toEqual({
+        name: 'tmux',
+        hint: 'Tmux is not installed',
+        paths: expect.arrayContaining(['~/.tmux.conf']),
+      });
+    });
   });
 });
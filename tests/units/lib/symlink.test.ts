@@ -12,9 +12,13 @@ describe('SymlinkLib', () => {
       fs.rmSync(testDir, { recursive: true });
     }
     fs.mkdirSync(testDir, { recursive: true });
+    process.env.DOTSX_BACKUP_PATH = path.join(testDir, 'backups');
+    process.env.DOTSX_STATE_PATH = path.join(testDir, 'state.json');
   });
 
   afterEach(() => {
+    delete process.env.DOTSX_BACKUP_PATH;
+    delete process.env.DOTSX_STATE_PATH;
     if (fs.existsSync(testDir)) {
       fs.rmSync(testDir, { recursive: true });
     }
@@ -106,9 +110,7 @@ describe('SymlinkLib', () => {
       const systemPath = path.join(testDir, 'system', 'file.txt');
       const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
 
-      expect(() => SymlinkLib.safeSymlink(systemPath, dotsxPath)).toThrow(
-        'Neither system path nor dotsx path exists'
-      );
+      expect(() => SymlinkLib.safeSymlink(systemPath, dotsxPath)).toThrow('Neither system path nor dotsx path exists');
     });
 
     it('should do nothing if symlink already correct', () => {
@@ -235,4 +237,263 @@ describe('SymlinkLib', () => {
       expect(fs.lstatSync(systemPath).isSymbolicLink()).toBe(true);
     });
   });
+
+  describe('planSymlink', () => {
+    it('should return no steps when symlink already correct', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.mkdirSync(path.dirname(systemPath), { recursive: true });
+      fs.writeFileSync(dotsxPath, 'test');
+      fs.symlinkSync(dotsxPath, systemPath);
+
+      expect(SymlinkLib.planSymlink(systemPath, dotsxPath)).toEqual([]);
+    });
+
+    it('should plan copy, remove and symlink for a system file without touching it', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(systemPath), { recursive: true });
+      fs.writeFileSync(systemPath, 'content');
+
+      const steps = SymlinkLib.planSymlink(systemPath, dotsxPath);
+
+      expect(steps).toEqual([
+        { op: 'copy', from: systemPath, to: dotsxPath },
+        { op: 'remove', path: systemPath },
+        { op: 'symlink', target: dotsxPath, path: systemPath },
+      ]);
+      expect(fs.lstatSync(systemPath).isFile()).toBe(true);
+      expect(fs.existsSync(dotsxPath)).toBe(false);
+    });
+
+    it('should plan only a symlink in sync scenario', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.writeFileSync(dotsxPath, 'content');
+
+      expect(SymlinkLib.planSymlink(systemPath, dotsxPath)).toEqual([
+        { op: 'symlink', target: dotsxPath, path: systemPath },
+      ]);
+    });
+
+    it('should refuse to link a directory containing the dotsx path', () => {
+      const systemPath = path.join(testDir, 'home');
+      const dotsxPath = path.join(systemPath, '.dotsx', 'symlinks', '__home__');
+      fs.mkdirSync(dotsxPath, { recursive: true });
+
+      expect(() => SymlinkLib.planSymlink(systemPath, dotsxPath)).toThrow('it contains the dotsx path');
+    });
+  });
+
+  describe('planUnlink', () => {
+    it('should plan removing the symlink and restoring a copy', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.mkdirSync(path.dirname(systemPath), { recursive: true });
+      fs.writeFileSync(dotsxPath, 'test');
+      fs.symlinkSync(dotsxPath, systemPath);
+
+      expect(SymlinkLib.planUnlink(systemPath, dotsxPath)).toEqual([
+        { op: 'remove', path: systemPath },
+        { op: 'copy', from: dotsxPath, to: systemPath },
+      ]);
+    });
+
+    it('should plan removing the dotsx content when asked', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.writeFileSync(dotsxPath, 'test');
+
+      expect(SymlinkLib.planUnlink(systemPath, dotsxPath, true)).toEqual([
+        { op: 'copy', from: dotsxPath, to: systemPath },
+        { op: 'remove', path: dotsxPath },
+      ]);
+    });
+
+    it('should refuse to overwrite a real system file', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.mkdirSync(path.dirname(systemPath), { recursive: true });
+      fs.writeFileSync(dotsxPath, 'test');
+      fs.writeFileSync(systemPath, 'local');
+
+      expect(() => SymlinkLib.planUnlink(systemPath, dotsxPath)).toThrow('is not a symlink');
+    });
+
+    it('should throw when the dotsx content is missing', () => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+
+      expect(() => SymlinkLib.planUnlink(systemPath, dotsxPath)).toThrow('dotsx path is missing');
+    });
+  });
+
+  describe('conflicts', () => {
+    const setupConflict = (systemContent: string, dotsxContent: string) => {
+      const systemPath = path.join(testDir, 'system', 'file.txt');
+      const dotsxPath = path.join(testDir, 'dotsx', 'file.txt');
+      fs.mkdirSync(path.dirname(systemPath), { recursive: true });
+      fs.mkdirSync(path.dirname(dotsxPath), { recursive: true });
+      fs.writeFileSync(systemPath, systemContent);
+      fs.writeFileSync(dotsxPath, dotsxContent);
+      return { systemPath, dotsxPath };
+    };
+
+    it('should detect different system and dotsx copies', () => {
+      const { systemPath, dotsxPath } = setupConflict('local', 'dotsx');
+
+      expect(SymlinkLib.getConflict(systemPath, dotsxPath)).toBe(systemPath);
+    });
+
+    it('should not report identical copies', () => {
+      const { systemPath, dotsxPath } = setupConflict('same', 'same');
+
+      expect(SymlinkLib.getConflict(systemPath, dotsxPath)).toBeNull();
+    });
+
+    it('should refuse to pick a version silently', () => {
+      const { systemPath, dotsxPath } = setupConflict('local', 'dotsx');
+
+      expect(() => SymlinkLib.safeSymlink(systemPath, dotsxPath)).toThrow('differs from its dotsx copy');
+      expect(fs.readFileSync(dotsxPath, 'utf8')).toBe('dotsx');
+    });
+
+    it('should keep the system version when asked', () => {
+      const { systemPath, dotsxPath } = setupConflict('local', 'dotsx');
+
+      SymlinkLib.safeSymlink(systemPath, dotsxPath, 'system');
+
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('local');
+      expect(fs.lstatSync(systemPath).isSymbolicLink()).toBe(true);
+    });
+
+    it('should keep the dotsx version when asked', () => {
+      const { systemPath, dotsxPath } = setupConflict('local', 'dotsx');
+
+      expect(SymlinkLib.planSymlink(systemPath, dotsxPath, 'dotsx')).toEqual([
+        { op: 'remove', path: systemPath },
+        { op: 'symlink', target: dotsxPath, path: systemPath },
+      ]);
+
+      SymlinkLib.safeSymlink(systemPath, dotsxPath, 'dotsx');
+
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('dotsx');
+    });
+  });
+
+  describe('copy mode', () => {
+    const setupCopy = (content: string) => {
+      const systemPath = path.join(testDir, 'system', 'settings.json');
+      const dotsxPath = path.join(testDir, 'dotsx', 'settings.json');
+      fs.mkdirSync(path.dirname(systemPath), { recursive: true });
+      fs.writeFileSync(systemPath, content);
+      SymlinkLib.safeCopy(systemPath, dotsxPath);
+      return { systemPath, dotsxPath };
+    };
+
+    it('should keep a real file on the system', () => {
+      const { systemPath, dotsxPath } = setupCopy('{}');
+
+      expect(fs.lstatSync(systemPath).isFile()).toBe(true);
+      expect(fs.readFileSync(dotsxPath, 'utf8')).toBe('{}');
+      expect(SymlinkLib.getCopyChange(systemPath, dotsxPath)).toBe('synced');
+    });
+
+    it('should sync in the direction of the changed side', () => {
+      const { systemPath, dotsxPath } = setupCopy('{}');
+
+      fs.writeFileSync(systemPath, '{ "system": true }');
+      expect(SymlinkLib.planCopy(systemPath, dotsxPath)).toEqual([{ op: 'copy', from: systemPath, to: dotsxPath }]);
+      SymlinkLib.safeCopy(systemPath, dotsxPath);
+      expect(fs.readFileSync(dotsxPath, 'utf8')).toBe('{ "system": true }');
+
+      fs.writeFileSync(dotsxPath, '{ "dotsx": true }');
+      expect(SymlinkLib.getCopyChange(systemPath, dotsxPath)).toBe('dotsx');
+      SymlinkLib.safeCopy(systemPath, dotsxPath);
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('{ "dotsx": true }');
+    });
+
+    it('should survive an atomic replacement of the system file', () => {
+      const { systemPath, dotsxPath } = setupCopy('{}');
+
+      fs.writeFileSync(`${systemPath}.tmp`, '{ "replaced": true }');
+      fs.renameSync(`${systemPath}.tmp`, systemPath);
+
+      expect(SymlinkLib.getCopyChange(systemPath, dotsxPath)).toBe('system');
+    });
+
+    it('should require a version to keep when both sides changed', () => {
+      const { systemPath, dotsxPath } = setupCopy('{}');
+      fs.writeFileSync(systemPath, 'system');
+      fs.writeFileSync(dotsxPath, 'dotsx');
+
+      expect(SymlinkLib.getCopyChange(systemPath, dotsxPath)).toBe('both');
+      expect(() => SymlinkLib.planCopy(systemPath, dotsxPath)).toThrow('changed on both sides');
+
+      SymlinkLib.safeCopy(systemPath, dotsxPath, 'dotsx');
+      expect(fs.readFileSync(systemPath, 'utf8')).toBe('dotsx');
+    });
+
+    it('should replace a symlink left from symlink mode', () => {
+      const systemPath = path.join(testDir, 'settings.json');
+      const dotsxPath = path.join(testDir, 'dotsx.json');
+      fs.writeFileSync(dotsxPath, '{}');
+      fs.symlinkSync(dotsxPath, systemPath);
+
+      expect(SymlinkLib.planCopy(systemPath, dotsxPath)).toEqual([
+        { op: 'remove', path: systemPath },
+        { op: 'copy', from: dotsxPath, to: systemPath },
+      ]);
+    });
+
+    it('should refuse directories', () => {
+      fs.mkdirSync(path.join(testDir, 'dir'));
+
+      expect(() => SymlinkLib.planCopy(path.join(testDir, 'dir'), path.join(testDir, 'dotsx'))).toThrow(
+        'Copy mode only supports files',
+      );
+    });
+  });
+
+  describe('getDrift', () => {
+    const systemPath = () => path.join(testDir, 'system', '.zshrc');
+    const dotsxPath = () => path.join(testDir, 'dotsx', '.zshrc');
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(testDir, 'system'), { recursive: true });
+      fs.mkdirSync(path.join(testDir, 'dotsx'), { recursive: true });
+      fs.writeFileSync(dotsxPath(), 'dotsx');
+    });
+
+    it('should tell a correct symlink from a missing one', () => {
+      expect(SymlinkLib.getDrift(systemPath(), dotsxPath())).toBe('missing');
+
+      fs.symlinkSync(path.join(testDir, 'gone'), systemPath());
+      expect(SymlinkLib.getDrift(systemPath(), dotsxPath())).toBe('missing');
+
+      fs.rmSync(systemPath());
+      fs.symlinkSync(dotsxPath(), systemPath());
+      expect(SymlinkLib.getDrift(systemPath(), dotsxPath())).toBe('linked');
+    });
+
+    it('should compare a real file replacing the symlink with dotsx', () => {
+      fs.writeFileSync(systemPath(), 'dotsx');
+      expect(SymlinkLib.getDrift(systemPath(), dotsxPath())).toBe('identical');
+
+      fs.writeFileSync(systemPath(), 'edited');
+      expect(SymlinkLib.getDrift(systemPath(), dotsxPath())).toBe('changed');
+    });
+
+    it('should detect a symlink to another path', () => {
+      fs.writeFileSync(path.join(testDir, 'other'), 'dotsx');
+      fs.symlinkSync(path.join(testDir, 'other'), systemPath());
+
+      expect(SymlinkLib.getDrift(systemPath(), dotsxPath())).toBe('elsewhere');
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { SystemLib } from '@/lib/system';
@@ -167,4 +168,26 @@ describe('SystemLib', () => {
       process.env.SHELL = originalShell;
     });
   });
+
+  describe('openEditor', () => {
+    it('should pass paths with quotes and shell characters as arguments', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dotsx-test-editor-'));
+      try {
+        const from = path.join(dir, `it's "$(touch pwned)" \`touch pwned\``);
+        fs.writeFileSync(from, 'content');
+
+        // An editor command with arguments of its own
+        SystemLib.openEditor('cp -p', [from, path.join(dir, 'copy')]);
+
+        expect(fs.readFileSync(path.join(dir, 'copy'), 'utf8')).toBe('content');
+        expect(fs.existsSync(path.join(dir, 'pwned'))).toBe(false);
+      } finally {
+        fs.rmSync(dir, { recursive: true });
+      }
+    });
+
+    it('should throw when the editor exits with an error', () => {
+      expect(() => SystemLib.openEditor('false', ['/tmp/file'])).toThrow('false exited with code 1');
+    });
+  });
 });
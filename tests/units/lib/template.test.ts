@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PlanLib } from '@/lib/plan';
+import { TemplateLib } from '@/lib/template';
+
+describe('TemplateLib', () => {
+  const testDir = path.join(os.tmpdir(), 'dotsx-test-template');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+    process.env.DOTSX_BACKUP_PATH = path.join(testDir, 'backups');
+    process.env.DOTSX_STATE_PATH = path.join(testDir, 'state.json');
+  });
+
+  afterEach(() => {
+    delete process.env.DOTSX_BACKUP_PATH;
+    delete process.env.DOTSX_STATE_PATH;
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(testDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  describe('paths', () => {
+    it('should add and strip the template extension', () => {
+      expect(TemplateLib.toTemplatePath('/dotsx/__home__/.gitconfig')).toBe('/dotsx/__home__/.gitconfig.dotsx.tmpl');
+      expect(TemplateLib.toRenderedPath('/home/user/.gitconfig.dotsx.tmpl')).toBe('/home/user/.gitconfig');
+      expect(TemplateLib.isTemplate('/home/user/.gitconfig')).toBe(false);
+    });
+  });
+
+  describe('render', () => {
+    it('should replace variables', () => {
+      const template = write('a.dotsx.tmpl', '[user]\n  email = {{ email }}\n');
+
+      expect(TemplateLib.render(template, { email: 'me@example.com' })).toBe('[user]\n  email = me@example.com\n');
+    });
+
+    it('should keep the matching branch of conditionals, without leftover lines', () => {
+      const template = write(
+        'a.dotsx.tmpl',
+        [
+          'font = 12',
+          '{{#if os == "darwin"}}',
+          'cmd = true',
+          '{{else}}',
+          'ctrl = true',
+          '{{#if hostname != "laptop"}}',
+          'dpi = 2',
+          '{{/if}}',
+          '{{/if}}',
+          'end',
+        ].join('\n'),
+      );
+
+      expect(TemplateLib.render(template, { os: 'linux', hostname: 'desktop' })).toBe(
+        'font = 12\nctrl = true\ndpi = 2\nend',
+      );
+      expect(TemplateLib.render(template, { os: 'darwin', hostname: 'laptop' })).toBe('font = 12\ncmd = true\nend');
+    });
+
+    it('should treat unset variables as false in conditions', () => {
+      const template = write('a.dotsx.tmpl', '{{#if proxy}}proxy = {{ proxy }}{{/if}}{{#if !proxy}}direct{{/if}}');
+
+      expect(TemplateLib.render(template, {})).toBe('direct');
+      expect(TemplateLib.render(template, { proxy: 'http://proxy:3128' })).toBe('proxy = http://proxy:3128');
+    });
+
+    it('should render includes relative to the including file', () => {
+      write('partials/user.dotsx.tmpl', 'name = {{ name }}');
+      const template = write('a.dotsx.tmpl', '[user]\n  {{> partials/user.dotsx.tmpl }}\n');
+
+      expect(TemplateLib.render(template, { name: 'me' })).toBe('[user]\n  name = me\n');
+    });
+
+    it('should reject include cycles', () => {
+      write('a.dotsx.tmpl', '{{> b.dotsx.tmpl}}');
+      write('b.dotsx.tmpl', '{{> a.dotsx.tmpl}}');
+
+      expect(() => TemplateLib.render(path.join(testDir, 'a.dotsx.tmpl'), {})).toThrow('Template include cycle');
+    });
+
+    it('should reject unknown variables and unbalanced blocks', () => {
+      expect(() => TemplateLib.render(write('a.dotsx.tmpl', '{{ email }}'), {})).toThrow(
+        'Unknown template variable "email"',
+      );
+      expect(() => TemplateLib.render(write('b.dotsx.tmpl', '{{#if os}}'), {})).toThrow('Missing {{/if}}');
+      expect(() => TemplateLib.render(write('c.dotsx.tmpl', '{{/if}}'), {})).toThrow('Unexpected {{/if}}');
+    });
+
+    it('should not resolve variables of skipped branches', () => {
+      const template = write('a.dotsx.tmpl', '{{#if os == "darwin"}}{{ brew_prefix }}{{/if}}ok');
+
+      expect(TemplateLib.render(template, { os: 'linux' })).toBe('ok');
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should tell outdated renders from hand edits', () => {
+      const systemPath = path.join(testDir, 'home', '.gitconfig');
+      expect(TemplateLib.getStatus(systemPath, 'v1')).toBe('missing');
+
+      PlanLib.executeSteps(TemplateLib.planRender(systemPath, 'v1'));
+      expect(TemplateLib.getStatus(systemPath, 'v1')).toBe('rendered');
+      expect(TemplateLib.getStatus(systemPath, 'v2')).toBe('outdated');
+
+      fs.writeFileSync(systemPath, 'edited');
+      expect(TemplateLib.getStatus(systemPath, 'v2')).toBe('edited');
+    });
+
+    it('should treat a file dotsx never wrote as edited', () => {
+      expect(TemplateLib.getStatus(write('.gitconfig', 'mine'), 'rendered')).toBe('edited');
+    });
+  });
+
+  describe('planRender', () => {
+    it('should refuse to overwrite hand edits unless forced', () => {
+      const systemPath = write('.gitconfig', 'mine');
+
+      expect(() => TemplateLib.planRender(systemPath, 'rendered')).toThrow('was edited by hand');
+      expect(TemplateLib.planRender(systemPath, 'rendered', true)).toEqual([
+        { op: 'write', path: systemPath, content: 'rendered' },
+      ]);
+    });
+
+    it('should replace a symlink left at the system path', () => {
+      const systemPath = path.join(testDir, '.gitconfig');
+      fs.symlinkSync(write('target', 'old'), systemPath);
+
+      expect(TemplateLib.planRender(systemPath, 'rendered')).toEqual([
+        { op: 'remove', path: systemPath },
+        { op: 'write', path: systemPath, content: 'rendered' },
+      ]);
+    });
+  });
+});